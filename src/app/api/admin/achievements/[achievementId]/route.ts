@@ -0,0 +1,157 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { Achievement, User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import {
+  parseAchievementInput,
+  validateAchievementCriteria,
+} from "@/lib/achievements";
+
+// PUT - Update an achievement (Admin only)
+// Users who already unlocked it keep it, even if the criteria become stricter
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ achievementId: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { achievementId } = await params;
+
+    const parsed = parseAchievementInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    await connectMongoDB();
+
+    const achievement = await Achievement.findById(achievementId);
+    if (!achievement) {
+      return NextResponse.json(
+        { error: "Achievement not found" },
+        { status: 404 }
+      );
+    }
+
+    const previousData = sanitizeDataForLogging(achievement.toJSON());
+
+    achievement.set(parsed.fields);
+
+    const criteriaError = validateAchievementCriteria(achievement);
+    if (criteriaError) {
+      return NextResponse.json({ error: criteriaError }, { status: 400 });
+    }
+
+    await achievement.save();
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "UPDATE_ACHIEVEMENT",
+        resourceType: "achievement",
+        resourceId: achievementId,
+        details: { name: achievement.name },
+        previousData,
+        newData: sanitizeDataForLogging(achievement.toJSON()),
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      achievement,
+    });
+  } catch (error) {
+    console.error("Error updating achievement:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete an achievement (Admin only)
+// Bonus points already awarded for it are kept
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ achievementId: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { achievementId } = await params;
+
+    await connectMongoDB();
+
+    const achievement = await Achievement.findById(achievementId);
+    if (!achievement) {
+      return NextResponse.json(
+        { error: "Achievement not found" },
+        { status: 404 }
+      );
+    }
+
+    const previousData = sanitizeDataForLogging(achievement.toJSON());
+
+    const { modifiedCount } = await User.updateMany(
+      { "achievements.achievement": achievement._id },
+      { $pull: { achievements: { achievement: achievement._id } } }
+    );
+
+    await Achievement.findByIdAndDelete(achievementId);
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "DELETE_ACHIEVEMENT",
+        resourceType: "achievement",
+        resourceId: achievementId,
+        details: { name: achievement.name, usersAffected: modifiedCount },
+        previousData,
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Achievement deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting achievement:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,134 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { Achievement, User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import {
+  parseAchievementInput,
+  validateAchievementCriteria,
+} from "@/lib/achievements";
+
+// GET - Fetch all achievements with unlock counts (Admin only)
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const [achievements, unlockStats] = await Promise.all([
+      Achievement.find({}).sort({ createdAt: -1 }),
+      User.aggregate([
+        { $unwind: "$achievements" },
+        {
+          $group: {
+            _id: "$achievements.achievement",
+            unlockedCount: { $sum: 1 },
+          },
+        },
+      ]),
+    ]);
+
+    const unlockedCountById = new Map(
+      unlockStats.map((stats) => [stats._id.toString(), stats.unlockedCount])
+    );
+
+    return NextResponse.json({
+      success: true,
+      achievements: achievements.map((achievement) => ({
+        ...achievement.toJSON(),
+        unlockedCount: unlockedCountById.get(achievement._id.toString()) || 0,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching achievements:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a new achievement (Admin only)
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parseAchievementInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (!parsed.fields.name) {
+      return NextResponse.json({ error: "Name is required" }, { status: 400 });
+    }
+
+    const criteriaError = validateAchievementCriteria(parsed.fields);
+    if (criteriaError) {
+      return NextResponse.json({ error: criteriaError }, { status: 400 });
+    }
+
+    await connectMongoDB();
+
+    const admin = await User.findOne({ email: session.user.email }).select(
+      "_id"
+    );
+
+    const achievement = new Achievement({
+      ...parsed.fields,
+      createdBy: admin?._id,
+    });
+
+    await achievement.save();
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "CREATE_ACHIEVEMENT",
+        resourceType: "achievement",
+        resourceId: achievement._id.toString(),
+        details: { name: achievement.name },
+        newData: sanitizeDataForLogging(achievement.toJSON()),
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      achievement,
+    });
+  } catch (error) {
+    console.error("Error creating achievement:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,119 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction } from "@/lib/adminAuditLogger";
+import { getAnomalyReport, reviewAnomalyFlag } from "@/lib/anomalies";
+
+// GET - Report suspicious claim patterns (Admin only)
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const flags = await getAnomalyReport();
+
+    return NextResponse.json({
+      success: true,
+      flags,
+      stats: {
+        total: flags.length,
+        unreviewed: flags.filter((flag) => !flag.review).length,
+      },
+    });
+  } catch (error) {
+    console.error("Error building anomaly report:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Mark an anomaly flag as reviewed (Admin only)
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { flagKey, note } = await request.json();
+
+    if (!flagKey || typeof flagKey !== "string") {
+      return NextResponse.json(
+        { error: "Flag key is required" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const flag = await reviewAnomalyFlag(
+      flagKey,
+      typeof note === "string" ? note.trim() : "",
+      session.user.email
+    );
+    if (!flag) {
+      return NextResponse.json(
+        { error: "This flag is no longer reported" },
+        { status: 404 }
+      );
+    }
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "REVIEW_ANOMALY",
+        resourceType: "anomaly",
+        resourceId: flag.key,
+        ...(flag.users.length === 1 && {
+          targetUserEmail: flag.users[0].email,
+        }),
+        details: {
+          type: flag.type,
+          summary: flag.summary,
+          users: flag.users.map((user) => user.email),
+          note: flag.review.note,
+        },
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Flag marked as reviewed",
+      flag,
+    });
+  } catch (error) {
+    console.error("Error reviewing anomaly:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,71 @@
+import { NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { auth0 } from "@/lib/auth0";
+import { User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import isVolunteer from "@/lib/isVolunteer";
+import { verifyBadgeToken } from "@/lib/qrSigning";
+
+// POST - Look up the user a scanned badge QR belongs to (Admin or Volunteer only)
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin or volunteer
+    const isUserAdmin = await isAdmin();
+    const isUserVolunteer = await isVolunteer();
+
+    if (!isUserAdmin && !isUserVolunteer) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin or Volunteer access required" },
+        { status: 403 }
+      );
+    }
+
+    const { token } = await request.json();
+
+    if (!token || typeof token !== "string") {
+      return NextResponse.json(
+        { error: "Badge token is required" },
+        { status: 400 }
+      );
+    }
+
+    // Verify the signature before touching the database
+    const badge = verifyBadgeToken(token);
+    if (!badge.valid || !isValidObjectId(badge.userId)) {
+      return NextResponse.json(
+        { error: "Not a valid attendee badge" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const user = await User.findById(badge.userId).select("email name points");
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      user: {
+        _id: user._id,
+        email: user.email,
+        name: user.name,
+        points: user.points,
+      },
+    });
+  } catch (error) {
+    console.error("Error looking up badge:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,9 +1,11 @@
 import { NextResponse } from "next/server";
 import { auth0 } from "@/lib/auth0";
-import { User } from "@/lib/models";
+import { ClaimAttempt, User } from "@/lib/models";
 import connectMongoDB from "@/lib/mongodb";
 import isAdmin from "@/lib/isAdmin";
 import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import { RATE_LIMIT_WINDOW_MINUTES } from "@/lib/claimService";
+import { RATE_LIMIT_POLICIES, withRateLimit } from "@/lib/rateLimit";
 
 // GET - Fetch claim attempts for monitoring (Admin only)
 export async function GET(request: Request) {
@@ -22,79 +24,65 @@ export async function GET(request: Request) {
       );
     }
 
-    const { searchParams } = new URL(request.url);
-    const email = searchParams.get("email");
-    const failedOnly = searchParams.get("failed") === "true";
-    const limit = parseInt(searchParams.get("limit") || "100");
-
-    await connectMongoDB();
-
-    const query = email ? { email } : {};
-
-    const users = await User.find(query)
-      .select("email name claim_attempts")
-      .sort({ "claim_attempts.timestamp": -1 })
-      .limit(limit);
-
-    interface ClaimAttemptWithUser {
-      userEmail: string;
-      userName?: string;
-      identifier: string;
-      success: boolean;
-      timestamp: Date;
-      item_id?: string;
-    }
-
-    let claimAttempts: ClaimAttemptWithUser[] = [];
-
-    users.forEach((user) => {
-      if (user.claim_attempts && user.claim_attempts.length > 0) {
-        user.claim_attempts.forEach(
-          (attempt: {
-            identifier: string;
-            success: boolean;
-            timestamp: Date;
-            item_id?: string;
-          }) => {
-            if (!failedOnly || !attempt.success) {
-              claimAttempts.push({
-                userEmail: user.email,
-                userName: user.name,
-                identifier: attempt.identifier,
-                success: attempt.success,
-                timestamp: attempt.timestamp,
-                item_id: attempt.item_id?.toString(),
-              });
-            }
-          }
-        );
+    return await withRateLimit(
+      request,
+      RATE_LIMIT_POLICIES.adminSearch,
+      session.user.email,
+      async () => {
+        const { searchParams } = new URL(request.url);
+        const email = searchParams.get("email");
+        const failedOnly = searchParams.get("failed") === "true";
+        const limit = parseInt(searchParams.get("limit") || "100");
+
+        await connectMongoDB();
+
+        const query = {
+          ...(email && { userEmail: email }),
+          ...(failedOnly && { success: false }),
+        };
+
+        const [attempts, [totals]] = await Promise.all([
+          ClaimAttempt.find(query)
+            .sort({ timestamp: -1 })
+            .limit(limit)
+            .populate({ path: "user", select: "name" }),
+          ClaimAttempt.aggregate([
+            { $match: query },
+            {
+              $group: {
+                _id: null,
+                totalAttempts: { $sum: 1 },
+                failedAttempts: { $sum: { $cond: ["$success", 0, 1] } },
+                successfulAttempts: { $sum: { $cond: ["$success", 1, 0] } },
+                users: { $addToSet: "$user" },
+              },
+            },
+          ]),
+        ]);
+
+        const claimAttempts = attempts.map((attempt) => ({
+          userEmail: attempt.userEmail,
+          userName: attempt.user?.name,
+          identifier: attempt.identifier,
+          success: attempt.success,
+          timestamp: attempt.timestamp,
+          item_id: attempt.item_id?.toString(),
+        }));
+
+        const stats = {
+          totalAttempts: totals?.totalAttempts || 0,
+          failedAttempts: totals?.failedAttempts || 0,
+          successfulAttempts: totals?.successfulAttempts || 0,
+          uniqueUsers: totals?.users.length || 0,
+        };
+
+        return NextResponse.json({
+          success: true,
+          claimAttempts,
+          stats,
+        });
       }
-    });
-
-    // Sort by timestamp descending
-    claimAttempts.sort(
-      (a, b) =>
-        new Date(b.timestamp).getTime() - new Date(a.timestamp).getTime()
     );
-
-    // Apply limit after combining all attempts
-    claimAttempts = claimAttempts.slice(0, limit);
-
-    const stats = {
-      totalAttempts: claimAttempts.length,
-      failedAttempts: claimAttempts.filter((attempt) => !attempt.success)
-        .length,
-      successfulAttempts: claimAttempts.filter((attempt) => attempt.success)
-        .length,
-      uniqueUsers: new Set(claimAttempts.map((attempt) => attempt.userEmail))
-        .size,
-    };
-
-    return NextResponse.json({
-      success: true,
-      claimAttempts,
-      stats,
-    });
   } catch (error) {
     console.error("Error fetching claim attempts:", error);
     return NextResponse.json(
@@ -147,48 +135,40 @@ export async function POST(request: Request) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    // Ensure claim_attempts array exists
-    if (!user.claim_attempts) {
-      user.claim_attempts = [];
-    }
+    const countAttempts = async () => {
+      const [claimAttemptsCount, failedAttemptsCount] = await Promise.all([
+        ClaimAttempt.countDocuments({ user: user._id }),
+        ClaimAttempt.countDocuments({ user: user._id, success: false }),
+      ]);
+      return { claimAttemptsCount, failedAttemptsCount };
+    };
 
     // Store previous data for audit logging
-    const previousAttempts = [...user.claim_attempts];
-    const previousData = sanitizeDataForLogging({
-      claimAttemptsCount: user.claim_attempts.length,
-      failedAttemptsCount: user.claim_attempts.filter(
-        (attempt: { success: boolean }) => !attempt.success
-      ).length,
-    });
+    const previousCounts = await countAttempts();
+    const previousData = sanitizeDataForLogging(previousCounts);
 
     if (clearType === "failed") {
       // Clear only failed attempts
-      user.claim_attempts = user.claim_attempts.filter(
-        (attempt: { success: boolean }) => attempt.success
-      );
+      await ClaimAttempt.deleteMany({ user: user._id, success: false });
     } else if (clearType === "rate-limit") {
-      // Clear only recent failed attempts (last 15 minutes) to reset rate limit
-      const now = new Date();
-      const windowStart = new Date(now.getTime() - 15 * 60 * 1000); // 15 minutes ago
-
-      user.claim_attempts = user.claim_attempts.filter(
-        (attempt: { success: boolean; timestamp: Date }) =>
-          attempt.success || new Date(attempt.timestamp) < windowStart
+      // Clear only recent failed attempts to reset rate limit
+      const windowStart = new Date(
+        Date.now() - RATE_LIMIT_WINDOW_MINUTES * 60 * 1000
       );
+
+      await ClaimAttempt.deleteMany({
+        user: user._id,
+        success: false,
+        timestamp: { $gte: windowStart },
+      });
     } else {
       // Clear all attempts
-      user.claim_attempts = [];
+      await ClaimAttempt.deleteMany({ user: user._id });
     }
 
-    await user.save();
-
     // Store new data for audit logging
-    const newData = sanitizeDataForLogging({
-      claimAttemptsCount: user.claim_attempts.length,
-      failedAttemptsCount: user.claim_attempts.filter(
-        (attempt: { success: boolean }) => !attempt.success
-      ).length,
-    });
+    const newCounts = await countAttempts();
+    const newData = sanitizeDataForLogging(newCounts);
 
     // Log the admin action
     const adminEmail = session.user.email;
@@ -209,7 +189,7 @@ export async function POST(request: Request) {
         details: {
           clearType,
           attemptsClearedCount:
-            previousAttempts.length - user.claim_attempts.length,
+            previousCounts.claimAttemptsCount - newCounts.claimAttemptsCount,
         },
         previousData,
         newData,
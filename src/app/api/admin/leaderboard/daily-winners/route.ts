@@ -0,0 +1,82 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { Day } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { CSVValue, toCSV } from "@/lib/csv";
+import {
+  findLeaderboardDay,
+  getDailyWinners,
+  parseDailyWinnersLimit,
+} from "@/lib/dailyLeaderboard";
+
+// GET - Download each day's top individuals as CSV, for prize handout (Admin only)
+// ?day=<Day ID> exports a single day (default: every day), and ?limit sets how
+// many ranks to include per day (default 10). Ties at the cutoff are included.
+export async function GET(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const dayId = searchParams.get("day");
+    const limit = parseDailyWinnersLimit(searchParams);
+
+    await connectMongoDB();
+
+    let days;
+    if (dayId) {
+      const day = await findLeaderboardDay(dayId);
+      if (!day) {
+        return NextResponse.json({ error: "Day not found" }, { status: 404 });
+      }
+      days = [day];
+    } else {
+      days = await Day.find({})
+        .select("day date timestamp")
+        .sort({ timestamp: 1 });
+    }
+
+    const rows: CSVValue[][] = [
+      ["day", "date", "rank", "display_name", "name", "email", "points"],
+    ];
+
+    for (const day of days) {
+      const winners = await getDailyWinners(day, limit);
+      for (const winner of winners) {
+        rows.push([
+          day.day,
+          day.date,
+          winner.rank,
+          winner.name,
+          winner.realName,
+          winner.email,
+          winner.score,
+        ]);
+      }
+    }
+
+    return new NextResponse(toCSV(rows), {
+      headers: {
+        "Content-Type": "text/csv; charset=utf-8",
+        "Content-Disposition": `attachment; filename="daily-winners.csv"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting daily winners:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { LeaderboardFreeze } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction } from "@/lib/adminAuditLogger";
+import { getActiveFreeze } from "@/lib/leaderboardSnapshots";
+import { notifyLeaderboardChanged } from "@/lib/leaderboardEvents";
+
+// POST - Freeze the public leaderboard at a time (Admin only)
+// Body: { freezeAt?: ISO date } - defaults to now. Claims keep working, but the
+// public leaderboard shows the standings as of freezeAt until the freeze is lifted.
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const freezeAt = body.freezeAt ? new Date(body.freezeAt) : new Date();
+
+    if (isNaN(freezeAt.getTime())) {
+      return NextResponse.json(
+        { error: "Invalid freeze time" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    if (await getActiveFreeze()) {
+      return NextResponse.json(
+        { error: "The leaderboard is already frozen" },
+        { status: 409 }
+      );
+    }
+
+    const freeze = await LeaderboardFreeze.create({
+      freezeAt,
+      frozenBy: session.user.email,
+    });
+
+    notifyLeaderboardChanged();
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "FREEZE_LEADERBOARD",
+        resourceType: "leaderboard",
+        resourceId: freeze._id.toString(),
+        details: { freezeAt: freezeAt.toISOString() },
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      freeze,
+    });
+  } catch (error) {
+    console.error("Error freezing leaderboard:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Lift the current freeze so the leaderboard goes live again (Admin only)
+// Snapshots taken by the freeze are kept.
+export async function DELETE(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const freeze = await getActiveFreeze();
+
+    if (!freeze) {
+      return NextResponse.json(
+        { error: "The leaderboard isn't frozen" },
+        { status: 404 }
+      );
+    }
+
+    freeze.liftedAt = new Date();
+    freeze.liftedBy = session.user.email;
+    await freeze.save();
+
+    notifyLeaderboardChanged();
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "UNFREEZE_LEADERBOARD",
+        resourceType: "leaderboard",
+        resourceId: freeze._id.toString(),
+        details: { freezeAt: freeze.freezeAt.toISOString() },
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+    });
+  } catch (error) {
+    console.error("Error lifting leaderboard freeze:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,64 @@
+import { NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { auth0 } from "@/lib/auth0";
+import { LeaderboardSnapshot } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+
+// GET - Fetch a snapshot's full standings (Admin only)
+// Individual entries include the user's real name and email alongside the
+// name shown publicly at the time.
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ snapshotId: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { snapshotId } = await params;
+
+    if (!isValidObjectId(snapshotId)) {
+      return NextResponse.json(
+        { error: "Invalid snapshot ID" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const snapshot = await LeaderboardSnapshot.findById(snapshotId).populate(
+      "individuals.user",
+      "name email"
+    );
+
+    if (!snapshot) {
+      return NextResponse.json(
+        { error: "Snapshot not found" },
+        { status: 404 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      snapshot,
+    });
+  } catch (error) {
+    console.error("Error fetching leaderboard snapshot:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
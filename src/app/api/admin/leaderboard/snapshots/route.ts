@@ -0,0 +1,118 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { LeaderboardSnapshot } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction } from "@/lib/adminAuditLogger";
+import {
+  getActiveFreeze,
+  takeDueScheduledSnapshots,
+  takeLeaderboardSnapshot,
+} from "@/lib/leaderboardSnapshots";
+
+// GET - List leaderboard snapshots, newest first, and the current freeze (Admin only)
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    await connectMongoDB();
+    await takeDueScheduledSnapshots();
+
+    const [snapshots, freeze] = await Promise.all([
+      LeaderboardSnapshot.find({})
+        .select("takenAt kind label takenBy createdAt")
+        .sort({ takenAt: -1 }),
+      getActiveFreeze(),
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      snapshots,
+      freeze,
+    });
+  } catch (error) {
+    console.error("Error fetching leaderboard snapshots:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Take a snapshot of the current standings (Admin only)
+// Body: { label?: string }
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const label =
+      typeof body.label === "string" && body.label.trim()
+        ? body.label.trim()
+        : "Manual snapshot";
+
+    await connectMongoDB();
+
+    const adminEmail = session.user.email || "unknown";
+    const snapshot = await takeLeaderboardSnapshot({
+      at: new Date(),
+      kind: "manual",
+      label,
+      takenBy: adminEmail,
+    });
+
+    // Log the admin action
+    if (session.user.email) {
+      await logAdminAction({
+        adminEmail: session.user.email,
+        action: "CREATE_LEADERBOARD_SNAPSHOT",
+        resourceType: "leaderboard",
+        resourceId: snapshot._id.toString(),
+        details: { label },
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      snapshot: {
+        _id: snapshot._id,
+        takenAt: snapshot.takenAt,
+        kind: snapshot.kind,
+        label: snapshot.label,
+        takenBy: snapshot.takenBy,
+        createdAt: snapshot.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error taking leaderboard snapshot:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
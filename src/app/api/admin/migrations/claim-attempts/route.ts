@@ -0,0 +1,139 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { auth0 } from "@/lib/auth0";
+import { ClaimAttempt, User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction } from "@/lib/adminAuditLogger";
+import { getClaimAttemptExpiry } from "@/lib/claimService";
+
+interface LegacyClaimAttempt {
+  identifier: string;
+  success: boolean;
+  timestamp: Date;
+  item_id?: mongoose.Types.ObjectId | null;
+}
+
+// GET - Count users that still have embedded claim attempts (Admin only)
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const pendingUsers = await User.countDocuments({
+      "claim_attempts.0": { $exists: true },
+    });
+
+    return NextResponse.json({ success: true, pendingUsers });
+  } catch (error) {
+    console.error("Error checking claim attempts migration:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Move embedded claim attempts into the ClaimAttempt collection (Admin only)
+// Each user is migrated in its own transaction, so the migration can be re-run
+// safely if it is interrupted.
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const users = await User.find({ "claim_attempts.0": { $exists: true } })
+      .select("email +claim_attempts")
+      .lean();
+
+    let usersMigrated = 0;
+    let attemptsMigrated = 0;
+
+    for (const user of users) {
+      const legacyAttempts = (user.claim_attempts ||
+        []) as LegacyClaimAttempt[];
+
+      const dbSession = await mongoose.startSession();
+      try {
+        await dbSession.withTransaction(async () => {
+          await ClaimAttempt.insertMany(
+            legacyAttempts.map((attempt) => ({
+              user: user._id,
+              userEmail: user.email,
+              identifier: attempt.identifier,
+              success: !!attempt.success,
+              timestamp: attempt.timestamp,
+              item_id: attempt.item_id || null,
+              expiresAt: getClaimAttemptExpiry({
+                success: !!attempt.success,
+                timestamp: attempt.timestamp,
+              }),
+            })),
+            { session: dbSession }
+          );
+          await User.updateOne(
+            { _id: user._id },
+            { $unset: { claim_attempts: 1 } },
+            { session: dbSession }
+          );
+        });
+      } finally {
+        await dbSession.endSession();
+      }
+
+      usersMigrated++;
+      attemptsMigrated += legacyAttempts.length;
+    }
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "MIGRATE_CLAIM_ATTEMPTS",
+        resourceType: "claimAttempts",
+        details: { usersMigrated, attemptsMigrated },
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Migrated ${attemptsMigrated} claim attempt(s) for ${usersMigrated} user(s)`,
+      usersMigrated,
+      attemptsMigrated,
+    });
+  } catch (error) {
+    console.error("Error migrating claim attempts:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,163 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { auth0 } from "@/lib/auth0";
+import { User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction } from "@/lib/adminAuditLogger";
+import {
+  applyPointTransaction,
+  findBalanceDrift,
+  savePointTransactions,
+} from "@/lib/pointsLedger";
+import { notifyLeaderboardChanged } from "@/lib/leaderboardEvents";
+
+// GET - Report users whose cached points differ from their ledger (Admin only)
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const drift = await findBalanceDrift();
+
+    return NextResponse.json({
+      success: true,
+      driftCount: drift.length,
+      drift,
+    });
+  } catch (error) {
+    console.error("Error checking points ledger:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Resolve drift between cached points and the ledger (Admin only)
+// strategy "recompute" resets cached points to the ledger balance.
+// strategy "record" keeps cached points and records an adjustment for the
+// difference - use this once for balances earned before the ledger existed.
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { strategy } = await request.json();
+
+    if (strategy !== "recompute" && strategy !== "record") {
+      return NextResponse.json(
+        { error: "Strategy must be recompute or record" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    // Drift is measured and resolved in one transaction, so a claim or
+    // redemption committed in between conflicts and the check is retried.
+    // Points are only reset where they still hold the measured value; any
+    // other row is skipped and reported.
+    let drift: Awaited<ReturnType<typeof findBalanceDrift>> = [];
+    let skipped: typeof drift = [];
+    const dbSession = await mongoose.startSession();
+    try {
+      await dbSession.withTransaction(async () => {
+        drift = await findBalanceDrift(dbSession);
+        skipped = [];
+
+        if (strategy === "recompute") {
+          for (const entry of drift) {
+            const updated = await User.updateOne(
+              { _id: entry.userId, points: entry.points },
+              { $set: { points: entry.ledgerBalance } },
+              { session: dbSession }
+            );
+            if (updated.modifiedCount === 0) skipped.push(entry);
+          }
+        } else {
+          // Record each difference against the ledger balance it was measured from
+          const transactions = drift.map((entry) =>
+            applyPointTransaction(
+              { _id: entry.userId, points: entry.ledgerBalance },
+              {
+                type: "adjustment",
+                amount: entry.difference,
+                reason: "Reconciled with cached points balance",
+                actorEmail: session.user.email,
+              }
+            )
+          );
+          await savePointTransactions(transactions, dbSession);
+        }
+      });
+    } finally {
+      await dbSession.endSession();
+    }
+    const reconciledCount = drift.length - skipped.length;
+
+    notifyLeaderboardChanged();
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "RECONCILE_POINTS",
+        resourceType: "user",
+        details: {
+          strategy,
+          usersAffected: reconciledCount,
+          usersSkipped: skipped.length,
+          totalDifference: drift
+            .filter((entry) => !skipped.includes(entry))
+            .reduce((total, entry) => total + entry.difference, 0),
+        },
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: `Reconciled ${reconciledCount} user balance(s)${
+        skipped.length > 0
+          ? `, skipped ${skipped.length} that changed while reconciling`
+          : ""
+      }`,
+      strategy,
+      driftCount: drift.length,
+      drift,
+      skipped,
+    });
+  } catch (error) {
+    console.error("Error reconciling points ledger:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
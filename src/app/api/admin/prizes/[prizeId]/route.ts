@@ -0,0 +1,132 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { Prize } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import { parsePrizeInput } from "@/lib/prizes";
+
+// PUT - Update a prize, e.g. to restock it (Admin only)
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ prizeId: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const { prizeId } = await params;
+
+    const parsed = parsePrizeInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    await connectMongoDB();
+
+    const prize = await Prize.findById(prizeId);
+    if (!prize) {
+      return NextResponse.json({ error: "Prize not found" }, { status: 404 });
+    }
+
+    const previousData = sanitizeDataForLogging(prize.toJSON());
+
+    prize.set(parsed.fields);
+    await prize.save();
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "UPDATE_PRIZE",
+        resourceType: "prize",
+        resourceId: prizeId,
+        details: { name: prize.name },
+        previousData,
+        newData: sanitizeDataForLogging(prize.toJSON()),
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      prize,
+    });
+  } catch (error) {
+    console.error("Error updating prize:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete a prize (Admin only)
+// Past redemptions stay in the points ledger
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ prizeId: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { prizeId } = await params;
+
+    await connectMongoDB();
+
+    const prize = await Prize.findByIdAndDelete(prizeId);
+    if (!prize) {
+      return NextResponse.json({ error: "Prize not found" }, { status: 404 });
+    }
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "DELETE_PRIZE",
+        resourceType: "prize",
+        resourceId: prizeId,
+        details: { name: prize.name },
+        previousData: sanitizeDataForLogging(prize.toJSON()),
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Prize deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting prize:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,131 @@
+import { NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { auth0 } from "@/lib/auth0";
+import { Prize, User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import isVolunteer from "@/lib/isVolunteer";
+import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import { countPrizeRedemptions, parsePrizeInput } from "@/lib/prizes";
+
+// GET - Fetch the prize catalog with redemption counts (Admin or Volunteer only)
+// Pass userId to also get how many of each prize that user has redeemed
+export async function GET(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin or volunteer
+    if (!(await isAdmin()) && !(await isVolunteer())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin or Volunteer access required" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const userId = searchParams.get("userId");
+
+    if (userId && !isValidObjectId(userId)) {
+      return NextResponse.json({ error: "Invalid user ID" }, { status: 400 });
+    }
+
+    await connectMongoDB();
+
+    const [prizes, redeemedCounts, userRedeemedCounts] = await Promise.all([
+      Prize.find({}).sort({ pointCost: 1, name: 1 }),
+      countPrizeRedemptions(),
+      userId ? countPrizeRedemptions(userId) : null,
+    ]);
+
+    return NextResponse.json({
+      success: true,
+      prizes: prizes.map((prize) => ({
+        ...prize.toJSON(),
+        redeemedCount: redeemedCounts.get(prize._id.toString()) || 0,
+        ...(userRedeemedCounts && {
+          redeemedByUser: userRedeemedCounts.get(prize._id.toString()) || 0,
+        }),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching prizes:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a new prize (Admin only)
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const body = await request.json();
+    const parsed = parsePrizeInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    if (!parsed.fields.name || parsed.fields.pointCost === undefined) {
+      return NextResponse.json(
+        { error: "Name and point cost are required" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const admin = await User.findOne({ email: session.user.email }).select(
+      "_id"
+    );
+
+    const prize = new Prize({
+      ...parsed.fields,
+      createdBy: admin?._id,
+    });
+
+    await prize.save();
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "CREATE_PRIZE",
+        resourceType: "prize",
+        resourceId: prize._id.toString(),
+        details: { name: prize.name },
+        newData: sanitizeDataForLogging(prize.toJSON()),
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      prize,
+    });
+  } catch (error) {
+    console.error("Error creating prize:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
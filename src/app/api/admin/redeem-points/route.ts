@@ -1,12 +1,22 @@
 import { NextResponse } from "next/server";
+import mongoose, { isValidObjectId } from "mongoose";
 import { auth0 } from "@/lib/auth0";
 import { User } from "@/lib/models";
 import connectMongoDB from "@/lib/mongodb";
 import isAdmin from "@/lib/isAdmin";
 import isVolunteer from "@/lib/isVolunteer";
 import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import {
+  createPointTransaction,
+  savePointTransactions,
+} from "@/lib/pointsLedger";
+import { redeemPrize } from "@/lib/prizes";
+import { notifyLeaderboardChanged } from "@/lib/leaderboardEvents";
+import { RATE_LIMIT_POLICIES, withRateLimit } from "@/lib/rateLimit";
 
 // POST - Redeem points from a user (Admin or Volunteer only)
+// Pass prizeId to redeem a catalog prize, which also takes one out of stock
+
 export async function POST(request: Request) {
   try {
     const session = await auth0.getSession();
@@ -26,82 +36,162 @@ export async function POST(request: Request) {
       );
     }
 
-    const { userId, pointsToRedeem } = await request.json();
-
-    if (!userId || !pointsToRedeem) {
-      return NextResponse.json(
-        { error: "User ID and points to redeem are required" },
-        { status: 400 }
-      );
-    }
-
-    if (pointsToRedeem <= 0) {
-      return NextResponse.json(
-        { error: "Points to redeem must be a positive number" },
-        { status: 400 }
-      );
-    }
-
-    await connectMongoDB();
-
-    const user = await User.findById(userId);
-    if (!user) {
-      return NextResponse.json({ error: "User not found" }, { status: 404 });
-    }
-
-    // Check if user has enough points
-    if (user.points < pointsToRedeem) {
-      return NextResponse.json(
-        { error: "User does not have enough points" },
-        { status: 400 }
-      );
-    }
-
-    // Store previous data for audit logging
-    const previousData = sanitizeDataForLogging({
-      points: user.points,
-    });
-
-    // Redeem points (only reduction allowed)
-    const newPoints = user.points - pointsToRedeem;
-    user.points = newPoints;
-
-    await user.save();
-
-    // Store new data for audit logging
-    const newData = sanitizeDataForLogging({
-      points: user.points,
-    });
-
-    // Log the action
-    const userEmail = session.user.email;
-    if (userEmail) {
-      const userRole = isUserAdmin ? "Admin" : "Volunteer";
-
-      await logAdminAction({
-        adminEmail: userEmail,
-        action: "REDEEM_USER_POINTS",
-        resourceType: "user",
-        targetUserEmail: user.email,
-        resourceId: userId,
-        details: {
+    return await withRateLimit(
+      request,
+      RATE_LIMIT_POLICIES.redeem,
+      session.user.email,
+      async () => {
+        const { userId, pointsToRedeem, prizeId } = await request.json();
+
+        if (prizeId) {
+          if (!isValidObjectId(userId) || !isValidObjectId(prizeId)) {
+            return NextResponse.json(
+              { error: "Valid user ID and prize ID are required" },
+              { status: 400 }
+            );
+          }
+
+          await connectMongoDB();
+
+          const result = await redeemPrize(userId, prizeId, session.user.email);
+          if ("error" in result) {
+            return NextResponse.json(
+              { error: result.error },
+              { status: result.status }
+            );
+          }
+
+          const { user, prize } = result;
+          notifyLeaderboardChanged();
+
+          // Log the action
+          const userEmail = session.user.email;
+          if (userEmail) {
+            await logAdminAction({
+              adminEmail: userEmail,
+              action: "REDEEM_PRIZE",
+              resourceType: "prize",
+              targetUserEmail: user.email,
+              resourceId: prize._id.toString(),
+              details: {
+                prizeName: prize.name,
+                pointsRedeemed: prize.pointCost,
+                userRole: isUserAdmin ? "Admin" : "Volunteer",
+                remainingStock: prize.stock,
+              },
+              previousData: { points: user.points + prize.pointCost },
+              newData: { points: user.points },
+              request,
+            });
+          }
+
+          return NextResponse.json({
+            success: true,
+            message: `Successfully redeemed ${prize.name} for ${prize.pointCost} points`,
+            newPoints: user.points,
+            pointsRedeemed: prize.pointCost,
+            prize: { _id: prize._id, name: prize.name, stock: prize.stock },
+          });
+        }
+
+        if (!userId || !pointsToRedeem) {
+          return NextResponse.json(
+            { error: "User ID and points to redeem are required" },
+            { status: 400 }
+          );
+        }
+
+        if (typeof pointsToRedeem !== "number" || pointsToRedeem <= 0) {
+          return NextResponse.json(
+            { error: "Points to redeem must be a positive number" },
+            { status: 400 }
+          );
+        }
+
+        await connectMongoDB();
+
+        // Deduct with $inc so points from a claim made at the same time are kept,
+        // and only while the user still has enough points
+        const dbSession = await mongoose.startSession();
+        let user;
+        try {
+          user = await dbSession.withTransaction(async () => {
+            const updatedUser = await User.findOneAndUpdate(
+              { _id: userId, points: { $gte: pointsToRedeem } },
+              { $inc: { points: -pointsToRedeem } },
+              { new: true, session: dbSession }
+            );
+            if (!updatedUser) return null;
+
+            const transaction = createPointTransaction(updatedUser, {
+              type: "redemption",
+              amount: -pointsToRedeem,
+              reason: `Redeemed ${pointsToRedeem} points`,
+              actorEmail: session.user.email,
+            });
+            await savePointTransactions([transaction], dbSession);
+            return updatedUser;
+          });
+        } finally {
+          await dbSession.endSession();
+        }
+
+        if (!user) {
+          if (!(await User.exists({ _id: userId }))) {
+            return NextResponse.json(
+              { error: "User not found" },
+              { status: 404 }
+            );
+          }
+          return NextResponse.json(
+            { error: "User does not have enough points" },
+            { status: 400 }
+          );
+        }
+
+        notifyLeaderboardChanged();
+
+        // Store previous data for audit logging
+        const previousData = sanitizeDataForLogging({
+          points: user.points + pointsToRedeem,
+        });
+
+        // Store new data for audit logging
+        const newData = sanitizeDataForLogging({
+          points: user.points,
+        });
+
+        // Log the action
+        const userEmail = session.user.email;
+        if (userEmail) {
+          const userRole = isUserAdmin ? "Admin" : "Volunteer";
+
+          await logAdminAction({
+            adminEmail: userEmail,
+            action: "REDEEM_USER_POINTS",
+            resourceType: "user",
+            targetUserEmail: user.email,
+            resourceId: userId,
+            details: {
+              pointsRedeemed: pointsToRedeem,
+              userRole,
+              previousPoints: previousData?.points || 0,
+              newPoints: newData?.points || 0,
+            },
+            previousData,
+            newData,
+            request,
+          });
+        }
+
+        return NextResponse.json({
+          success: true,
+          message: `Successfully redeemed ${pointsToRedeem} points`,
+          newPoints: user.points,
           pointsRedeemed: pointsToRedeem,
-          userRole,
-          previousPoints: previousData?.points || 0,
-          newPoints: newData?.points || 0,
-        },
-        previousData,
-        newData,
-        request,
-      });
-    }
-
-    return NextResponse.json({
-      success: true,
-      message: `Successfully redeemed ${pointsToRedeem} points`,
-      newPoints: user.points,
-      pointsRedeemed: pointsToRedeem,
-    });
+        });
+      }
+    );
   } catch (error) {
     console.error("Error redeeming points:", error);
     return NextResponse.json(
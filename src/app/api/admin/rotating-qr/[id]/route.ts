@@ -0,0 +1,74 @@
+import { NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { auth0 } from "@/lib/auth0";
+import { HuntItem } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import isVolunteer from "@/lib/isVolunteer";
+import { createRotatingToken, QR_ROTATION_SECONDS } from "@/lib/qrSigning";
+
+// GET - Get the current signed token for a rotating QR display (Admin or Volunteer)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin or volunteer
+    const isUserAdmin = await isAdmin();
+    const isUserVolunteer = await isVolunteer();
+
+    if (!isUserAdmin && !isUserVolunteer) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin or Volunteer access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    if (!isValidObjectId(id)) {
+      return NextResponse.json(
+        { error: "Invalid hunt item ID" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const huntItem = await HuntItem.findById(id).select("name rotating");
+    if (!huntItem) {
+      return NextResponse.json(
+        { error: "Hunt item not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!huntItem.rotating) {
+      return NextResponse.json(
+        { error: "Hunt item does not use a rotating QR code" },
+        { status: 400 }
+      );
+    }
+
+    const { token, expiresAt } = createRotatingToken(huntItem._id.toString());
+
+    return NextResponse.json({
+      success: true,
+      token,
+      expiresAt,
+      rotationSeconds: QR_ROTATION_SECONDS,
+    });
+  } catch (error) {
+    console.error("Error creating rotating QR token:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,45 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { HuntItem } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import isVolunteer from "@/lib/isVolunteer";
+
+// GET - List hunt items shown on rotating QR displays (Admin or Volunteer)
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin or volunteer
+    const isUserAdmin = await isAdmin();
+    const isUserVolunteer = await isVolunteer();
+
+    if (!isUserAdmin && !isUserVolunteer) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin or Volunteer access required" },
+        { status: 403 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const huntItems = await HuntItem.find({ rotating: true, archivedAt: null })
+      .select("name description points")
+      .sort({ name: 1 });
+
+    return NextResponse.json({
+      success: true,
+      huntItems,
+    });
+  } catch (error) {
+    console.error("Error fetching rotating hunt items:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
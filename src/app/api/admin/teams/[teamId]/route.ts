@@ -0,0 +1,183 @@
+import { NextResponse } from "next/server";
+import mongoose from "mongoose";
+import { auth0 } from "@/lib/auth0";
+import { Team, TeamClaim, User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import { generateUniqueInviteCode } from "@/lib/teams";
+import { notifyLeaderboardChanged } from "@/lib/leaderboardEvents";
+
+// PUT - Rename a team or regenerate its invite code (Admin only)
+export async function PUT(
+  request: Request,
+  { params }: { params: Promise<{ teamId: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { name, regenerateInviteCode } = await request.json();
+    const { teamId } = await params;
+
+    await connectMongoDB();
+
+    const team = await Team.findById(teamId);
+    if (!team) {
+      return NextResponse.json({ error: "Team not found" }, { status: 404 });
+    }
+
+    const previousData = sanitizeDataForLogging({
+      name: team.name,
+      inviteCode: team.inviteCode,
+    });
+
+    if (name !== undefined) {
+      const teamName = typeof name === "string" ? name.trim() : "";
+      if (!teamName) {
+        return NextResponse.json(
+          { error: "Team name is required" },
+          { status: 400 }
+        );
+      }
+      if (await Team.exists({ name: teamName, _id: { $ne: team._id } })) {
+        return NextResponse.json(
+          { error: "A team with this name already exists" },
+          { status: 400 }
+        );
+      }
+      team.name = teamName;
+    }
+
+    if (regenerateInviteCode === true) {
+      team.inviteCode = await generateUniqueInviteCode();
+    }
+
+    await team.save();
+    if (name !== undefined) notifyLeaderboardChanged();
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "UPDATE_TEAM",
+        resourceType: "team",
+        resourceId: teamId,
+        details: {
+          name: team.name,
+          regenerateInviteCode: !!regenerateInviteCode,
+        },
+        previousData,
+        newData: sanitizeDataForLogging({
+          name: team.name,
+          inviteCode: team.inviteCode,
+        }),
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      team: {
+        _id: team._id,
+        name: team.name,
+        inviteCode: team.inviteCode,
+      },
+    });
+  } catch (error) {
+    console.error("Error updating team:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// DELETE - Delete a team and remove its members from it (Admin only)
+export async function DELETE(
+  request: Request,
+  { params }: { params: Promise<{ teamId: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { teamId } = await params;
+
+    await connectMongoDB();
+
+    const team = await Team.findById(teamId);
+    if (!team) {
+      return NextResponse.json({ error: "Team not found" }, { status: 404 });
+    }
+
+    // Members keep their individual points; they are just no longer on a team
+    let modifiedCount = 0;
+    const dbSession = await mongoose.startSession();
+    try {
+      await dbSession.withTransaction(async () => {
+        ({ modifiedCount } = await User.updateMany(
+          { team: team._id },
+          { $set: { team: null } },
+          { session: dbSession }
+        ));
+        await TeamClaim.deleteMany({ team: team._id }, { session: dbSession });
+        await Team.deleteOne({ _id: team._id }, { session: dbSession });
+      });
+    } finally {
+      await dbSession.endSession();
+    }
+    notifyLeaderboardChanged();
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "DELETE_TEAM",
+        resourceType: "team",
+        resourceId: teamId,
+        details: { name: team.name, membersRemoved: modifiedCount },
+        previousData: sanitizeDataForLogging({
+          name: team.name,
+          inviteCode: team.inviteCode,
+        }),
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      message: "Team deleted successfully",
+    });
+  } catch (error) {
+    console.error("Error deleting team:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
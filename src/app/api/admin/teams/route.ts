@@ -0,0 +1,144 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { Team, User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import { generateUniqueInviteCode } from "@/lib/teams";
+
+// GET - Fetch all teams with member counts and scores (Admin only)
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const [teams, memberStats] = await Promise.all([
+      Team.find({}).sort({ name: 1 }),
+      User.aggregate([
+        { $match: { team: { $ne: null } } },
+        {
+          $group: {
+            _id: "$team",
+            memberCount: { $sum: 1 },
+            score: { $sum: "$points" },
+          },
+        },
+      ]),
+    ]);
+
+    const statsByTeam = new Map(
+      memberStats.map((stats) => [stats._id.toString(), stats])
+    );
+
+    return NextResponse.json({
+      success: true,
+      teams: teams.map((team) => ({
+        _id: team._id,
+        name: team.name,
+        inviteCode: team.inviteCode,
+        memberCount: statsByTeam.get(team._id.toString())?.memberCount || 0,
+        score: statsByTeam.get(team._id.toString())?.score || 0,
+        createdAt: team.createdAt,
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching teams:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a new team (Admin only)
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Check if user is admin
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { name } = await request.json();
+    const teamName = typeof name === "string" ? name.trim() : "";
+
+    if (!teamName) {
+      return NextResponse.json(
+        { error: "Team name is required" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    if (await Team.exists({ name: teamName })) {
+      return NextResponse.json(
+        { error: "A team with this name already exists" },
+        { status: 400 }
+      );
+    }
+
+    const team = new Team({
+      name: teamName,
+      inviteCode: await generateUniqueInviteCode(),
+    });
+
+    await team.save();
+
+    // Log the admin action
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "CREATE_TEAM",
+        resourceType: "team",
+        resourceId: team._id.toString(),
+        details: { name: team.name },
+        newData: sanitizeDataForLogging({
+          name: team.name,
+          inviteCode: team.inviteCode,
+        }),
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      team: {
+        _id: team._id,
+        name: team.name,
+        inviteCode: team.inviteCode,
+        memberCount: 0,
+        score: 0,
+        createdAt: team.createdAt,
+      },
+    });
+  } catch (error) {
+    console.error("Error creating team:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -3,6 +3,7 @@ import { auth0 } from "@/lib/auth0";
 import { User } from "@/lib/models";
 import connectMongoDB from "@/lib/mongodb";
 import isAdmin from "@/lib/isAdmin";
+import { getRecentClaimAttempts } from "@/lib/claimService";
 
 // GET - Fetch detailed user information including history (Admin only)
 export async function GET(
@@ -45,7 +46,7 @@ export async function GET(
         name: user.name,
         points: user.points,
         history: user.history,
-        claim_attempts: user.claim_attempts || [],
+        claim_attempts: await getRecentClaimAttempts(user._id),
       },
     });
   } catch (error) {
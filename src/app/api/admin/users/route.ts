@@ -1,9 +1,18 @@
 import { NextResponse } from "next/server";
+import mongoose, { isValidObjectId, Types } from "mongoose";
 import { auth0 } from "@/lib/auth0";
-import { User } from "@/lib/models";
+import { ClaimAttempt, Team, TeamClaim, User } from "@/lib/models";
 import connectMongoDB from "@/lib/mongodb";
 import isAdmin from "@/lib/isAdmin";
 import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import {
+  applyPointTransaction,
+  savePointTransactions,
+} from "@/lib/pointsLedger";
+import { countClaimAttempts } from "@/lib/claimService";
+import { moveToTeam } from "@/lib/teams";
+import { notifyLeaderboardChanged } from "@/lib/leaderboardEvents";
+import { RATE_LIMIT_POLICIES, withRateLimit } from "@/lib/rateLimit";
 
 // GET - Fetch all users with optional search and pagination (Admin only)
 export async function GET(request: Request) {
@@ -22,51 +31,71 @@ export async function GET(request: Request) {
       );
     }
 
-    const { searchParams } = new URL(request.url);
-    const search = searchParams.get("search") || "";
-    const limit = parseInt(searchParams.get("limit") || "50");
-    const offset = parseInt(searchParams.get("offset") || "0");
+    return await withRateLimit(
+      request,
+      RATE_LIMIT_POLICIES.adminSearch,
+      session.user.email,
+      async () => {
+        const { searchParams } = new URL(request.url);
+        const search = searchParams.get("search") || "";
+        const limit = parseInt(searchParams.get("limit") || "50");
+        const offset = parseInt(searchParams.get("offset") || "0");
 
-    await connectMongoDB();
+        await connectMongoDB();
 
-    // Build search query
-    let query = {};
-    if (search) {
-      query = {
-        $or: [
-          { email: { $regex: search, $options: "i" } },
-          { name: { $regex: search, $options: "i" } },
-        ],
-      };
-    }
+        // Build search query
+        let query = {};
+        if (search) {
+          query = {
+            $or: [
+              { email: { $regex: search, $options: "i" } },
+              { name: { $regex: search, $options: "i" } },
+              { leaderboardAlias: { $regex: search, $options: "i" } },
+            ],
+          };
+        }
 
-    const users = await User.find(query)
-      .select("email name points history claim_attempts createdAt updatedAt")
-      .sort({ createdAt: -1 })
-      .skip(offset)
-      .limit(limit);
+        const users = await User.find(query)
+          .select(
+            "email name leaderboardAlias hideFromLeaderboard points team history createdAt updatedAt"
+          )
+          .populate({ path: "team", select: "name" })
+          .sort({ createdAt: -1 })
+          .skip(offset)
+          .limit(limit);
 
-    const totalUsers = await User.countDocuments(query);
+        const totalUsers = await User.countDocuments(query);
+        const claimAttemptCounts = await countClaimAttempts(
+          users.map((user) => user._id)
+        );
 
-    return NextResponse.json({
-      success: true,
-      users: users.map((user) => ({
-        _id: user._id,
-        email: user.email,
-        name: user.name,
-        points: user.points,
-        historyCount: user.history.length,
-        claimAttemptsCount: user.claim_attempts?.length || 0,
-        createdAt: user.createdAt,
-        updatedAt: user.updatedAt,
-      })),
-      pagination: {
-        total: totalUsers,
-        offset,
-        limit,
-        hasMore: offset + limit < totalUsers,
-      },
-    });
+        return NextResponse.json({
+          success: true,
+          users: users.map((user) => ({
+            _id: user._id,
+            email: user.email,
+            name: user.name,
+            leaderboardAlias: user.leaderboardAlias,
+            hideFromLeaderboard: user.hideFromLeaderboard,
+            points: user.points,
+            team: user.team
+              ? { _id: user.team._id, name: user.team.name }
+              : null,
+            historyCount: user.history.length,
+            claimAttemptsCount:
+              claimAttemptCounts.get(user._id.toString()) || 0,
+            createdAt: user.createdAt,
+            updatedAt: user.updatedAt,
+          })),
+          pagination: {
+            total: totalUsers,
+            offset,
+            limit,
+            hasMore: offset + limit < totalUsers,
+          },
+        });
+      }
+    );
   } catch (error) {
     console.error("Error fetching users:", error);
     return NextResponse.json(
@@ -104,41 +133,130 @@ export async function PUT(request: Request) {
 
     await connectMongoDB();
 
-    const user = await User.findById(userId);
+    let user = await User.findById(userId);
     if (!user) {
       return NextResponse.json({ error: "User not found" }, { status: 404 });
     }
 
-    // Store previous data for audit logging
-    const previousData = sanitizeDataForLogging({
-      name: user.name,
-      points: user.points,
-      historyLength: user.history.length,
-      claimAttemptsLength: user.claim_attempts?.length || 0,
+    if (
+      updates.points !== undefined &&
+      !Number.isFinite(Number(updates.points))
+    ) {
+      return NextResponse.json(
+        { error: "Points must be a number" },
+        { status: 400 }
+      );
+    }
+
+    // Validate team assignment (null removes the user from their team)
+    if (updates.team) {
+      if (
+        !isValidObjectId(updates.team) ||
+        !(await Team.exists({ _id: updates.team }))
+      ) {
+        return NextResponse.json({ error: "Team not found" }, { status: 404 });
+      }
+    }
+
+    const previousClaimAttemptsLength = await ClaimAttempt.countDocuments({
+      user: user._id,
     });
+    let previousData: ReturnType<typeof sanitizeDataForLogging> = null;
+    let teamConflicts: string[] = [];
+
+    // Read and write the user in one transaction, so points added by a claim
+    // at the same time aren't overwritten (the conflict makes this retry)
+    const dbSession = await mongoose.startSession();
+    try {
+      await dbSession.withTransaction(async () => {
+        user = await User.findById(userId).session(dbSession);
+        if (!user) throw new Error("User was deleted during the update");
 
-    // Apply updates
-    if (updates.name !== undefined) user.name = updates.name;
-    if (updates.points !== undefined) user.points = updates.points;
+        // Store previous data for audit logging
+        previousData = sanitizeDataForLogging({
+          name: user.name,
+          points: user.points,
+          team: user.team?.toString() || null,
+          historyLength: user.history.length,
+          claimAttemptsLength: previousClaimAttemptsLength,
+        });
 
-    // Handle dangerous operations
-    if (updates.clearHistory === true) {
-      user.history = [];
-      user.points = 0; // Reset points when clearing history
+        // Apply updates
+        // Points changes are recorded in the ledger as the difference from the current balance
+        const transactions = [];
+        if (updates.name !== undefined) user.name = updates.name;
+        if (updates.points !== undefined) {
+          transactions.push(
+            applyPointTransaction(user, {
+              type: "adjustment",
+              amount: Number(updates.points) - user.points,
+              reason: updates.pointsReason || "Points set by admin",
+              actorEmail: session.user.email,
+            })
+          );
+        }
+        if (updates.team !== undefined) {
+          // Moves carry over team claims like joining does, so nothing is
+          // saved if the new team already claimed one of the user's items
+          teamConflicts = await moveToTeam(
+            user._id,
+            updates.team ? new Types.ObjectId(updates.team) : null,
+            dbSession
+          );
+          if (teamConflicts.length > 0) return;
+          user.team = updates.team || null;
+        }
+
+        // Handle dangerous operations
+        if (updates.clearHistory === true) {
+          user.history = [];
+          // Let teammates claim the cleared team-scoped items again
+          await TeamClaim.deleteMany(
+            { user: user._id },
+            { session: dbSession }
+          );
+          // Reset points when clearing history
+          transactions.push(
+            applyPointTransaction(user, {
+              type: "revocation",
+              amount: -user.points,
+              reason: "History cleared by admin",
+              actorEmail: session.user.email,
+            })
+          );
+        }
+
+        await user.save({ session: dbSession });
+        await savePointTransactions(transactions, dbSession);
+      });
+    } finally {
+      await dbSession.endSession();
     }
 
-    if (updates.clearClaimAttempts === true) {
-      user.claim_attempts = [];
+    if (teamConflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: `The user and this team have both claimed ${teamConflicts.join(", ")}`,
+        },
+        { status: 409 }
+      );
     }
+    notifyLeaderboardChanged();
 
-    await user.save();
+    if (updates.clearClaimAttempts === true) {
+      await ClaimAttempt.deleteMany({ user: user._id });
+    }
+    const claimAttemptsLength = await ClaimAttempt.countDocuments({
+      user: user._id,
+    });
 
     // Store new data for audit logging
     const newData = sanitizeDataForLogging({
       name: user.name,
       points: user.points,
+      team: user.team?.toString() || null,
       historyLength: user.history.length,
-      claimAttemptsLength: user.claim_attempts?.length || 0,
+      claimAttemptsLength,
     });
 
     // Log the admin action
@@ -179,7 +297,7 @@ export async function PUT(request: Request) {
         name: user.name,
         points: user.points,
         historyCount: user.history.length,
-        claimAttemptsCount: user.claim_attempts?.length || 0,
+        claimAttemptsCount: claimAttemptsLength,
       },
     });
   } catch (error) {
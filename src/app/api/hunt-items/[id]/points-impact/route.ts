@@ -0,0 +1,61 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { HuntItem } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { previewPastClaimAdjustment } from "@/lib/huntItems";
+
+// GET - Preview applying ?points=N to past claims of a hunt item (Admin only)
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const points = Number(searchParams.get("points"));
+
+    if (!searchParams.get("points") || !Number.isFinite(points)) {
+      return NextResponse.json(
+        { error: "Points must be a number" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const huntItem = await HuntItem.findById(id).select("name points");
+    if (!huntItem) {
+      return NextResponse.json(
+        { error: "Hunt item not found" },
+        { status: 404 }
+      );
+    }
+
+    const impact = await previewPastClaimAdjustment(huntItem, points);
+
+    return NextResponse.json({
+      success: true,
+      ...impact,
+    });
+  } catch (error) {
+    console.error("Error previewing points change:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
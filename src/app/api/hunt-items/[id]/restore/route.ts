@@ -0,0 +1,78 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { HuntItem } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction } from "@/lib/adminAuditLogger";
+
+// POST - Restore an archived hunt item (Admin only)
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { id } = await params;
+
+    await connectMongoDB();
+
+    const huntItem = await HuntItem.findById(id);
+    if (!huntItem) {
+      return NextResponse.json(
+        { error: "Hunt item not found" },
+        { status: 404 }
+      );
+    }
+
+    if (!huntItem.archivedAt) {
+      return NextResponse.json(
+        { error: "Hunt item is not archived" },
+        { status: 400 }
+      );
+    }
+
+    const previousData = { archivedAt: huntItem.archivedAt };
+    huntItem.archivedAt = null;
+    await huntItem.save();
+
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "RESTORE_HUNT_ITEM",
+        resourceType: "huntItem",
+        resourceId: id,
+        details: {
+          name: huntItem.name,
+          identifier: huntItem.identifier,
+        },
+        previousData,
+        newData: { archivedAt: null },
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      huntItem,
+    });
+  } catch (error) {
+    console.error("Error restoring hunt item:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
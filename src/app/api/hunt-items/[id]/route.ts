@@ -1,11 +1,20 @@
 import { NextResponse } from "next/server";
+import mongoose from "mongoose";
 import { auth0 } from "@/lib/auth0";
 import { HuntItem } from "@/lib/models";
 import connectMongoDB from "@/lib/mongodb";
 import isAdmin from "@/lib/isAdmin";
 import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import {
+  adjustPastClaims,
+  DeletedItemPointsMode,
+  deleteHuntItemPermanently,
+  parseHuntItemUpdate,
+} from "@/lib/huntItems";
+import { notifyLeaderboardChanged } from "@/lib/leaderboardEvents";
 
-// PUT - Update a hunt item (Admin only - name, description, and points)
+// PUT - Update a hunt item (Admin only - everything except identifier and kind)
+// With applyToPastClaims, a points change is also applied to earlier claimers
 export async function PUT(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -25,13 +34,9 @@ export async function PUT(
       );
     }
 
-    const { name, description, points } = await request.json();
+    const { applyToPastClaims = false, ...input } = await request.json();
     const { id } = await params;
 
-    if (!name) {
-      return NextResponse.json({ error: "Name is required" }, { status: 400 });
-    }
-
     await connectMongoDB();
 
     const huntItem = await HuntItem.findById(id);
@@ -42,29 +47,83 @@ export async function PUT(
       );
     }
 
+    // Same rules as new items; replacing accepted answers is optional
+    const parsed = await parseHuntItemUpdate(input, huntItem);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const answersReplaced =
+      Array.isArray(input.answers) && input.answers.length > 0;
+    const isPuzzle = huntItem.kind === "puzzle";
+
     // Store previous data for audit logging
     const previousData = sanitizeDataForLogging({
       name: huntItem.name,
       description: huntItem.description,
       points: huntItem.points,
+      rotating: huntItem.rotating,
+      availableFrom: huntItem.availableFrom,
+      availableUntil: huntItem.availableUntil,
+      scheduleLink: huntItem.scheduleLink,
+      claimCap: huntItem.claimCap,
+      pointTiers: huntItem.pointTiers,
+      teamScope: huntItem.teamScope,
+      tags: huntItem.tags,
+      ...(isPuzzle && { prompt: huntItem.prompt, hints: huntItem.hints }),
     });
 
-    // Update only allowed fields (not identifier)
-    huntItem.name = name;
-    huntItem.description = description;
-    huntItem.points = points || 0;
+    const oldPoints = huntItem.points;
+
+    // The identifier and kind are kept as stored
+    huntItem.set(parsed.fields);
 
-    await huntItem.save();
+    const adminEmail = session.user.email;
+    let pastClaimsAdjusted = null;
+
+    if (applyToPastClaims && huntItem.points !== oldPoints) {
+      // Save the item and adjust its claimers together
+      const dbSession = await mongoose.startSession();
+      try {
+        pastClaimsAdjusted = await dbSession.withTransaction(async () => {
+          await huntItem.save({ session: dbSession });
+          return adjustPastClaims(
+            huntItem,
+            oldPoints,
+            huntItem.points,
+            adminEmail,
+            dbSession
+          );
+        });
+      } finally {
+        await dbSession.endSession();
+      }
+      notifyLeaderboardChanged();
+    } else {
+      await huntItem.save();
+    }
 
     // Store new data for audit logging
     const newData = sanitizeDataForLogging({
       name: huntItem.name,
       description: huntItem.description,
       points: huntItem.points,
+      rotating: huntItem.rotating,
+      availableFrom: huntItem.availableFrom,
+      availableUntil: huntItem.availableUntil,
+      scheduleLink: huntItem.scheduleLink,
+      claimCap: huntItem.claimCap,
+      pointTiers: huntItem.pointTiers,
+      teamScope: huntItem.teamScope,
+      tags: huntItem.tags,
+      ...(isPuzzle && {
+        prompt: huntItem.prompt,
+        hints: huntItem.hints,
+        answersReplaced,
+      }),
     });
 
     // Log the admin action
-    const adminEmail = session.user.email;
     if (adminEmail) {
       await logAdminAction({
         adminEmail,
@@ -74,6 +133,7 @@ export async function PUT(
         details: {
           name: huntItem.name,
           identifier: huntItem.identifier,
+          ...(pastClaimsAdjusted && { pastClaimsAdjusted }),
         },
         previousData,
         newData,
@@ -84,6 +144,7 @@ export async function PUT(
     return NextResponse.json({
       success: true,
       huntItem,
+      pastClaimsAdjusted,
     });
   } catch (error) {
     console.error("Error updating hunt item:", error);
@@ -94,7 +155,9 @@ export async function PUT(
   }
 }
 
-// DELETE - Delete a hunt item (Admin only)
+// DELETE - Archive a hunt item (Admin only)
+// ?permanent=true&points=keep|revoke deletes it for good instead, removing it
+// from claimers' history and optionally revoking the points they were awarded
 export async function DELETE(
   request: Request,
   { params }: { params: Promise<{ id: string }> }
@@ -115,6 +178,16 @@ export async function DELETE(
     }
 
     const { id } = await params;
+    const { searchParams } = new URL(request.url);
+    const permanent = searchParams.get("permanent") === "true";
+    const pointsMode = searchParams.get("points");
+
+    if (permanent && pointsMode !== "keep" && pointsMode !== "revoke") {
+      return NextResponse.json(
+        { error: "Choose whether claimers keep or lose the item's points" },
+        { status: 400 }
+      );
+    }
 
     await connectMongoDB();
 
@@ -132,13 +205,47 @@ export async function DELETE(
       description: huntItem.description,
       identifier: huntItem.identifier,
       points: huntItem.points,
+      archivedAt: huntItem.archivedAt,
     });
+    const adminEmail = session.user.email;
 
-    // Delete the hunt item
-    await HuntItem.findByIdAndDelete(id);
+    if (!permanent) {
+      if (!huntItem.archivedAt) {
+        huntItem.archivedAt = new Date();
+        await huntItem.save();
 
-    // Log the admin action
-    const adminEmail = session.user.email;
+        if (adminEmail) {
+          await logAdminAction({
+            adminEmail,
+            action: "ARCHIVE_HUNT_ITEM",
+            resourceType: "huntItem",
+            resourceId: id,
+            details: {
+              name: huntItem.name,
+              identifier: huntItem.identifier,
+            },
+            previousData: deletedData,
+            newData: { archivedAt: huntItem.archivedAt },
+            request,
+          });
+        }
+      }
+
+      return NextResponse.json({
+        success: true,
+        message: "Hunt item archived successfully",
+        huntItem,
+      });
+    }
+
+    const result = await deleteHuntItemPermanently(
+      huntItem,
+      pointsMode as DeletedItemPointsMode,
+      adminEmail
+    );
+    if (result.revocations.length > 0) notifyLeaderboardChanged();
+
+    // Log the admin action, including every claimer's revoked points
     if (adminEmail) {
       await logAdminAction({
         adminEmail,
@@ -148,6 +255,13 @@ export async function DELETE(
         details: {
           name: huntItem.name,
           identifier: huntItem.identifier,
+          pointsMode,
+          claimersAffected: result.claimersAffected,
+          pointsRevoked: result.revocations.reduce(
+            (total, revocation) => total + revocation.points,
+            0
+          ),
+          revocations: result.revocations,
         },
         previousData: deletedData,
         request,
@@ -157,6 +271,7 @@ export async function DELETE(
     return NextResponse.json({
       success: true,
       message: "Hunt item deleted successfully",
+      ...result,
     });
   } catch (error) {
     console.error("Error deleting hunt item:", error);
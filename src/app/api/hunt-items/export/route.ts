@@ -0,0 +1,66 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { HuntItem } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import {
+  huntItemsToCSV,
+  serializeHuntItemForExport,
+} from "@/lib/huntItemTransfer";
+
+// GET - Download all hunt items as CSV or JSON (Admin only)
+// The file uses the same format accepted by POST /api/hunt-items/import.
+// Archived items are left out.
+export async function GET(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const format = searchParams.get("format") || "csv";
+
+    if (!["csv", "json"].includes(format)) {
+      return NextResponse.json(
+        { error: "Format must be csv or json" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const huntItems = await HuntItem.find({ archivedAt: null }).sort({
+      createdAt: 1,
+    });
+
+    const body =
+      format === "csv"
+        ? huntItemsToCSV(huntItems)
+        : JSON.stringify(huntItems.map(serializeHuntItemForExport), null, 2);
+
+    return new NextResponse(body, {
+      headers: {
+        "Content-Type":
+          format === "csv"
+            ? "text/csv; charset=utf-8"
+            : "application/json; charset=utf-8",
+        "Content-Disposition": `attachment; filename="hunt-items.${format}"`,
+      },
+    });
+  } catch (error) {
+    console.error("Error exporting hunt items:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
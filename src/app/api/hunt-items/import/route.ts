@@ -0,0 +1,112 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { logAdminAction } from "@/lib/adminAuditLogger";
+import {
+  insertImportedHuntItems,
+  parseHuntItemFile,
+  validateHuntItemImport,
+} from "@/lib/huntItemTransfer";
+
+// POST - Bulk create hunt items from a CSV or JSON file (Admin only)
+// With dryRun the rows are only validated; otherwise every row must be valid
+// and all items are created together
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { format, content, dryRun = false } = await request.json();
+
+    if (!["csv", "json"].includes(format)) {
+      return NextResponse.json(
+        { error: "Format must be csv or json" },
+        { status: 400 }
+      );
+    }
+
+    if (typeof content !== "string" || !content.trim()) {
+      return NextResponse.json(
+        { error: "File content is required" },
+        { status: 400 }
+      );
+    }
+
+    const file = parseHuntItemFile(format, content);
+    if ("error" in file) {
+      return NextResponse.json({ error: file.error }, { status: 400 });
+    }
+
+    await connectMongoDB();
+
+    const { rows, validFields } = await validateHuntItemImport(file.items);
+    const invalidCount = rows.length - validFields.length;
+
+    if (dryRun) {
+      return NextResponse.json({
+        success: true,
+        dryRun: true,
+        rows,
+        validCount: validFields.length,
+        invalidCount,
+      });
+    }
+
+    if (invalidCount > 0) {
+      return NextResponse.json(
+        {
+          error: `${invalidCount} row${invalidCount === 1 ? " has" : "s have"} errors`,
+          rows,
+        },
+        { status: 400 }
+      );
+    }
+
+    const huntItems = await insertImportedHuntItems(validFields);
+
+    // One audit entry for the whole import
+    const adminEmail = session.user.email;
+    if (adminEmail) {
+      await logAdminAction({
+        adminEmail,
+        action: "IMPORT_HUNT_ITEMS",
+        resourceType: "huntItem",
+        details: {
+          format,
+          count: huntItems.length,
+          items: huntItems.map((item) => ({
+            id: item._id.toString(),
+            name: item.name,
+            identifier: item.identifier,
+            kind: item.kind,
+          })),
+        },
+        request,
+      });
+    }
+
+    return NextResponse.json({
+      success: true,
+      dryRun: false,
+      rows,
+      createdCount: huntItems.length,
+    });
+  } catch (error) {
+    console.error("Error importing hunt items:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
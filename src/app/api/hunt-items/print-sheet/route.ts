@@ -0,0 +1,84 @@
+import { NextResponse } from "next/server";
+import { Types } from "mongoose";
+import { auth0 } from "@/lib/auth0";
+import { HuntItem } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import isAdmin from "@/lib/isAdmin";
+import { assignMissingShortCodes } from "@/lib/huntItemCodes";
+import { parsePrintSheetOptions, renderPrintSheet } from "@/lib/printSheet";
+
+// GET - Printable sheet of hunt item QR codes (Admin only)
+// ?ids=a,b,c limits the sheet to selected items; ?pageSize=letter|a4 and
+// ?perPage=N control the layout. Rotating and puzzle items have no static QR
+// and are left out.
+export async function GET(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    if (!(await isAdmin())) {
+      return NextResponse.json(
+        { error: "Forbidden: Admin access required" },
+        { status: 403 }
+      );
+    }
+
+    const { searchParams } = new URL(request.url);
+    const parsed = parsePrintSheetOptions(
+      searchParams.get("pageSize"),
+      searchParams.get("perPage")
+    );
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    const ids = (searchParams.get("ids") || "")
+      .split(",")
+      .map((id) => id.trim())
+      .filter(Boolean);
+
+    if (ids.some((id) => !Types.ObjectId.isValid(id))) {
+      return NextResponse.json(
+        { error: "Invalid hunt item id" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const huntItems = await HuntItem.find({
+      kind: { $ne: "puzzle" },
+      rotating: { $ne: true },
+      archivedAt: null,
+      identifier: { $exists: true, $ne: "" },
+      ...(ids.length > 0 && { _id: { $in: ids } }),
+    })
+      .select("name identifier shortCode points")
+      .sort({ name: 1 });
+
+    if (huntItems.length === 0) {
+      return NextResponse.json(
+        { error: "No printable hunt items found" },
+        { status: 404 }
+      );
+    }
+
+    await assignMissingShortCodes(huntItems);
+
+    const html = await renderPrintSheet(huntItems, parsed.options);
+
+    return new NextResponse(html, {
+      headers: { "Content-Type": "text/html; charset=utf-8" },
+    });
+  } catch (error) {
+    console.error("Error generating QR print sheet:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,12 +1,16 @@
 import { NextResponse } from "next/server";
 import { auth0 } from "@/lib/auth0";
-import { HuntItem } from "@/lib/models";
+import { HuntItem, User } from "@/lib/models";
 import connectMongoDB from "@/lib/mongodb";
 import isAdmin from "@/lib/isAdmin";
 import { logAdminAction, sanitizeDataForLogging } from "@/lib/adminAuditLogger";
+import { generateUniqueShortCode } from "@/lib/huntItemCodes";
+import { parseHuntItemInput } from "@/lib/huntItems";
 
-// GET - Fetch all hunt items (Available to all authenticated users)
-export async function GET() {
+// GET - Fetch hunt items (Available to all authenticated users)
+// Admins receive full documents; everyone else (or admins passing ?view=hunter)
+// receives a redacted catalog without identifiers or answers
+export async function GET(request: Request) {
   try {
     const session = await auth0.getSession();
 
@@ -14,12 +18,49 @@ export async function GET() {
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
+    const { searchParams } = new URL(request.url);
+    const hunterView = searchParams.get("view") === "hunter";
+
     await connectMongoDB();
-    const huntItems = await HuntItem.find({}).sort({ createdAt: -1 });
+
+    if (!hunterView && (await isAdmin())) {
+      const huntItems = await HuntItem.find({}).sort({ createdAt: -1 });
+
+      return NextResponse.json({
+        success: true,
+        huntItems,
+      });
+    }
+
+    const [huntItems, user] = await Promise.all([
+      HuntItem.find({ archivedAt: null })
+        .select(
+          "name description points kind tags claimCap claimCount createdAt"
+        )
+        .sort({ createdAt: -1 }),
+      User.findOne({ email: session.user.email }).select("history"),
+    ]);
+
+    const claimedIds = new Set<string>(
+      (user?.history || []).map((id: { toString: () => string }) =>
+        id.toString()
+      )
+    );
 
     return NextResponse.json({
       success: true,
-      huntItems,
+      huntItems: huntItems.map((item) => ({
+        _id: item._id,
+        name: item.name,
+        description: item.description,
+        points: item.points,
+        kind: item.kind,
+        tags: item.tags || [],
+        ...(item.claimCap && {
+          remaining: Math.max(0, item.claimCap - (item.claimCount || 0)),
+        }),
+        claimed: claimedIds.has(item._id.toString()),
+      })),
     });
   } catch (error) {
     console.error("Error fetching hunt items:", error);
@@ -47,31 +88,34 @@ export async function POST(request: Request) {
       );
     }
 
-    const { name, description, identifier, points } = await request.json();
+    const body = await request.json();
 
-    if (!name || !identifier) {
-      return NextResponse.json(
-        { error: "Name and identifier are required" },
-        { status: 400 }
-      );
+    await connectMongoDB();
+
+    const parsed = await parseHuntItemInput(body);
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
     }
 
-    await connectMongoDB();
+    const { identifier, kind, rotating } = parsed.fields;
 
     // Check if identifier already exists
-    const existingItem = await HuntItem.findOne({ identifier });
-    if (existingItem) {
-      return NextResponse.json(
-        { error: "Hunt item with this identifier already exists" },
-        { status: 400 }
-      );
+    if (identifier) {
+      const existingItem = await HuntItem.findOne({ identifier });
+      if (existingItem) {
+        return NextResponse.json(
+          { error: "Hunt item with this identifier already exists" },
+          { status: 400 }
+        );
+      }
     }
 
     const huntItem = new HuntItem({
-      name,
-      description,
-      identifier,
-      points: points || 0,
+      ...parsed.fields,
+      shortCode:
+        kind === "qr" && !rotating
+          ? await generateUniqueShortCode()
+          : undefined,
     });
 
     await huntItem.save();
@@ -83,7 +127,19 @@ export async function POST(request: Request) {
         name: huntItem.name,
         description: huntItem.description,
         identifier: huntItem.identifier,
+        kind: huntItem.kind,
+        rotating: huntItem.rotating,
+        availableFrom: huntItem.availableFrom,
+        availableUntil: huntItem.availableUntil,
+        scheduleLink: huntItem.scheduleLink,
+        prompt: huntItem.prompt,
+        hintsCount: huntItem.hints.length,
+        answersCount: parsed.answersCount,
         points: huntItem.points,
+        claimCap: huntItem.claimCap,
+        pointTiers: huntItem.pointTiers,
+        teamScope: huntItem.teamScope,
+        tags: huntItem.tags,
       });
 
       await logAdminAction({
@@ -91,7 +147,11 @@ export async function POST(request: Request) {
         action: "CREATE_HUNT_ITEM",
         resourceType: "huntItem",
         resourceId: huntItem._id.toString(),
-        details: { name: huntItem.name, identifier: huntItem.identifier },
+        details: {
+          name: huntItem.name,
+          identifier: huntItem.identifier,
+          kind: huntItem.kind,
+        },
         newData,
         request,
       });
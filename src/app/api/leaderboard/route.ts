@@ -1,31 +1,40 @@
 import { NextResponse } from "next/server";
-import connectMongoDB from "@/lib/mongodb";
-import { User } from "@/lib/models";
+import { auth0 } from "@/lib/auth0";
+import { LeaderboardView, parseLeaderboardPaging } from "@/lib/leaderboard";
+import { getCachedLeaderboard } from "@/lib/leaderboardCache";
 
-// GET - Get top 10 users for leaderboard
-export async function GET() {
+// GET - Get a page of the leaderboard for users (or teams with ?view=team)
+// ?page and ?pageSize select the page. Signed-in callers also receive "me":
+// their own rank and the points needed to reach the next rank.
+// ?day=<Day ID> ranks only the points earned from claims made that day.
+// Responses are cached briefly; X-Cache reports HIT, MISS or STALE (served
+// from the cache because the database couldn't be reached).
+export async function GET(request: Request) {
   try {
-    await connectMongoDB();
+    const { searchParams } = new URL(request.url);
+    const view: LeaderboardView =
+      searchParams.get("view") === "team" ? "team" : "individual";
+    const paging = parseLeaderboardPaging(searchParams);
 
-    // Find top 10 users with highest points, only return name and points
-    const topUsers = await User.find({}, { name: 1, points: 1, _id: 0 })
-      .sort({ points: -1 })
-      .limit(10)
-      .lean();
+    const session = await auth0.getSession();
+    const { value: leaderboard, status } = await getCachedLeaderboard({
+      view,
+      paging,
+      dayId: searchParams.get("day"),
+      viewerEmail: session?.user?.email,
+    });
 
-    // Filter out users without names and ensure they have points > 0
-    const leaderboard = topUsers
-      .filter((user) => user.name && user.points > 0)
-      .map((user, index) => ({
-        rank: index + 1,
-        name: user.name,
-        score: user.points,
-      }));
+    if (!leaderboard) {
+      return NextResponse.json({ error: "Day not found" }, { status: 404 });
+    }
 
-    return NextResponse.json({
-      success: true,
-      leaderboard,
-    });
+    return NextResponse.json(
+      {
+        success: true,
+        ...leaderboard,
+      },
+      { headers: { "X-Cache": status } }
+    );
   } catch (error) {
     console.error("Error fetching leaderboard:", error);
     return NextResponse.json(
@@ -0,0 +1,120 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { LeaderboardView, parseLeaderboardPaging } from "@/lib/leaderboard";
+import { onLeaderboardChanged } from "@/lib/leaderboardEvents";
+import { getCachedLeaderboard } from "@/lib/leaderboardCache";
+
+export const dynamic = "force-dynamic";
+
+// Wait briefly after a change so a burst of claims is sent as one update
+const PUSH_DELAY_MS = 500;
+
+// Changes made on other server instances are picked up by re-checking
+// on this interval, which also keeps the connection alive
+const RECHECK_INTERVAL_MS = 15000;
+
+// GET - Stream leaderboard updates as Server-Sent Events
+// Takes the same query as GET /api/leaderboard. Each message is a full
+// leaderboard response, sent on connect and whenever the page changes.
+export async function GET(request: Request) {
+  try {
+    const { searchParams } = new URL(request.url);
+    const view: LeaderboardView =
+      searchParams.get("view") === "team" ? "team" : "individual";
+    const paging = parseLeaderboardPaging(searchParams);
+
+    const session = await auth0.getSession();
+    // Streams share the leaderboard cache, so open screens don't each query
+    const loadLeaderboard = async () =>
+      (
+        await getCachedLeaderboard({
+          view,
+          paging,
+          dayId: searchParams.get("day"),
+          viewerEmail: session?.user?.email,
+        })
+      ).value;
+
+    if (!(await loadLeaderboard())) {
+      return NextResponse.json({ error: "Day not found" }, { status: 404 });
+    }
+
+    const encoder = new TextEncoder();
+    let stop = () => {};
+
+    const stream = new ReadableStream({
+      async start(controller) {
+        let closed = false;
+        let lastPayload = "";
+        let pending: ReturnType<typeof setTimeout> | null = null;
+
+        const send = (chunk: string) => {
+          if (!closed) controller.enqueue(encoder.encode(chunk));
+        };
+
+        // Send the leaderboard if it changed, otherwise a keep-alive comment
+        const push = async () => {
+          pending = null;
+          try {
+            const payload = JSON.stringify({
+              success: true,
+              ...(await loadLeaderboard()),
+            });
+
+            if (payload !== lastPayload) {
+              lastPayload = payload;
+              send(`data: ${payload}\n\n`);
+            } else {
+              send(": keep-alive\n\n");
+            }
+          } catch (error) {
+            console.error("Error streaming leaderboard:", error);
+          }
+        };
+
+        const unsubscribe = onLeaderboardChanged(() => {
+          if (!pending) pending = setTimeout(push, PUSH_DELAY_MS);
+        });
+        const interval = setInterval(push, RECHECK_INTERVAL_MS);
+
+        stop = () => {
+          if (closed) return;
+          closed = true;
+          unsubscribe();
+          clearInterval(interval);
+          if (pending) clearTimeout(pending);
+        };
+
+        // The stream can't be closed again once the client has cancelled it,
+        // so only close it when we end it first
+        request.signal.addEventListener("abort", () => {
+          if (closed) return;
+          stop();
+          controller.close();
+        });
+
+        // Ask browsers to reconnect quickly if the connection drops
+        send("retry: 5000\n\n");
+        await push();
+      },
+      cancel() {
+        stop();
+      },
+    });
+
+    return new Response(stream, {
+      headers: {
+        "Content-Type": "text/event-stream",
+        "Cache-Control": "no-cache, no-transform",
+        Connection: "keep-alive",
+        "X-Accel-Buffering": "no",
+      },
+    });
+  } catch (error) {
+    console.error("Error opening leaderboard stream:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
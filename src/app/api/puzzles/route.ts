@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { HuntItem, User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+
+// GET - List puzzles with the caller's solved status (Available to all authenticated users)
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectMongoDB();
+
+    const [puzzles, user] = await Promise.all([
+      HuntItem.find({ kind: "puzzle", archivedAt: null })
+        .select("name description prompt hints points createdAt")
+        .sort({ createdAt: -1 }),
+      User.findOne({ email: session.user.email }).select("history"),
+    ]);
+
+    const solvedIds = new Set<string>(
+      (user?.history || []).map((id: { toString: () => string }) =>
+        id.toString()
+      )
+    );
+
+    return NextResponse.json({
+      success: true,
+      puzzles: puzzles.map((puzzle) => ({
+        _id: puzzle._id,
+        name: puzzle.name,
+        description: puzzle.description,
+        prompt: puzzle.prompt,
+        hints: puzzle.hints || [],
+        points: puzzle.points,
+        solved: solvedIds.has(puzzle._id.toString()),
+      })),
+    });
+  } catch (error) {
+    console.error("Error fetching puzzles:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,73 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { Team, User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import { getTeamSummary, joinTeam, normalizeInviteCode } from "@/lib/teams";
+
+// POST - Join a team with its invite code
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { inviteCode } = await request.json();
+
+    if (!inviteCode || typeof inviteCode !== "string") {
+      return NextResponse.json(
+        { error: "Invite code is required" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const user = await User.findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (user.team) {
+      return NextResponse.json(
+        { error: "Leave your current team before joining another one" },
+        { status: 400 }
+      );
+    }
+
+    const team = await Team.findOne({
+      inviteCode: normalizeInviteCode(inviteCode),
+    });
+
+    if (!team) {
+      return NextResponse.json(
+        { error: "No team found with that invite code" },
+        { status: 404 }
+      );
+    }
+
+    const conflicts = await joinTeam(user._id, team._id);
+
+    if (conflicts.length > 0) {
+      return NextResponse.json(
+        {
+          error: `You can't join this team - you and the team have both claimed ${conflicts.join(", ")}`,
+        },
+        { status: 409 }
+      );
+    }
+
+    return NextResponse.json({
+      success: true,
+      team: await getTeamSummary(team._id),
+    });
+  } catch (error) {
+    console.error("Error joining team:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,44 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import { leaveTeam } from "@/lib/teams";
+
+// POST - Leave the current team (the team is removed once it has no members)
+export async function POST() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectMongoDB();
+
+    const user = await User.findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (!user.team) {
+      return NextResponse.json(
+        { error: "You are not on a team" },
+        { status: 400 }
+      );
+    }
+
+    await leaveTeam(user._id);
+
+    return NextResponse.json({
+      success: true,
+      message: "Left team successfully",
+    });
+  } catch (error) {
+    console.error("Error leaving team:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -0,0 +1,106 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { Team, User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import {
+  generateUniqueInviteCode,
+  getTeamSummary,
+  joinTeam,
+} from "@/lib/teams";
+
+// GET - Get the current user's team (Available to all authenticated users)
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectMongoDB();
+
+    const user = await User.findOne({ email: session.user.email }).select(
+      "team"
+    );
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      team: user.team ? await getTeamSummary(user.team) : null,
+    });
+  } catch (error) {
+    console.error("Error fetching team:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
+
+// POST - Create a team and join it
+export async function POST(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    const { name } = await request.json();
+    const teamName = typeof name === "string" ? name.trim() : "";
+
+    if (!teamName) {
+      return NextResponse.json(
+        { error: "Team name is required" },
+        { status: 400 }
+      );
+    }
+
+    await connectMongoDB();
+
+    const user = await User.findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    if (user.team) {
+      return NextResponse.json(
+        { error: "Leave your current team before creating a new one" },
+        { status: 400 }
+      );
+    }
+
+    if (await Team.exists({ name: teamName })) {
+      return NextResponse.json(
+        { error: "A team with this name already exists" },
+        { status: 400 }
+      );
+    }
+
+    const team = new Team({
+      name: teamName,
+      inviteCode: await generateUniqueInviteCode(),
+      createdBy: user._id,
+    });
+
+    await team.save();
+
+    // A new team has no claims yet, so joining it can't conflict
+    await joinTeam(user._id, team._id);
+
+    return NextResponse.json({
+      success: true,
+      team: await getTeamSummary(team._id),
+    });
+  } catch (error) {
+    console.error("Error creating team:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,57 +1,25 @@
 import { NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
 import { auth0 } from "@/lib/auth0";
 import { HuntItem, User } from "@/lib/models";
 import connectMongoDB from "@/lib/mongodb";
-
-// Rate limiting configuration
-const RATE_LIMIT_MAX_ATTEMPTS = 10;
-const RATE_LIMIT_WINDOW_MINUTES = 15;
-
-interface ClaimAttempt {
-  identifier: string;
-  success: boolean;
-  timestamp: Date;
-  item_id?: string;
-}
-
-// Check if user has exceeded failed claim attempts rate limit
-function checkRateLimit(claimAttempts: ClaimAttempt[]) {
-  const now = new Date();
-  const windowStart = new Date(
-    now.getTime() - RATE_LIMIT_WINDOW_MINUTES * 60 * 1000
-  );
-
-  const recentFailedAttempts = claimAttempts.filter(
-    (attempt) => !attempt.success && new Date(attempt.timestamp) >= windowStart
-  );
-
-  const isRateLimited = recentFailedAttempts.length >= RATE_LIMIT_MAX_ATTEMPTS;
-  const remainingAttempts = Math.max(
-    0,
-    RATE_LIMIT_MAX_ATTEMPTS - recentFailedAttempts.length
-  );
-
-  let resetTime = null;
-  if (recentFailedAttempts.length > 0) {
-    // Find the oldest failed attempt in the window
-    const oldestAttempt = recentFailedAttempts.reduce((oldest, current) =>
-      new Date(current.timestamp) < new Date(oldest.timestamp)
-        ? current
-        : oldest
-    );
-    resetTime = new Date(
-      new Date(oldestAttempt.timestamp).getTime() +
-        RATE_LIMIT_WINDOW_MINUTES * 60 * 1000
-    );
-  }
-
-  return {
-    isRateLimited,
-    remainingAttempts,
-    resetTime,
-    recentFailedAttempts: recentFailedAttempts.length,
-  };
-}
+import { isRotatingToken, verifyRotatingToken } from "@/lib/qrSigning";
+import {
+  checkRateLimit,
+  completeClaim,
+  isClaimedByTeammate,
+  rateLimitExceededResponse,
+  rejectClaimAttempt,
+  rejectOutsideClaimWindow,
+  rejectWrongGuess,
+} from "@/lib/claimService";
+import { isWithinClaimWindow, resolveClaimWindow } from "@/lib/claimWindow";
+import { normalizeShortCode } from "@/lib/huntItemCodes";
+import {
+  getClientIp,
+  RATE_LIMIT_POLICIES,
+  withRateLimit,
+} from "@/lib/rateLimit";
 
 // POST - Claim a hunt item by identifier
 export async function POST(
@@ -65,142 +33,141 @@ export async function POST(
       return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
     }
 
-    const { identifier } = await request.json();
-    const { id: userId } = await params;
-
-    if (!identifier) {
-      return NextResponse.json(
-        { error: "Identifier is required" },
-        { status: 400 }
-      );
-    }
-
-    await connectMongoDB();
-
-    // Find the user first - ensure the ID matches the authenticated user
-    const user = await User.findOne({
-      $and: [{ email: session.user.email }, { _id: userId }],
-    });
-
-    if (!user) {
-      return NextResponse.json(
-        {
-          error: "User not found or unauthorized",
-        },
-        { status: 404 }
-      );
-    }
-
-    // Ensure claim_attempts array exists (for existing users who might not have this field)
-    if (!user.claim_attempts) {
-      user.claim_attempts = [];
-    }
-
-    // Check rate limiting for failed attempts
-    const rateLimitCheck = checkRateLimit(user.claim_attempts);
-    if (rateLimitCheck.isRateLimited) {
-      const minutesUntilReset = rateLimitCheck.resetTime
-        ? Math.ceil(
-            (rateLimitCheck.resetTime.getTime() - new Date().getTime()) /
-              (1000 * 60)
-          )
-        : RATE_LIMIT_WINDOW_MINUTES;
-
-      return NextResponse.json(
-        {
-          error: `Rate limit exceeded. You have made too many failed claim attempts. Please wait ${minutesUntilReset} minutes before trying again.`,
-          rateLimitExceeded: true,
-          resetTime: rateLimitCheck.resetTime,
-          remainingAttempts: 0,
-        },
-        { status: 429 }
-      );
-    }
-
-    // Find the hunt item by identifier
-    const huntItem = await HuntItem.findOne({ identifier });
-
-    // Create claim attempt record
-    const claimAttempt = {
-      identifier,
-      success: false,
-      timestamp: new Date(),
-      item_id: huntItem?._id || null,
-    };
-
-    if (!huntItem) {
-      // Log failed attempt
-      user.claim_attempts.push(claimAttempt);
-      await user.save();
-
-      // Check how many attempts remaining after this failed attempt
-      const updatedRateLimitCheck = checkRateLimit(user.claim_attempts);
-      const remainingAttempts = updatedRateLimitCheck.remainingAttempts;
-
-      const errorMessage =
-        remainingAttempts > 0
-          ? `Hunt item not found. You have ${remainingAttempts} more attempts remaining in the next ${RATE_LIMIT_WINDOW_MINUTES} minutes.`
-          : `Hunt item not found. Note: You can make up to ${RATE_LIMIT_MAX_ATTEMPTS} failed attempts every ${RATE_LIMIT_WINDOW_MINUTES} minutes.`;
-
-      return NextResponse.json(
-        {
-          error: errorMessage,
-          remainingAttempts,
-          rateLimitInfo: {
-            maxAttempts: RATE_LIMIT_MAX_ATTEMPTS,
-            windowMinutes: RATE_LIMIT_WINDOW_MINUTES,
-          },
-        },
-        { status: 404 }
-      );
-    }
-
-    // Check if user has already claimed this item
-    if (user.history.includes(huntItem._id)) {
-      // Log failed attempt (duplicate claim)
-      user.claim_attempts.push(claimAttempt);
-      await user.save();
-
-      // Check how many attempts remaining after this failed attempt
-      const updatedRateLimitCheck = checkRateLimit(user.claim_attempts);
-      const remainingAttempts = updatedRateLimitCheck.remainingAttempts;
-
-      const errorMessage =
-        remainingAttempts > 0
-          ? `You have already claimed this hunt item. You have ${remainingAttempts} more attempts remaining in the next ${RATE_LIMIT_WINDOW_MINUTES} minutes.`
-          : `You have already claimed this hunt item. Note: You can make up to ${RATE_LIMIT_MAX_ATTEMPTS} failed attempts every ${RATE_LIMIT_WINDOW_MINUTES} minutes.`;
-
-      return NextResponse.json(
-        {
-          error: errorMessage,
-          remainingAttempts,
-          rateLimitInfo: {
-            maxAttempts: RATE_LIMIT_MAX_ATTEMPTS,
-            windowMinutes: RATE_LIMIT_WINDOW_MINUTES,
-          },
-        },
-        { status: 400 }
-      );
-    }
-
-    // Successful claim - update claim attempt and user data
-    claimAttempt.success = true;
-    user.claim_attempts.push(claimAttempt);
-    user.history.push(huntItem._id);
-    user.points += huntItem.points;
-    await user.save();
-
-    return NextResponse.json({
-      success: true,
-      message: `Successfully claimed "${huntItem.name}"!`,
-      item: {
-        name: huntItem.name,
-        description: huntItem.description,
-        points: huntItem.points,
-      },
-      newPoints: user.points,
-      totalItemsClaimed: user.history.length,
-    });
+    // Limit claim requests per account and per IP, and wrong guesses per IP
+    return await withRateLimit(
+      request,
+      RATE_LIMIT_POLICIES.claim,
+      session.user.email,
+      async () => {
+        const { identifier } = await request.json();
+        const { id: userId } = await params;
+
+        if (!identifier) {
+          return NextResponse.json(
+            { error: "Identifier is required" },
+            { status: 400 }
+          );
+        }
+
+        await connectMongoDB();
+
+        // Find the user first - ensure the ID matches the authenticated user
+        const user = await User.findOne({
+          $and: [{ email: session.user.email }, { _id: userId }],
+        });
+
+        if (!user) {
+          return NextResponse.json(
+            {
+              error: "User not found or unauthorized",
+            },
+            { status: 404 }
+          );
+        }
+
+        // Check rate limiting for failed attempts
+        const rateLimitCheck = await checkRateLimit(user._id);
+        if (rateLimitCheck.isRateLimited) {
+          return rateLimitExceededResponse(rateLimitCheck);
+        }
+
+        // Rotating displays encode a signed, time-bucketed token instead of the identifier
+        const rotatingToken = isRotatingToken(identifier)
+          ? verifyRotatingToken(identifier)
+          : null;
+
+        // Find the hunt item (puzzles are claimed by answering them).
+        // Printed codes can also be typed in by their short code.
+        const huntItem = rotatingToken
+          ? rotatingToken.valid && isValidObjectId(rotatingToken.itemId)
+            ? await HuntItem.findOne({
+                _id: rotatingToken.itemId,
+                kind: { $ne: "puzzle" },
+                rotating: true,
+                archivedAt: null,
+              })
+            : null
+          : await HuntItem.findOne({
+              $or: [
+                { identifier },
+                { shortCode: normalizeShortCode(identifier) },
+              ],
+              kind: { $ne: "puzzle" },
+              archivedAt: null,
+            });
+
+        // Create claim attempt record
+        const claimAttempt = {
+          identifier,
+          success: false,
+          timestamp: new Date(),
+          item_id: huntItem?._id || null,
+          ipAddress: getClientIp(request),
+          userAgent: request.headers.get("user-agent"),
+        };
+
+        // Expired codes were real scans, so only forged ones count as guesses
+        if (rotatingToken && !rotatingToken.valid) {
+          return rotatingToken.reason === "expired"
+            ? rejectClaimAttempt(
+                user,
+                claimAttempt,
+                "This QR code has expired. Please scan the code on screen again.",
+                400
+              )
+            : rejectWrongGuess(user, claimAttempt, "Invalid QR code.", 400);
+        }
+
+        if (!huntItem) {
+          return rejectWrongGuess(
+            user,
+            claimAttempt,
+            "Hunt item not found.",
+            404
+          );
+        }
+
+        // Static identifiers of rotating items (e.g. shared photos) are not claimable
+        if (!rotatingToken && huntItem.rotating) {
+          return rejectClaimAttempt(
+            user,
+            claimAttempt,
+            "This hunt item must be scanned from its live display.",
+            400
+          );
+        }
+
+        // Time-windowed items (e.g. talk attendance) are only claimable while open
+        const claimWindow = await resolveClaimWindow(huntItem);
+        if (!isWithinClaimWindow(claimWindow, claimAttempt.timestamp)) {
+          return rejectOutsideClaimWindow(user, claimAttempt, claimWindow);
+        }
+
+        // Check if user has already claimed this item
+        // (completeClaim re-checks atomically in case of concurrent requests)
+        if (user.history.includes(huntItem._id)) {
+          return rejectClaimAttempt(
+            user,
+            claimAttempt,
+            "You have already claimed this hunt item.",
+            400
+          );
+        }
+
+        // Team-scoped items count once per team (completeClaim re-checks this)
+        if (await isClaimedByTeammate(user, huntItem)) {
+          return rejectClaimAttempt(
+            user,
+            claimAttempt,
+            "Your team has already claimed this hunt item.",
+            400
+          );
+        }
+
+        // Successful claim - update claim attempt and user data
+        return completeClaim(user, huntItem, claimAttempt);
+      }
+    );
   } catch (error) {
     console.error("Error claiming hunt item:", error);
     return NextResponse.json(
@@ -0,0 +1,140 @@
+import { NextResponse } from "next/server";
+import { isValidObjectId } from "mongoose";
+import { auth0 } from "@/lib/auth0";
+import { HuntItem, User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import { isCorrectAnswer } from "@/lib/puzzleAnswers";
+import {
+  checkRateLimit,
+  completeClaim,
+  isClaimedByTeammate,
+  rateLimitExceededResponse,
+  rejectClaimAttempt,
+  rejectOutsideClaimWindow,
+  rejectWrongGuess,
+} from "@/lib/claimService";
+import { isWithinClaimWindow, resolveClaimWindow } from "@/lib/claimWindow";
+import {
+  getClientIp,
+  RATE_LIMIT_POLICIES,
+  withRateLimit,
+} from "@/lib/rateLimit";
+
+// POST - Claim a puzzle hunt item by answering it
+export async function POST(
+  request: Request,
+  { params }: { params: Promise<{ id: string }> }
+) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    // Limit claim requests per account and per IP, and wrong guesses per IP
+    return await withRateLimit(
+      request,
+      RATE_LIMIT_POLICIES.claim,
+      session.user.email,
+      async () => {
+        const { huntItemId, answer } = await request.json();
+        const { id: userId } = await params;
+
+        if (!huntItemId || typeof answer !== "string" || !answer.trim()) {
+          return NextResponse.json(
+            { error: "Puzzle and answer are required" },
+            { status: 400 }
+          );
+        }
+
+        await connectMongoDB();
+
+        // Find the user first - ensure the ID matches the authenticated user
+        const user = await User.findOne({
+          $and: [{ email: session.user.email }, { _id: userId }],
+        });
+
+        if (!user) {
+          return NextResponse.json(
+            {
+              error: "User not found or unauthorized",
+            },
+            { status: 404 }
+          );
+        }
+
+        // Wrong answers count towards the same failed attempts rate limit as codes
+        const rateLimitCheck = await checkRateLimit(user._id);
+        if (rateLimitCheck.isRateLimited) {
+          return rateLimitExceededResponse(rateLimitCheck);
+        }
+
+        const huntItem = isValidObjectId(huntItemId)
+          ? await HuntItem.findOne({
+              _id: huntItemId,
+              kind: "puzzle",
+              archivedAt: null,
+            }).select("+answerHashes")
+          : null;
+
+        const claimAttempt = {
+          identifier: `puzzle:${huntItemId}`,
+          success: false,
+          timestamp: new Date(),
+          item_id: huntItem?._id || null,
+          ipAddress: getClientIp(request),
+          userAgent: request.headers.get("user-agent"),
+        };
+
+        if (!huntItem) {
+          return rejectWrongGuess(user, claimAttempt, "Puzzle not found.", 404);
+        }
+
+        // Time-windowed items (e.g. talk attendance) are only claimable while open
+        const claimWindow = await resolveClaimWindow(huntItem);
+        if (!isWithinClaimWindow(claimWindow, claimAttempt.timestamp)) {
+          return rejectOutsideClaimWindow(user, claimAttempt, claimWindow);
+        }
+
+        if (user.history.includes(huntItem._id)) {
+          return rejectClaimAttempt(
+            user,
+            claimAttempt,
+            "You have already solved this puzzle.",
+            400
+          );
+        }
+
+        // Team-scoped items count once per team (completeClaim re-checks this)
+        if (await isClaimedByTeammate(user, huntItem)) {
+          return rejectClaimAttempt(
+            user,
+            claimAttempt,
+            "Your team has already solved this puzzle.",
+            400
+          );
+        }
+
+        if (!isCorrectAnswer(answer, huntItem.answerHashes || [])) {
+          return rejectWrongGuess(user, claimAttempt, "Incorrect answer.", 400);
+        }
+
+        return completeClaim(
+          user,
+          huntItem,
+          claimAttempt,
+          `Solved "${huntItem.name}"!`,
+          "You have already solved this puzzle.",
+          "Your team has already solved this puzzle."
+        );
+      }
+    );
+  } catch (error) {
+    console.error("Error answering puzzle:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,8 +1,9 @@
 import { NextResponse } from "next/server";
 import { auth0 } from "@/lib/auth0";
-import { User } from "@/lib/models";
+import { PointTransaction, User } from "@/lib/models";
 import connectMongoDB from "@/lib/mongodb";
 import isAdmin from "@/lib/isAdmin";
+import { getRecentClaimAttempts } from "@/lib/claimService";
 
 // GET - Get user details (self or admin access)
 export async function GET(
@@ -40,6 +41,11 @@ export async function GET(
       );
     }
 
+    const pointTransactions = await PointTransaction.find({ user: user._id })
+      .sort({ createdAt: -1 })
+      .limit(50)
+      .select("type amount balanceAfter reason actorEmail createdAt");
+
     // Return full details for owner or admin
     return NextResponse.json({
       success: true,
@@ -49,7 +55,8 @@ export async function GET(
         name: user.name,
         points: user.points,
         history: user.history,
-        claim_attempts: user.claim_attempts || [],
+        claim_attempts: await getRecentClaimAttempts(user._id),
+        pointTransactions,
         createdAt: user.createdAt,
         updatedAt: user.updatedAt,
       },
@@ -0,0 +1,37 @@
+import { NextResponse } from "next/server";
+import { auth0 } from "@/lib/auth0";
+import { User } from "@/lib/models";
+import connectMongoDB from "@/lib/mongodb";
+import { createBadgeToken } from "@/lib/qrSigning";
+
+// GET - Get the signed token for the current user's badge QR
+export async function GET() {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectMongoDB();
+
+    const user = await User.findOne({ email: session.user.email }).select(
+      "_id"
+    );
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    return NextResponse.json({
+      success: true,
+      token: createBadgeToken(user._id.toString()),
+    });
+  } catch (error) {
+    console.error("Error creating badge token:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -1,6 +1,11 @@
 import { NextResponse } from "next/server";
 import { auth0 } from "@/lib/auth0";
 import { findOrCreateUser, getUserByEmail } from "@/lib/userService";
+import { getUnlockedAchievements } from "@/lib/achievements";
+import connectMongoDB from "@/lib/mongodb";
+import { ClaimAttempt, User } from "@/lib/models";
+import { parseLeaderboardPrivacyInput } from "@/lib/leaderboard";
+import { notifyLeaderboardChanged } from "@/lib/leaderboardEvents";
 
 // GET - Get current user profile
 export async function GET() {
@@ -32,9 +37,14 @@ export async function GET() {
         id: user._id,
         email: user.email,
         name: user.name,
+        leaderboardAlias: user.leaderboardAlias,
+        hideFromLeaderboard: user.hideFromLeaderboard,
         points: user.points,
         history: user.history,
-        claimAttemptsCount: user.claim_attempts?.length || 0,
+        achievements: await getUnlockedAchievements(user),
+        claimAttemptsCount: await ClaimAttempt.countDocuments({
+          user: user._id,
+        }),
       },
     });
   } catch (error) {
@@ -83,9 +93,14 @@ export async function POST() {
         id: user._id,
         email: user.email,
         name: user.name,
+        leaderboardAlias: user.leaderboardAlias,
+        hideFromLeaderboard: user.hideFromLeaderboard,
         points: user.points,
         history: user.history,
-        claimAttemptsCount: user.claim_attempts?.length || 0,
+        achievements: await getUnlockedAchievements(user),
+        claimAttemptsCount: await ClaimAttempt.countDocuments({
+          user: user._id,
+        }),
       },
     });
   } catch (error) {
@@ -96,3 +111,46 @@ export async function POST() {
     );
   }
 }
+
+// PATCH - Update the current user's leaderboard alias and visibility
+export async function PATCH(request: Request) {
+  try {
+    const session = await auth0.getSession();
+
+    if (!session?.user?.email) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 });
+    }
+
+    await connectMongoDB();
+
+    const user = await User.findOne({ email: session.user.email });
+
+    if (!user) {
+      return NextResponse.json({ error: "User not found" }, { status: 404 });
+    }
+
+    const body = await request.json();
+    const parsed = await parseLeaderboardPrivacyInput(body, user._id);
+
+    if ("error" in parsed) {
+      return NextResponse.json({ error: parsed.error }, { status: 400 });
+    }
+
+    Object.assign(user, parsed.fields);
+    await user.save();
+
+    notifyLeaderboardChanged();
+
+    return NextResponse.json({
+      success: true,
+      leaderboardAlias: user.leaderboardAlias,
+      hideFromLeaderboard: user.hideFromLeaderboard,
+    });
+  } catch (error) {
+    console.error("Error updating leaderboard settings:", error);
+    return NextResponse.json(
+      { error: "Internal server error" },
+      { status: 500 }
+    );
+  }
+}
@@ -4,6 +4,8 @@ import { useState } from "react";
 import { QrCode, Type, CheckCircle, AlertCircle } from "lucide-react";
 import Modal from "@/components/ui/modal";
 import ScannerPage from "./ScannerPage";
+import AchievementBadges from "./achievements/AchievementBadges";
+import { UnlockedAchievement } from "@/lib/interface";
 
 interface ClaimResult {
   success: boolean;
@@ -15,6 +17,8 @@ interface ClaimResult {
   };
   newPoints?: number;
   totalItemsClaimed?: number;
+  claimPosition?: number;
+  achievements?: UnlockedAchievement[];
   remainingAttempts?: number;
   rateLimitExceeded?: boolean;
   resetTime?: string;
@@ -27,7 +31,11 @@ interface ClaimResult {
 interface ClaimHuntItemModalProps {
   isOpen: boolean;
   onClose: () => void;
-  onClaimSuccess: (newPoints: number, totalItems: number) => void;
+  onClaimSuccess: (
+    newPoints: number,
+    totalItems: number,
+    achievements?: UnlockedAchievement[]
+  ) => void;
   userId?: string; // Add userId prop
 }
 
@@ -84,6 +92,8 @@ const ClaimHuntItemModal = ({
           item: data.item,
           newPoints: data.newPoints,
           totalItemsClaimed: data.totalItemsClaimed,
+          claimPosition: data.claimPosition,
+          achievements: data.achievements,
         });
 
         // Update parent component with new points and total items
@@ -91,7 +101,11 @@ const ClaimHuntItemModal = ({
           data.newPoints !== undefined &&
           data.totalItemsClaimed !== undefined
         ) {
-          onClaimSuccess(data.newPoints, data.totalItemsClaimed);
+          onClaimSuccess(
+            data.newPoints,
+            data.totalItemsClaimed,
+            data.achievements
+          );
         }
       } else {
         setClaimResult({
@@ -193,7 +207,7 @@ const ClaimHuntItemModal = ({
                   placeholder={
                     claimMethod === "scan"
                       ? "Scanned QR code will appear here or enter manually"
-                      : "Enter the identifier"
+                      : "Enter the identifier or the code printed under the QR"
                   }
                   disabled={isSubmitting}
                 />
@@ -297,7 +311,7 @@ const ClaimHuntItemModal = ({
               {claimResult.rateLimitExceeded && claimResult.resetTime && (
                 <div className="mt-3 p-3 bg-red-50 dark:bg-red-900/20 rounded-lg border border-red-200 dark:border-red-800">
                   <p className="text-sm text-red-800 dark:text-red-200">
-                    <strong>Too many failed attempts.</strong> Please wait until{" "}
+                    <strong>Too many attempts.</strong> Please wait until{" "}
                     {new Date(claimResult.resetTime).toLocaleTimeString()}{" "}
                     before trying again.
                   </p>
@@ -318,11 +332,27 @@ const ClaimHuntItemModal = ({
                 <p className="text-sm font-medium text-green-800 dark:text-green-200 mt-2">
                   +{claimResult.item.points} points
                 </p>
+                {claimResult.claimPosition !== undefined && (
+                  <p className="text-xs text-green-600 dark:text-green-400 mt-1">
+                    You were finder #{claimResult.claimPosition}
+                  </p>
+                )}
                 {claimResult.newPoints !== undefined && (
                   <p className="text-xs text-green-600 dark:text-green-400 mt-1">
                     Total Points: {claimResult.newPoints}
                   </p>
                 )}
+                {!!claimResult.achievements?.length && (
+                  <div className="mt-3">
+                    <p className="text-sm font-medium text-green-800 dark:text-green-200 mb-2">
+                      Achievement unlocked!
+                    </p>
+                    <AchievementBadges
+                      achievements={claimResult.achievements}
+                      showBonus
+                    />
+                  </div>
+                )}
               </div>
             )}
 
@@ -1,23 +1,47 @@
 "use client";
 
 import { useState } from "react";
-import { Plus } from "lucide-react";
+import { FileSpreadsheet, Plus, Printer } from "lucide-react";
 import Modal from "@/components/ui/modal";
 import { HuntItem } from "@/lib/interface";
-import { useHuntItems } from "./hooks/useHuntItems";
-import { HuntItemAddForm, HuntItemsList, QRCodeModal } from "./huntItems";
+import {
+  emptyFormData,
+  HuntItemsVariant,
+  useHuntItems,
+} from "./hooks/useHuntItems";
+import {
+  HuntItemAddForm,
+  HuntItemCatalog,
+  HuntItemDeleteModal,
+  HuntItemImportModal,
+  HuntItemsList,
+  PrintSheetModal,
+  QRCodeModal,
+  RotatingQRModal,
+} from "./huntItems";
 
 interface HuntItemsModalProps {
   isOpen: boolean;
   onClose: () => void;
+  variant?: HuntItemsVariant;
 }
 
-const HuntItemsModal = ({ isOpen, onClose }: HuntItemsModalProps) => {
+const HuntItemsModal = ({
+  isOpen,
+  onClose,
+  variant = "admin",
+}: HuntItemsModalProps) => {
   const [qrModalOpen, setQrModalOpen] = useState(false);
   const [selectedQrItem, setSelectedQrItem] = useState<HuntItem | null>(null);
+  const [rotatingQrOpen, setRotatingQrOpen] = useState(false);
+  const [printSheetOpen, setPrintSheetOpen] = useState(false);
+  const [importOpen, setImportOpen] = useState(false);
+  const [showArchived, setShowArchived] = useState(false);
+  const [deletingItem, setDeletingItem] = useState<HuntItem | null>(null);
 
   const {
     huntItems,
+    catalogItems,
     loading,
     error,
     editingItem,
@@ -30,13 +54,23 @@ const HuntItemsModal = ({ isOpen, onClose }: HuntItemsModalProps) => {
     setFormData,
     createHuntItem,
     updateHuntItem,
+    archiveHuntItem,
+    restoreHuntItem,
     deleteHuntItem,
-  } = useHuntItems(isOpen);
+    fetchHuntItems,
+  } = useHuntItems(isOpen, variant);
 
-  // Show QR code in modal
+  const activeItems = huntItems.filter((item) => !item.archivedAt);
+  const archivedCount = huntItems.length - activeItems.length;
+
+  // Show QR code in modal (rotating items get a live display instead)
   const showQRCode = (item: HuntItem) => {
     setSelectedQrItem(item);
-    setQrModalOpen(true);
+    if (item.rotating) {
+      setRotatingQrOpen(true);
+    } else {
+      setQrModalOpen(true);
+    }
   };
 
   // Handle form submission
@@ -47,9 +81,38 @@ const HuntItemsModal = ({ isOpen, onClose }: HuntItemsModalProps) => {
   // Handle form cancellation
   const handleCancelAdd = () => {
     setShowAddForm(false);
-    setFormData({ name: "", description: "", identifier: "", points: 0 });
+    setFormData(emptyFormData);
   };
 
+  if (variant === "hunter") {
+    const claimedCount = catalogItems.filter((item) => item.claimed).length;
+
+    return (
+      <Modal
+        isOpen={isOpen}
+        onClose={onClose}
+        title="Hunt Items"
+        className="max-w-2xl max-h-[70vh]"
+      >
+        <div className="space-y-4">
+          {error && (
+            <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200">{error}</p>
+            </div>
+          )}
+
+          {!loading && catalogItems.length > 0 && (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Found {claimedCount} of {catalogItems.length} items
+            </p>
+          )}
+
+          <HuntItemCatalog items={catalogItems} loading={loading} />
+        </div>
+      </Modal>
+    );
+  }
+
   return (
     <>
       <Modal
@@ -74,16 +137,33 @@ const HuntItemsModal = ({ isOpen, onClose }: HuntItemsModalProps) => {
           {/* Add New Item Button */}
           <div className="flex justify-between items-center">
             <h3 className="text-lg font-medium text-gray-900 dark:text-white">
-              Hunt Items ({huntItems.length})
+              Hunt Items ({activeItems.length})
             </h3>
-            <button
-              onClick={() => setShowAddForm(!showAddForm)}
-              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
-              disabled={isSubmitting}
-            >
-              <Plus size={16} />
-              Add New Item
-            </button>
+            <div className="flex gap-2">
+              <button
+                onClick={() => setImportOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                <FileSpreadsheet size={16} />
+                Import / Export
+              </button>
+              <button
+                onClick={() => setPrintSheetOpen(true)}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+                disabled={activeItems.length === 0}
+              >
+                <Printer size={16} />
+                Print QR Sheet
+              </button>
+              <button
+                onClick={() => setShowAddForm(!showAddForm)}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+                disabled={isSubmitting}
+              >
+                <Plus size={16} />
+                Add New Item
+              </button>
+            </div>
           </div>
 
           {/* Add New Item Form */}
@@ -97,15 +177,28 @@ const HuntItemsModal = ({ isOpen, onClose }: HuntItemsModalProps) => {
             />
           )}
 
+          {archivedCount > 0 && (
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={showArchived}
+                onChange={(e) => setShowArchived(e.target.checked)}
+              />
+              Show archived items ({archivedCount})
+            </label>
+          )}
+
           {/* Hunt Items List */}
           <HuntItemsList
-            items={huntItems}
+            items={showArchived ? huntItems : activeItems}
             loading={loading}
             editingItem={editingItem}
             onEdit={setEditingItem}
             onSave={updateHuntItem}
             onCancelEdit={() => setEditingItem(null)}
-            onDelete={deleteHuntItem}
+            onArchive={archiveHuntItem}
+            onRestore={restoreHuntItem}
+            onDelete={setDeletingItem}
             onShowQR={showQRCode}
             onEditingItemChange={setEditingItem}
           />
@@ -119,6 +212,35 @@ const HuntItemsModal = ({ isOpen, onClose }: HuntItemsModalProps) => {
         item={selectedQrItem}
         onError={setError}
       />
+
+      {/* Live Rotating QR Modal */}
+      <RotatingQRModal
+        isOpen={rotatingQrOpen}
+        onClose={() => setRotatingQrOpen(false)}
+        item={selectedQrItem}
+      />
+
+      {/* Printable QR Sheet Modal */}
+      <PrintSheetModal
+        isOpen={printSheetOpen}
+        onClose={() => setPrintSheetOpen(false)}
+        items={activeItems}
+      />
+
+      {/* Permanent Delete Modal */}
+      <HuntItemDeleteModal
+        isOpen={!!deletingItem}
+        onClose={() => setDeletingItem(null)}
+        item={deletingItem}
+        onConfirm={deleteHuntItem}
+      />
+
+      {/* Bulk Import / Export Modal */}
+      <HuntItemImportModal
+        isOpen={importOpen}
+        onClose={() => setImportOpen(false)}
+        onImported={fetchHuntItems}
+      />
     </>
   );
 };
@@ -1,7 +1,11 @@
 "use client";
 
 import { useState, useEffect } from "react";
+import { QrCode } from "lucide-react";
 import Modal from "../ui/modal";
+import ScannerPage from "./ScannerPage";
+import { Prize } from "@/lib/interface";
+import PrizeStockBadge from "./prizes/PrizeStockBadge";
 
 interface User {
   _id: string;
@@ -20,6 +24,9 @@ const RedeemPointsModal = ({ isOpen, onClose }: RedeemPointsModalProps) => {
   const [users, setUsers] = useState<User[]>([]);
   const [selectedUser, setSelectedUser] = useState<User | null>(null);
   const [pointsToRedeem, setPointsToRedeem] = useState<number>(0);
+  const [prizes, setPrizes] = useState<Prize[]>([]);
+  const [selectedPrizeId, setSelectedPrizeId] = useState<string | null>(null);
+  const [isScannerOpen, setIsScannerOpen] = useState(false);
   const [loading, setLoading] = useState(false);
   const [searchLoading, setSearchLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
@@ -57,14 +64,159 @@ const RedeemPointsModal = ({ isOpen, onClose }: RedeemPointsModalProps) => {
 
   // Debounce search
   useEffect(() => {
+    // Keep the user found by a badge scan listed until a search is typed
+    if (!searchTerm.trim() && selectedUser) return;
+
     const timer = setTimeout(() => {
       searchUsers(searchTerm);
     }, 300);
 
     return () => clearTimeout(timer);
+    // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [searchTerm]);
 
+  // Find the user a scanned badge QR belongs to and select them
+  const handleBadgeScan = async (token: string) => {
+    setIsScannerOpen(false);
+    setSearchLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch("/api/admin/badge-lookup", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ token }),
+      });
+
+      const data = await response.json();
+
+      if (!response.ok) {
+        throw new Error(data.error || "Failed to look up badge");
+      }
+
+      setSearchTerm("");
+      setUsers([data.user]);
+      setSelectedUser(data.user);
+    } catch (err) {
+      console.error("Error looking up badge:", err);
+      setError(err instanceof Error ? err.message : "Failed to look up badge");
+    } finally {
+      setSearchLoading(false);
+    }
+  };
+
+  const handleScanError = (errorMessage: string) => {
+    setError(errorMessage);
+    setIsScannerOpen(false);
+  };
+
+  // Load the prize catalog with how many of each the selected user already has
+  const fetchPrizes = async (userId: string) => {
+    try {
+      const response = await fetch(`/api/admin/prizes?userId=${userId}`);
+
+      if (!response.ok) {
+        throw new Error("Failed to fetch prizes");
+      }
+
+      const data = await response.json();
+      setPrizes((data.prizes || []).filter((prize: Prize) => prize.active));
+    } catch (err) {
+      console.error("Error fetching prizes:", err);
+      setPrizes([]);
+    }
+  };
+
+  useEffect(() => {
+    setSelectedPrizeId(null);
+    if (selectedUser) {
+      fetchPrizes(selectedUser._id);
+    } else {
+      setPrizes([]);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [selectedUser?._id]);
+
+  const selectedPrize = prizes.find((prize) => prize._id === selectedPrizeId);
+
+  // Reason a prize can't be redeemed by the selected user, if any
+  const getPrizeUnavailableReason = (prize: Prize) => {
+    if (prize.stock <= 0) return "Out of stock";
+    if (
+      prize.perUserLimit &&
+      (prize.redeemedByUser || 0) >= prize.perUserLimit
+    ) {
+      return "Limit reached";
+    }
+    if (selectedUser && prize.pointCost > selectedUser.points) {
+      return "Not enough points";
+    }
+    return null;
+  };
+
+  const handleRedeemPrize = async (prize: Prize) => {
+    if (!selectedUser) return;
+
+    setLoading(true);
+    setError(null);
+    setSuccess(null);
+
+    try {
+      const response = await fetch("/api/admin/redeem-points", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          userId: selectedUser._id,
+          prizeId: prize._id,
+        }),
+      });
+
+      if (!response.ok) {
+        const errorData = await response.json();
+        // Another volunteer may have taken the last one
+        await fetchPrizes(selectedUser._id);
+        throw new Error(errorData.error || "Failed to redeem prize");
+      }
+
+      const data = await response.json();
+      setSuccess(
+        `Successfully redeemed ${prize.name} for ${selectedUser.name}. New balance: ${data.newPoints} points.`
+      );
+
+      setSelectedUser({ ...selectedUser, points: data.newPoints });
+      setUsers(users.map(user =>
+        user._id === selectedUser._id
+          ? { ...user, points: data.newPoints }
+          : user
+      ));
+      setPrizes(prizes.map(p =>
+        p._id === prize._id
+          ? {
+              ...p,
+              stock: data.prize.stock,
+              redeemedCount: p.redeemedCount + 1,
+              redeemedByUser: (p.redeemedByUser || 0) + 1,
+            }
+          : p
+      ));
+    } catch (err) {
+      console.error("Error redeeming prize:", err);
+      setError(err instanceof Error ? err.message : "Failed to redeem prize");
+    } finally {
+      setLoading(false);
+    }
+  };
+
   const handleRedeemPoints = async () => {
+    if (selectedPrize) {
+      return handleRedeemPrize(selectedPrize);
+    }
+
     if (!selectedUser || pointsToRedeem <= 0) {
       setError("Please select a user and enter a valid points amount");
       return;
@@ -125,6 +277,8 @@ const RedeemPointsModal = ({ isOpen, onClose }: RedeemPointsModalProps) => {
     setUsers([]);
     setSelectedUser(null);
     setPointsToRedeem(0);
+    setPrizes([]);
+    setSelectedPrizeId(null);
     setError(null);
     setSuccess(null);
     onClose();
@@ -148,6 +302,14 @@ const RedeemPointsModal = ({ isOpen, onClose }: RedeemPointsModalProps) => {
           {searchLoading && (
             <p className="text-sm text-gray-500 mt-1">Searching...</p>
           )}
+          <button
+            type="button"
+            onClick={() => setIsScannerOpen(true)}
+            className="w-full mt-2 px-4 py-2 bg-green-600 text-white rounded-md hover:bg-green-700 transition-colors flex items-center justify-center gap-2"
+          >
+            <QrCode size={20} />
+            Scan Attendee Badge
+          </button>
         </div>
 
         {/* User List */}
@@ -193,8 +355,75 @@ const RedeemPointsModal = ({ isOpen, onClose }: RedeemPointsModalProps) => {
           </div>
         )}
 
+        {/* Prize Catalog */}
+        {selectedUser && prizes.length > 0 && (
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+              Select Prize
+            </label>
+            <div className="max-h-64 overflow-y-auto border border-gray-300 rounded-md dark:border-gray-600">
+              {prizes.map((prize) => {
+                const unavailableReason = getPrizeUnavailableReason(prize);
+
+                return (
+                  <button
+                    key={prize._id}
+                    onClick={() => setSelectedPrizeId(prize._id)}
+                    disabled={!!unavailableReason}
+                    className={`w-full flex items-center gap-3 text-left px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 border-b border-gray-200 dark:border-gray-600 last:border-b-0 disabled:opacity-50 disabled:cursor-not-allowed ${
+                      selectedPrizeId === prize._id
+                        ? "bg-primary/10 border-primary"
+                        : ""
+                    }`}
+                  >
+                    {prize.imageUrl && (
+                      // eslint-disable-next-line @next/next/no-img-element
+                      <img
+                        src={prize.imageUrl}
+                        alt={prize.name}
+                        className="w-10 h-10 object-cover rounded"
+                      />
+                    )}
+                    <div className="flex-1">
+                      <div className="flex items-center gap-2">
+                        <span className="font-medium">{prize.name}</span>
+                        <PrizeStockBadge stock={prize.stock} />
+                      </div>
+                      <div className="text-sm font-semibold text-primary">
+                        {prize.pointCost} points
+                      </div>
+                      {prize.perUserLimit && (
+                        <div className="text-xs text-gray-500">
+                          {prize.redeemedByUser || 0} of {prize.perUserLimit}{" "}
+                          per person redeemed
+                        </div>
+                      )}
+                    </div>
+                    {unavailableReason && prize.stock > 0 && (
+                      <span className="text-xs text-red-600">
+                        {unavailableReason}
+                      </span>
+                    )}
+                  </button>
+                );
+              })}
+              <button
+                onClick={() => setSelectedPrizeId(null)}
+                className={`w-full text-left px-3 py-2 hover:bg-gray-50 dark:hover:bg-gray-700 ${
+                  selectedPrizeId === null ? "bg-primary/10 border-primary" : ""
+                }`}
+              >
+                <div className="font-medium">Custom amount</div>
+                <div className="text-sm text-gray-500">
+                  Deduct a number of points without a prize
+                </div>
+              </button>
+            </div>
+          </div>
+        )}
+
         {/* Points to Redeem */}
-        {selectedUser && (
+        {selectedUser && !selectedPrize && (
           <div>
             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
               Points to Redeem
@@ -232,10 +461,20 @@ const RedeemPointsModal = ({ isOpen, onClose }: RedeemPointsModalProps) => {
         <div className="flex gap-3">
           <button
             onClick={handleRedeemPoints}
-            disabled={!selectedUser || pointsToRedeem <= 0 || loading}
+            disabled={
+              !selectedUser ||
+              (selectedPrize
+                ? !!getPrizeUnavailableReason(selectedPrize)
+                : pointsToRedeem <= 0) ||
+              loading
+            }
             className="flex-1 px-4 py-2 bg-red-600 text-white rounded-md hover:bg-red-700 focus:outline-none focus:ring-2 focus:ring-red-500 disabled:opacity-50 disabled:cursor-not-allowed"
           >
-            {loading ? "Redeeming..." : "Redeem Points"}
+            {loading
+              ? "Redeeming..."
+              : selectedPrize
+                ? `Redeem ${selectedPrize.name}`
+                : "Redeem Points"}
           </button>
           <button
             onClick={handleClose}
@@ -245,6 +484,14 @@ const RedeemPointsModal = ({ isOpen, onClose }: RedeemPointsModalProps) => {
           </button>
         </div>
       </div>
+
+      {/* Badge Scanner */}
+      <ScannerPage
+        isOpen={isScannerOpen}
+        onClose={() => setIsScannerOpen(false)}
+        onScanSuccess={handleBadgeScan}
+        onError={handleScanError}
+      />
     </Modal>
   );
 };
@@ -6,8 +6,18 @@ import ClaimHuntItemModal from "./ClaimHuntItemModal";
 import UsersManagementModal from "./users/UsersManagementModal";
 import ClaimAttemptsModal from "./claimAttempts/ClaimAttemptsModal";
 import AuditLogsModal from "./admin/AuditLogsModal";
+import AnomaliesModal from "./anomalies/AnomaliesModal";
 import RedeemPointsModal from "./RedeemPointsModal";
-import { Auth0User, DbUser } from "@/lib/interface";
+import PuzzlesModal from "./puzzles/PuzzlesModal";
+import TeamModal from "./teams/TeamModal";
+import AchievementsModal from "./achievements/AchievementsModal";
+import PrizesModal from "./prizes/PrizesModal";
+import BadgeQRModal from "./badge/BadgeQRModal";
+import { RotatingQRModal } from "./huntItems";
+import AchievementBadges from "./achievements/AchievementBadges";
+import LeaderboardSettingsModal from "./leaderboard/LeaderboardSettingsModal";
+import LeaderboardAdminModal from "./leaderboard/LeaderboardAdminModal";
+import { Auth0User, DbUser, UnlockedAchievement } from "@/lib/interface";
 
 interface ScavengerOptionsProps {
   user?: Auth0User | null;
@@ -22,12 +32,23 @@ const ScavengerOptions = ({
   const [loading, setLoading] = useState(!initialDbUser);
   const [error, setError] = useState<string | null>(null);
   const [isHuntItemsModalOpen, setIsHuntItemsModalOpen] = useState(false);
+  const [isHuntCatalogModalOpen, setIsHuntCatalogModalOpen] = useState(false);
   const [isClaimModalOpen, setIsClaimModalOpen] = useState(false);
   const [isUsersModalOpen, setIsUsersModalOpen] = useState(false);
   const [isClaimAttemptsModalOpen, setIsClaimAttemptsModalOpen] =
     useState(false);
   const [isAuditLogsModalOpen, setIsAuditLogsModalOpen] = useState(false);
+  const [isAnomaliesModalOpen, setIsAnomaliesModalOpen] = useState(false);
   const [isRedeemPointsModalOpen, setIsRedeemPointsModalOpen] = useState(false);
+  const [isPuzzlesModalOpen, setIsPuzzlesModalOpen] = useState(false);
+  const [isRotatingQRModalOpen, setIsRotatingQRModalOpen] = useState(false);
+  const [isTeamModalOpen, setIsTeamModalOpen] = useState(false);
+  const [isAchievementsModalOpen, setIsAchievementsModalOpen] = useState(false);
+  const [isPrizesModalOpen, setIsPrizesModalOpen] = useState(false);
+  const [isBadgeModalOpen, setIsBadgeModalOpen] = useState(false);
+  const [isLeaderboardSettingsOpen, setIsLeaderboardSettingsOpen] =
+    useState(false);
+  const [isLeaderboardAdminOpen, setIsLeaderboardAdminOpen] = useState(false);
 
   useEffect(() => {
     const initializeUser = async () => {
@@ -59,8 +80,11 @@ const ScavengerOptions = ({
             _id: data.user.id,
             email: data.user.email,
             name: data.user.name,
+            leaderboardAlias: data.user.leaderboardAlias,
+            hideFromLeaderboard: data.user.hideFromLeaderboard,
             points: data.user.points,
             history: data.user.history || [],
+            achievements: data.user.achievements || [],
             claim_attempts: [],
           });
         } else {
@@ -77,8 +101,12 @@ const ScavengerOptions = ({
     initializeUser();
   }, [dbUser]);
 
-  // Handle successful claim - update user points and history
-  const handleClaimSuccess = (newPoints: number, totalItems: number) => {
+  // Handle successful claim - update user points, history and achievements
+  const handleClaimSuccess = (
+    newPoints: number,
+    totalItems: number,
+    unlockedAchievements: UnlockedAchievement[] = []
+  ) => {
     if (dbUser) {
       // Create a new history array with the updated count
       // Note: The actual item ID would be added by the API, but for UI purposes
@@ -92,6 +120,7 @@ const ScavengerOptions = ({
         ...dbUser,
         points: newPoints,
         history: updatedHistory,
+        achievements: [...unlockedAchievements, ...(dbUser.achievements || [])],
       });
     }
   };
@@ -141,6 +170,11 @@ const ScavengerOptions = ({
           <p className="text-xs text-gray-500 dark:text-gray-500">
             Items Found: {dbUser.history.length}
           </p>
+          {!!dbUser.achievements?.length && (
+            <div className="mt-2">
+              <AchievementBadges achievements={dbUser.achievements} />
+            </div>
+          )}
         </div>
       )}
       {user?.["cusec/roles"]?.includes("Admin") ? (
@@ -163,23 +197,55 @@ const ScavengerOptions = ({
           >
             Claim Attempts (Admin)
           </button>
+          <button
+            onClick={() => setIsAnomaliesModalOpen(true)}
+            className="px-4 py-2 rounded-lg bg-rose-600 text-white font-semibold shadow hover:bg-rose-700 transition"
+          >
+            Anomalies (Admin)
+          </button>
           <button
             onClick={() => setIsAuditLogsModalOpen(true)}
             className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-semibold shadow hover:bg-indigo-700 transition"
           >
             Audit Logs (Admin)
           </button>
+          <button
+            onClick={() => setIsAchievementsModalOpen(true)}
+            className="px-4 py-2 rounded-lg bg-yellow-600 text-white font-semibold shadow hover:bg-yellow-700 transition"
+          >
+            Achievements (Admin)
+          </button>
+          <button
+            onClick={() => setIsPrizesModalOpen(true)}
+            className="px-4 py-2 rounded-lg bg-pink-600 text-white font-semibold shadow hover:bg-pink-700 transition"
+          >
+            Prizes (Admin)
+          </button>
+          <button
+            onClick={() => setIsLeaderboardAdminOpen(true)}
+            className="px-4 py-2 rounded-lg bg-emerald-600 text-white font-semibold shadow hover:bg-emerald-700 transition"
+          >
+            Leaderboard (Admin)
+          </button>
         </>
       ) : null}
 
       {(user?.["cusec/roles"]?.includes("Admin") ||
         user?.["cusec/roles"]?.includes("Volunteer")) && (
-        <button
-          onClick={() => setIsRedeemPointsModalOpen(true)}
-          className="px-4 py-2 rounded-lg bg-red-600 text-white font-semibold shadow hover:bg-red-700 transition"
-        >
-          Redeem Points (Volunteer)
-        </button>
+        <>
+          <button
+            onClick={() => setIsRedeemPointsModalOpen(true)}
+            className="px-4 py-2 rounded-lg bg-red-600 text-white font-semibold shadow hover:bg-red-700 transition"
+          >
+            Redeem Points (Volunteer)
+          </button>
+          <button
+            onClick={() => setIsRotatingQRModalOpen(true)}
+            className="px-4 py-2 rounded-lg bg-teal-600 text-white font-semibold shadow hover:bg-teal-700 transition"
+          >
+            Live QR Display (Volunteer)
+          </button>
+        </>
       )}
 
       <button
@@ -189,11 +255,52 @@ const ScavengerOptions = ({
         Claim Hunt Item
       </button>
 
+      <button
+        onClick={() => setIsPuzzlesModalOpen(true)}
+        className="px-4 py-2 rounded-lg bg-secondary text-white font-semibold shadow hover:bg-secondary/80 transition"
+      >
+        Solve Puzzles
+      </button>
+
+      <button
+        onClick={() => setIsHuntCatalogModalOpen(true)}
+        className="px-4 py-2 rounded-lg bg-gray-600 text-white font-semibold shadow hover:bg-gray-700 transition"
+      >
+        View Hunt Items
+      </button>
+
+      <button
+        onClick={() => setIsTeamModalOpen(true)}
+        className="px-4 py-2 rounded-lg bg-indigo-600 text-white font-semibold shadow hover:bg-indigo-700 transition"
+      >
+        My Team
+      </button>
+
+      <button
+        onClick={() => setIsBadgeModalOpen(true)}
+        className="px-4 py-2 rounded-lg bg-cyan-600 text-white font-semibold shadow hover:bg-cyan-700 transition"
+      >
+        My Badge
+      </button>
+
+      <button
+        onClick={() => setIsLeaderboardSettingsOpen(true)}
+        className="px-4 py-2 rounded-lg bg-slate-600 text-white font-semibold shadow hover:bg-slate-700 transition"
+      >
+        Leaderboard Settings
+      </button>
+
       <HuntItemsModal
         isOpen={isHuntItemsModalOpen}
         onClose={() => setIsHuntItemsModalOpen(false)}
       />
 
+      <HuntItemsModal
+        isOpen={isHuntCatalogModalOpen}
+        onClose={() => setIsHuntCatalogModalOpen(false)}
+        variant="hunter"
+      />
+
       <ClaimHuntItemModal
         isOpen={isClaimModalOpen}
         onClose={() => setIsClaimModalOpen(false)}
@@ -201,6 +308,33 @@ const ScavengerOptions = ({
         userId={dbUser?._id}
       />
 
+      <PuzzlesModal
+        isOpen={isPuzzlesModalOpen}
+        onClose={() => setIsPuzzlesModalOpen(false)}
+        onSolve={handleClaimSuccess}
+        userId={dbUser?._id}
+      />
+
+      <TeamModal
+        isOpen={isTeamModalOpen}
+        onClose={() => setIsTeamModalOpen(false)}
+      />
+
+      <BadgeQRModal
+        isOpen={isBadgeModalOpen}
+        onClose={() => setIsBadgeModalOpen(false)}
+      />
+
+      <LeaderboardSettingsModal
+        isOpen={isLeaderboardSettingsOpen}
+        onClose={() => setIsLeaderboardSettingsOpen(false)}
+        settings={{
+          leaderboardAlias: dbUser?.leaderboardAlias || null,
+          hideFromLeaderboard: !!dbUser?.hideFromLeaderboard,
+        }}
+        onSaved={(settings) => dbUser && setDbUser({ ...dbUser, ...settings })}
+      />
+
       <UsersManagementModal
         isOpen={isUsersModalOpen}
         onClose={() => setIsUsersModalOpen(false)}
@@ -211,15 +345,40 @@ const ScavengerOptions = ({
         onClose={() => setIsClaimAttemptsModalOpen(false)}
       />
 
+      <AnomaliesModal
+        isOpen={isAnomaliesModalOpen}
+        onClose={() => setIsAnomaliesModalOpen(false)}
+      />
+
       <AuditLogsModal
         isOpen={isAuditLogsModalOpen}
         onClose={() => setIsAuditLogsModalOpen(false)}
       />
 
+      <AchievementsModal
+        isOpen={isAchievementsModalOpen}
+        onClose={() => setIsAchievementsModalOpen(false)}
+      />
+
+      <PrizesModal
+        isOpen={isPrizesModalOpen}
+        onClose={() => setIsPrizesModalOpen(false)}
+      />
+
+      <LeaderboardAdminModal
+        isOpen={isLeaderboardAdminOpen}
+        onClose={() => setIsLeaderboardAdminOpen(false)}
+      />
+
       <RedeemPointsModal
         isOpen={isRedeemPointsModalOpen}
         onClose={() => setIsRedeemPointsModalOpen(false)}
       />
+
+      <RotatingQRModal
+        isOpen={isRotatingQRModalOpen}
+        onClose={() => setIsRotatingQRModalOpen(false)}
+      />
     </div>
   );
 };
@@ -0,0 +1,36 @@
+"use client";
+
+import { Award } from "lucide-react";
+import { UnlockedAchievement } from "@/lib/interface";
+
+interface AchievementBadgesProps {
+  achievements: UnlockedAchievement[];
+  showBonus?: boolean; // Show bonus points awarded with each badge
+}
+
+const AchievementBadges = ({
+  achievements,
+  showBonus = false,
+}: AchievementBadgesProps) => {
+  if (achievements.length === 0) return null;
+
+  return (
+    <div className="flex flex-wrap justify-center gap-2">
+      {achievements.map((achievement) => (
+        <span
+          key={achievement._id}
+          title={achievement.description}
+          className="flex items-center gap-1 px-2 py-1 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 text-xs rounded-full"
+        >
+          <Award size={12} />
+          {achievement.name}
+          {showBonus && achievement.bonusPoints > 0 && (
+            <strong>+{achievement.bonusPoints}</strong>
+          )}
+        </span>
+      ))}
+    </div>
+  );
+};
+
+export default AchievementBadges;
@@ -0,0 +1,503 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Award, Edit2, Plus, Save, Trash2, X } from "lucide-react";
+import Modal from "@/components/ui/modal";
+import {
+  Achievement,
+  AchievementRule,
+  HuntItem,
+  HuntItemKind,
+} from "@/lib/interface";
+
+interface AdminAchievement extends Achievement {
+  unlockedCount: number;
+}
+
+interface AchievementFormData {
+  name: string;
+  description: string;
+  huntItems: string[];
+  tags: string;
+  kind: HuntItemKind | "";
+  rule: AchievementRule;
+  requiredCount: number | null;
+  bonusPoints: number;
+  active: boolean;
+}
+
+const emptyFormData: AchievementFormData = {
+  name: "",
+  description: "",
+  huntItems: [],
+  tags: "",
+  kind: "",
+  rule: "all",
+  requiredCount: null,
+  bonusPoints: 0,
+  active: true,
+};
+
+interface AchievementsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const AchievementsModal = ({ isOpen, onClose }: AchievementsModalProps) => {
+  const [achievements, setAchievements] = useState<AdminAchievement[]>([]);
+  const [huntItems, setHuntItems] = useState<HuntItem[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<AchievementFormData>(emptyFormData);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchAchievements = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const [achievementsResponse, huntItemsResponse] = await Promise.all([
+        fetch("/api/admin/achievements"),
+        fetch("/api/hunt-items"),
+      ]);
+      const achievementsData = await achievementsResponse.json();
+      const huntItemsData = await huntItemsResponse.json();
+
+      if (achievementsData.success) {
+        setAchievements(achievementsData.achievements);
+      } else {
+        setError(achievementsData.error || "Failed to fetch achievements");
+      }
+
+      if (huntItemsData.success) {
+        setHuntItems(huntItemsData.huntItems);
+      }
+    } catch (err) {
+      setError("Failed to fetch achievements");
+      console.error("Error fetching achievements:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchAchievements();
+    }
+  }, [isOpen]);
+
+  const startCreate = () => {
+    setEditingId(null);
+    setFormData(emptyFormData);
+    setShowForm(true);
+  };
+
+  const startEdit = (achievement: AdminAchievement) => {
+    setEditingId(achievement._id);
+    setFormData({
+      name: achievement.name,
+      description: achievement.description || "",
+      huntItems: achievement.huntItems,
+      tags: achievement.tags.join(", "),
+      kind: achievement.kind || "",
+      rule: achievement.rule,
+      requiredCount: achievement.requiredCount ?? null,
+      bonusPoints: achievement.bonusPoints,
+      active: achievement.active,
+    });
+    setShowForm(true);
+  };
+
+  const cancelForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(emptyFormData);
+  };
+
+  const toggleHuntItem = (itemId: string) => {
+    setFormData({
+      ...formData,
+      huntItems: formData.huntItems.includes(itemId)
+        ? formData.huntItems.filter((id) => id !== itemId)
+        : [...formData.huntItems, itemId],
+    });
+  };
+
+  const saveAchievement = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await fetch(
+        editingId
+          ? `/api/admin/achievements/${editingId}`
+          : "/api/admin/achievements",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify({
+            ...formData,
+            kind: formData.kind || null,
+            requiredCount:
+              formData.rule === "count" ? formData.requiredCount : null,
+          }),
+        }
+      );
+
+      const data = await response.json();
+
+      if (data.success) {
+        cancelForm();
+        await fetchAchievements();
+      } else {
+        setError(data.error || "Failed to save achievement");
+      }
+    } catch (err) {
+      setError("Failed to save achievement");
+      console.error("Error saving achievement:", err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const deleteAchievement = async (achievement: AdminAchievement) => {
+    if (
+      !confirm(
+        `Delete achievement ${achievement.name}?\n\nIt will be removed from ${achievement.unlockedCount} user(s). Bonus points already awarded are kept.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const response = await fetch(
+        `/api/admin/achievements/${achievement._id}`,
+        { method: "DELETE" }
+      );
+      const data = await response.json();
+
+      if (data.success) {
+        setAchievements(achievements.filter((a) => a._id !== achievement._id));
+      } else {
+        setError(data.error || "Failed to delete achievement");
+      }
+    } catch (err) {
+      setError("Failed to delete achievement");
+      console.error("Error deleting achievement:", err);
+    }
+  };
+
+  // Human readable summary of what an achievement requires
+  const describeCriteria = (achievement: AdminAchievement) => {
+    const sources = [
+      achievement.huntItems.length > 0 &&
+        `${achievement.huntItems.length} selected item${
+          achievement.huntItems.length === 1 ? "" : "s"
+        }`,
+      achievement.tags.length > 0 &&
+        `tagged ${achievement.tags.map((tag) => `#${tag}`).join(", ")}`,
+      achievement.kind &&
+        (achievement.kind === "puzzle" ? "any puzzle" : "any QR item"),
+    ].filter(Boolean);
+
+    const amount =
+      achievement.rule === "count"
+        ? `Claim ${achievement.requiredCount} of`
+        : "Claim all of";
+
+    return `${amount} ${sources.join(" or ")}`;
+  };
+
+  const handleClose = () => {
+    cancelForm();
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Achievements"
+      className="max-w-4xl"
+    >
+      <div className="space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {showForm ? (
+          <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-800 space-y-3">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {editingId ? "Edit Achievement" : "New Achievement"}
+            </h3>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Name
+              </label>
+              <input
+                type="text"
+                value={formData.name}
+                onChange={(e) =>
+                  setFormData({ ...formData, name: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                placeholder="e.g. Visited every gold sponsor booth"
+                disabled={isSubmitting}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Description
+              </label>
+              <textarea
+                value={formData.description}
+                onChange={(e) =>
+                  setFormData({ ...formData, description: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                rows={2}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Items tagged (comma separated)
+                </label>
+                <input
+                  type="text"
+                  value={formData.tags}
+                  onChange={(e) =>
+                    setFormData({ ...formData, tags: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  placeholder="e.g. gold-sponsor"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Or any item of kind
+                </label>
+                <select
+                  value={formData.kind}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      kind: e.target.value as HuntItemKind | "",
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  disabled={isSubmitting}
+                >
+                  <option value="">-</option>
+                  <option value="qr">QR item</option>
+                  <option value="puzzle">Puzzle</option>
+                </select>
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Or these hunt items ({formData.huntItems.length} selected)
+              </label>
+              <div className="max-h-40 overflow-y-auto border border-gray-300 dark:border-gray-600 rounded-lg p-2 bg-white dark:bg-gray-700">
+                {huntItems.map((item) => (
+                  <label
+                    key={item._id}
+                    className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300"
+                  >
+                    <input
+                      type="checkbox"
+                      checked={formData.huntItems.includes(item._id)}
+                      onChange={() => toggleHuntItem(item._id)}
+                      disabled={isSubmitting}
+                    />
+                    {item.name}
+                  </label>
+                ))}
+              </div>
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Rule
+                </label>
+                <select
+                  value={formData.rule}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      rule: e.target.value as AchievementRule,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  disabled={isSubmitting}
+                >
+                  <option value="all">Claim all matching items</option>
+                  <option value="count">Claim a number of them</option>
+                </select>
+              </div>
+              {formData.rule === "count" && (
+                <div>
+                  <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                    Required count
+                  </label>
+                  <input
+                    type="number"
+                    min="1"
+                    value={formData.requiredCount ?? ""}
+                    onChange={(e) =>
+                      setFormData({
+                        ...formData,
+                        requiredCount: parseInt(e.target.value) || null,
+                      })
+                    }
+                    className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    disabled={isSubmitting}
+                  />
+                </div>
+              )}
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Bonus points
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.bonusPoints}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      bonusPoints: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={formData.active}
+                onChange={(e) =>
+                  setFormData({ ...formData, active: e.target.checked })
+                }
+                disabled={isSubmitting}
+              />
+              Active (inactive achievements can no longer be unlocked)
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={saveAchievement}
+                disabled={!formData.name.trim() || isSubmitting}
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors"
+              >
+                <Save size={16} />
+                {isSubmitting ? "Saving..." : "Save"}
+              </button>
+              <button
+                onClick={cancelForm}
+                disabled={isSubmitting}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                <X size={16} />
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={startCreate}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <Plus size={16} />
+            Add Achievement
+          </button>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">
+              Loading achievements...
+            </p>
+          </div>
+        ) : achievements.length === 0 ? (
+          <div className="text-center py-8 bg-gray-50 dark:bg-gray-800 rounded-lg">
+            <Award className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">
+              No achievements yet
+            </p>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {achievements.map((achievement) => (
+              <div
+                key={achievement._id}
+                className="flex items-center justify-between p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+              >
+                <div className="flex-1">
+                  <div className="flex items-center gap-3">
+                    <h4 className="font-semibold text-gray-900 dark:text-white">
+                      {achievement.name}
+                    </h4>
+                    {achievement.bonusPoints > 0 && (
+                      <span className="px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 text-xs rounded">
+                        +{achievement.bonusPoints} pts
+                      </span>
+                    )}
+                    {!achievement.active && (
+                      <span className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs rounded">
+                        Inactive
+                      </span>
+                    )}
+                  </div>
+                  {achievement.description && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {achievement.description}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-4 mt-1 text-xs text-gray-500 dark:text-gray-500">
+                    <span>{describeCriteria(achievement)}</span>
+                    <span>
+                      Unlocked by <strong>{achievement.unlockedCount}</strong>
+                    </span>
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => startEdit(achievement)}
+                    disabled={showForm}
+                    className="flex items-center gap-1 px-3 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:bg-gray-400 text-sm"
+                    title="Edit Achievement"
+                  >
+                    <Edit2 className="w-3 h-3" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => deleteAchievement(achievement)}
+                    className="flex items-center gap-1 px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-sm"
+                    title="Delete Achievement"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default AchievementsModal;
@@ -180,9 +180,20 @@ const AuditLogsModal = ({ isOpen, onClose }: AuditLogsModalProps) => {
                 <option value="CREATE_HUNT_ITEM">Create Hunt Item</option>
                 <option value="UPDATE_HUNT_ITEM">Update Hunt Item</option>
                 <option value="DELETE_HUNT_ITEM">Delete Hunt Item</option>
+                <option value="ARCHIVE_HUNT_ITEM">Archive Hunt Item</option>
+                <option value="RESTORE_HUNT_ITEM">Restore Hunt Item</option>
+                <option value="IMPORT_HUNT_ITEMS">Import Hunt Items</option>
                 <option value="CLEAR_CLAIM_ATTEMPTS">
                   Clear Claim Attempts
                 </option>
+                <option value="FREEZE_LEADERBOARD">Freeze Leaderboard</option>
+                <option value="UNFREEZE_LEADERBOARD">
+                  Unfreeze Leaderboard
+                </option>
+                <option value="CREATE_LEADERBOARD_SNAPSHOT">
+                  Leaderboard Snapshot
+                </option>
+                <option value="REVIEW_ANOMALY">Review Anomaly</option>
               </select>
             </div>
 
@@ -201,6 +212,11 @@ const AuditLogsModal = ({ isOpen, onClose }: AuditLogsModalProps) => {
                 <option value="user">User</option>
                 <option value="huntItem">Hunt Item</option>
                 <option value="claimAttempts">Claim Attempts</option>
+                <option value="team">Team</option>
+                <option value="achievement">Achievement</option>
+                <option value="prize">Prize</option>
+                <option value="leaderboard">Leaderboard</option>
+                <option value="anomaly">Anomaly</option>
               </select>
             </div>
           </div>
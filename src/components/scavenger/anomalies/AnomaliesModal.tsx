@@ -0,0 +1,319 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { AlertTriangle, CheckCircle, Clock, History } from "lucide-react";
+import Modal from "@/components/ui/modal";
+import UserHistoryDetailsModal from "../users/UserHistoryDetailsModal";
+
+type AnomalyType =
+  | "rapid-claims"
+  | "shared-sequence"
+  | "shared-ip"
+  | "shared-user-agent"
+  | "outside-window";
+
+interface AnomalyUser {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+interface AnomalyFlag {
+  key: string;
+  type: AnomalyType;
+  summary: string;
+  users: AnomalyUser[];
+  occurredAt: string;
+  details: Record<string, unknown>;
+  review: { reviewedBy?: string; reviewedAt: string; note: string } | null;
+}
+
+interface AnomaliesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const typeLabels: Record<AnomalyType, string> = {
+  "rapid-claims": "Rapid claims",
+  "shared-sequence": "Same claim order",
+  "shared-ip": "Shared IP",
+  "shared-user-agent": "Shared browser",
+  "outside-window": "Outside claim window",
+};
+
+const typeStyles: Record<AnomalyType, string> = {
+  "rapid-claims":
+    "bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200",
+  "shared-sequence":
+    "bg-purple-100 dark:bg-purple-900 text-purple-800 dark:text-purple-200",
+  "shared-ip": "bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200",
+  "shared-user-agent":
+    "bg-teal-100 dark:bg-teal-900 text-teal-800 dark:text-teal-200",
+  "outside-window": "bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200",
+};
+
+// Extra context for a flag, depending on its type
+const describeDetails = (flag: AnomalyFlag) => {
+  const details = flag.details;
+  switch (flag.type) {
+    case "rapid-claims":
+      return `${new Date(details.from as string).toLocaleString()} - ${new Date(
+        details.until as string
+      ).toLocaleTimeString()}`;
+    case "shared-sequence":
+      return `${details.sharedRuns} shared run(s), e.g. ${(
+        details.items as string[]
+      ).join(" → ")}`;
+    case "shared-user-agent":
+      return details.userAgent as string;
+    case "outside-window":
+      return `Claimed ${new Date(
+        details.claimedAt as string
+      ).toLocaleString()}, open ${details.window}`;
+    default:
+      return null;
+  }
+};
+
+// Suspicious claim patterns for admins to look into. Each account links to
+// its claim history, and flags can be marked as reviewed once checked.
+const AnomaliesModal = ({ isOpen, onClose }: AnomaliesModalProps) => {
+  const [flags, setFlags] = useState<AnomalyFlag[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [typeFilter, setTypeFilter] = useState<AnomalyType | "">("");
+  const [showReviewed, setShowReviewed] = useState(false);
+  const [notes, setNotes] = useState<Record<string, string>>({});
+  const [reviewingKey, setReviewingKey] = useState<string | null>(null);
+  const [historyUser, setHistoryUser] = useState<AnomalyUser | null>(null);
+
+  const fetchFlags = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/admin/anomalies");
+      const data = await response.json();
+
+      if (data.success) {
+        setFlags(data.flags);
+      } else {
+        setError(data.error || "Failed to fetch anomalies");
+      }
+    } catch (err) {
+      setError("Failed to fetch anomalies");
+      console.error("Error fetching anomalies:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchFlags();
+    }
+  }, [isOpen]);
+
+  const markReviewed = async (flagKey: string) => {
+    try {
+      setReviewingKey(flagKey);
+      setError(null);
+
+      const response = await fetch("/api/admin/anomalies", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ flagKey, note: notes[flagKey] || "" }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setFlags((current) =>
+          current.map((flag) => (flag.key === flagKey ? data.flag : flag))
+        );
+      } else {
+        setError(data.error || "Failed to mark flag as reviewed");
+      }
+    } catch (err) {
+      setError("Failed to mark flag as reviewed");
+      console.error("Error reviewing anomaly:", err);
+    } finally {
+      setReviewingKey(null);
+    }
+  };
+
+  const unreviewedCount = flags.filter((flag) => !flag.review).length;
+  const visibleFlags = flags.filter(
+    (flag) =>
+      (showReviewed || !flag.review) &&
+      (!typeFilter || flag.type === typeFilter)
+  );
+
+  return (
+    <>
+      <Modal
+        isOpen={isOpen}
+        onClose={onClose}
+        title="Anomaly Report"
+        className="max-w-4xl"
+      >
+        <div className="space-y-6">
+          {/* Controls */}
+          <div className="flex flex-wrap items-center gap-4">
+            <button
+              onClick={fetchFlags}
+              disabled={loading}
+              className="px-3 py-1 text-sm bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400"
+            >
+              {loading ? "Analyzing..." : "Refresh"}
+            </button>
+            <select
+              value={typeFilter}
+              onChange={(e) =>
+                setTypeFilter(e.target.value as AnomalyType | "")
+              }
+              className="px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            >
+              <option value="">All Types</option>
+              {(Object.keys(typeLabels) as AnomalyType[]).map((type) => (
+                <option key={type} value={type}>
+                  {typeLabels[type]}
+                </option>
+              ))}
+            </select>
+            <label className="flex items-center gap-2 text-sm">
+              <input
+                type="checkbox"
+                checked={showReviewed}
+                onChange={(e) => setShowReviewed(e.target.checked)}
+                className="rounded"
+              />
+              Show reviewed flags
+            </label>
+            <span className="text-sm text-gray-500 dark:text-gray-400">
+              {unreviewedCount} to review, {flags.length} total
+            </span>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200 text-sm">{error}</p>
+            </div>
+          )}
+
+          {/* Flags */}
+          <div className="max-h-[60vh] overflow-y-auto space-y-3">
+            {visibleFlags.length === 0 && !loading ? (
+              <div className="p-4 text-center text-gray-500 dark:text-gray-400 border border-gray-200 dark:border-gray-700 rounded-lg">
+                No suspicious patterns found
+              </div>
+            ) : (
+              visibleFlags.map((flag) => (
+                <div
+                  key={flag.key}
+                  className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg"
+                >
+                  <div className="flex items-start justify-between gap-4">
+                    <div className="flex items-center gap-2">
+                      {flag.review ? (
+                        <CheckCircle className="w-4 h-4 text-green-600 shrink-0" />
+                      ) : (
+                        <AlertTriangle className="w-4 h-4 text-orange-600 shrink-0" />
+                      )}
+                      <span
+                        className={`px-2 py-0.5 rounded text-xs font-medium ${
+                          typeStyles[flag.type]
+                        }`}
+                      >
+                        {typeLabels[flag.type]}
+                      </span>
+                      <span className="font-medium text-sm text-gray-900 dark:text-white">
+                        {flag.summary}
+                      </span>
+                    </div>
+                    <div className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-400 whitespace-nowrap">
+                      <Clock className="w-3 h-3" />
+                      {new Date(flag.occurredAt).toLocaleString()}
+                    </div>
+                  </div>
+
+                  {describeDetails(flag) && (
+                    <p className="mt-1 text-xs text-gray-500 dark:text-gray-400 break-words">
+                      {describeDetails(flag)}
+                    </p>
+                  )}
+
+                  {/* Accounts */}
+                  <div className="mt-3 flex flex-wrap gap-2">
+                    {flag.users.map((user) => (
+                      <button
+                        key={user._id}
+                        onClick={() => setHistoryUser(user)}
+                        className="flex items-center gap-1 px-2 py-1 text-xs bg-gray-100 dark:bg-gray-800 text-gray-700 dark:text-gray-300 rounded hover:bg-gray-200 dark:hover:bg-gray-700"
+                        title={`View ${user.email}'s history`}
+                      >
+                        <History className="w-3 h-3" />
+                        {user.name || user.email}
+                      </button>
+                    ))}
+                  </div>
+
+                  {/* Review */}
+                  {flag.review ? (
+                    <div className="mt-3 text-xs text-green-700 dark:text-green-300">
+                      Reviewed by {flag.review.reviewedBy || "an admin"} on{" "}
+                      {new Date(flag.review.reviewedAt).toLocaleString()}
+                      {flag.review.note && <>: {flag.review.note}</>}
+                    </div>
+                  ) : (
+                    <div className="mt-3 flex gap-2">
+                      <input
+                        type="text"
+                        value={notes[flag.key] || ""}
+                        onChange={(e) =>
+                          setNotes((current) => ({
+                            ...current,
+                            [flag.key]: e.target.value,
+                          }))
+                        }
+                        placeholder="Review note (optional)"
+                        className="flex-1 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+                      />
+                      <button
+                        onClick={() => markReviewed(flag.key)}
+                        disabled={reviewingKey === flag.key}
+                        className="px-3 py-1 text-sm bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-400 whitespace-nowrap"
+                      >
+                        {reviewingKey === flag.key
+                          ? "Saving..."
+                          : "Mark Reviewed"}
+                      </button>
+                    </div>
+                  )}
+                </div>
+              ))
+            )}
+          </div>
+
+          <div className="text-xs text-gray-500 dark:text-gray-400">
+            💡 Flags are leads, not proof - check each account&apos;s history
+            before taking action
+          </div>
+        </div>
+      </Modal>
+
+      {/* User History Details Modal */}
+      <UserHistoryDetailsModal
+        isOpen={!!historyUser}
+        onClose={() => setHistoryUser(null)}
+        userId={historyUser?._id || null}
+        userName={historyUser?.name || ""}
+        userEmail={historyUser?.email || ""}
+      />
+    </>
+  );
+};
+
+export default AnomaliesModal;
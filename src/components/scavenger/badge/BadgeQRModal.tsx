@@ -0,0 +1,83 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Modal from "@/components/ui/modal";
+import { useQRCode } from "../hooks/useQRCode";
+
+interface BadgeQRModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+// Personal QR volunteers scan at the redemption desk to find the user
+const BadgeQRModal = ({ isOpen, onClose }: BadgeQRModalProps) => {
+  const [token, setToken] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const qrCode = useQRCode(token, { size: 300, withLogo: true });
+
+  useEffect(() => {
+    if (!isOpen || token) return;
+
+    const fetchToken = async () => {
+      try {
+        setError(null);
+
+        const response = await fetch("/api/users/badge");
+        const data = await response.json();
+
+        if (data.success) {
+          setToken(data.token);
+        } else {
+          setError(data.error || "Failed to load your badge");
+        }
+      } catch (err) {
+        setError("Failed to load your badge");
+        console.error("Error fetching badge token:", err);
+      }
+    };
+
+    fetchToken();
+  }, [isOpen, token]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="My Badge"
+      className="max-w-md"
+    >
+      <div className="text-center space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+
+        {qrCode ? (
+          <>
+            <div className="flex justify-center">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={qrCode}
+                alt="Your badge QR code"
+                className="border rounded-lg"
+              />
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Show this code at the prize desk so a volunteer can find you
+              quickly. Don&apos;t share it with other attendees.
+            </p>
+          </>
+        ) : (
+          !error && (
+            <p className="text-gray-600 dark:text-gray-400">
+              Loading your badge...
+            </p>
+          )
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default BadgeQRModal;
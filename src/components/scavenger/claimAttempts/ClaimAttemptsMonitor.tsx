@@ -29,6 +29,8 @@ const ClaimAttemptsMonitor = ({ isVisible }: ClaimAttemptsMonitorProps) => {
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [showFailedOnly, setShowFailedOnly] = useState(false);
+  const [pendingMigrationUsers, setPendingMigrationUsers] = useState(0);
+  const [migrating, setMigrating] = useState(false);
 
   const fetchClaimAttempts = async () => {
     try {
@@ -57,6 +59,50 @@ const ClaimAttemptsMonitor = ({ isVisible }: ClaimAttemptsMonitorProps) => {
     }
   };
 
+  // Users whose attempts are still embedded in their user document
+  const fetchMigrationStatus = async () => {
+    try {
+      const response = await fetch("/api/admin/migrations/claim-attempts");
+      const data = await response.json();
+
+      if (data.success) {
+        setPendingMigrationUsers(data.pendingUsers);
+      }
+    } catch (err) {
+      console.error("Error checking claim attempts migration:", err);
+    }
+  };
+
+  const migrateClaimAttempts = async () => {
+    try {
+      setMigrating(true);
+      setError(null);
+
+      const response = await fetch("/api/admin/migrations/claim-attempts", {
+        method: "POST",
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setPendingMigrationUsers(0);
+        await fetchClaimAttempts();
+      } else {
+        setError(data.error || "Failed to migrate claim attempts");
+      }
+    } catch (err) {
+      setError("Failed to migrate claim attempts");
+      console.error("Error migrating claim attempts:", err);
+    } finally {
+      setMigrating(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isVisible) {
+      fetchMigrationStatus();
+    }
+  }, [isVisible]);
+
   useEffect(() => {
     if (isVisible) {
       fetchClaimAttempts();
@@ -88,6 +134,23 @@ const ClaimAttemptsMonitor = ({ isVisible }: ClaimAttemptsMonitorProps) => {
         </label>
       </div>
 
+      {pendingMigrationUsers > 0 && (
+        <div className="flex items-center justify-between gap-4 p-3 bg-yellow-50 dark:bg-yellow-900/20 border border-yellow-200 dark:border-yellow-800 rounded-lg">
+          <p className="text-yellow-800 dark:text-yellow-200 text-sm">
+            {pendingMigrationUsers} user(s) still have claim attempts stored on
+            their profile. They are not counted here or by the rate limiter
+            until migrated.
+          </p>
+          <button
+            onClick={migrateClaimAttempts}
+            disabled={migrating}
+            className="px-3 py-1 text-sm bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:bg-gray-400 whitespace-nowrap"
+          >
+            {migrating ? "Migrating..." : "Migrate"}
+          </button>
+        </div>
+      )}
+
       {/* Stats */}
       {stats && (
         <div className="grid grid-cols-2 md:grid-cols-4 gap-4 mb-4">
@@ -1,17 +1,39 @@
 "use client";
 
 import { useState, useEffect } from "react";
-import { HuntItem, HuntItemFormData } from "@/lib/interface";
+import {
+  HuntItem,
+  HuntItemCatalogEntry,
+  HuntItemFormData,
+} from "@/lib/interface";
 
-const emptyFormData: HuntItemFormData = {
+export type HuntItemsVariant = "admin" | "hunter";
+
+export const emptyFormData: HuntItemFormData = {
   name: "",
   description: "",
   identifier: "",
   points: 0,
+  kind: "qr",
+  rotating: false,
+  availableFrom: null,
+  availableUntil: null,
+  scheduleLink: null,
+  claimCap: null,
+  pointTiers: [],
+  teamScope: "member",
+  tags: [],
+  prompt: "",
+  answers: [],
+  hints: [],
 };
 
-export const useHuntItems = (isOpen: boolean) => {
+export const useHuntItems = (
+  isOpen: boolean,
+  variant: HuntItemsVariant = "admin"
+) => {
   const [huntItems, setHuntItems] = useState<HuntItem[]>([]);
+  const [catalogItems, setCatalogItems] = useState<HuntItemCatalogEntry[]>([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [editingItem, setEditingItem] = useState<HuntItem | null>(null);
@@ -25,14 +47,20 @@ export const useHuntItems = (isOpen: boolean) => {
       setLoading(true);
       setError(null);
 
-      const response = await fetch("/api/hunt-items");
+      const response = await fetch(
+        variant === "hunter" ? "/api/hunt-items?view=hunter" : "/api/hunt-items"
+      );
       const data = await response.json();
 
       if (!data.success) {
         throw new Error(data.error || "Failed to fetch hunt items");
       }
 
-      setHuntItems(data.huntItems);
+      if (variant === "hunter") {
+        setCatalogItems(data.huntItems);
+      } else {
+        setHuntItems(data.huntItems);
+      }
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to fetch hunt items"
@@ -90,6 +118,20 @@ export const useHuntItems = (isOpen: boolean) => {
           name: item.name,
           description: item.description,
           points: item.points,
+          applyToPastClaims: !!item.applyToPastClaims,
+          availableFrom: item.availableFrom || null,
+          availableUntil: item.availableUntil || null,
+          scheduleLink: item.scheduleLink || null,
+          claimCap: item.claimCap ?? null,
+          pointTiers: item.pointTiers || [],
+          teamScope: item.teamScope || "member",
+          tags: item.tags || [],
+          ...(item.kind !== "puzzle" && { rotating: !!item.rotating }),
+          ...(item.kind === "puzzle" && {
+            prompt: item.prompt,
+            hints: item.hints,
+            answers: item.answers,
+          }),
         }),
       });
 
@@ -105,6 +147,13 @@ export const useHuntItems = (isOpen: boolean) => {
         )
       );
       setEditingItem(null);
+
+      if (data.pastClaimsAdjusted) {
+        const { usersAffected } = data.pastClaimsAdjusted;
+        alert(
+          `Adjusted points for ${usersAffected} past claimer${usersAffected === 1 ? "" : "s"}.`
+        );
+      }
     } catch (err) {
       setError(
         err instanceof Error ? err.message : "Failed to update hunt item"
@@ -113,9 +162,13 @@ export const useHuntItems = (isOpen: boolean) => {
     }
   };
 
-  // Delete hunt item
-  const deleteHuntItem = async (id: string) => {
-    if (!confirm("Are you sure you want to delete this hunt item?")) {
+  // Archive hunt item (hidden from hunters, can be restored)
+  const archiveHuntItem = async (id: string) => {
+    if (
+      !confirm(
+        "Archive this hunt item? Hunters will no longer see or be able to claim it."
+      )
+    ) {
       return;
     }
 
@@ -128,6 +181,59 @@ export const useHuntItems = (isOpen: boolean) => {
 
       const data = await response.json();
 
+      if (!data.success) {
+        throw new Error(data.error || "Failed to archive hunt item");
+      }
+
+      setHuntItems(
+        huntItems.map((item) => (item._id === id ? data.huntItem : item))
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to archive hunt item"
+      );
+      console.error("Error archiving hunt item:", err);
+    }
+  };
+
+  // Restore an archived hunt item
+  const restoreHuntItem = async (id: string) => {
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/hunt-items/${id}/restore`, {
+        method: "POST",
+      });
+
+      const data = await response.json();
+
+      if (!data.success) {
+        throw new Error(data.error || "Failed to restore hunt item");
+      }
+
+      setHuntItems(
+        huntItems.map((item) => (item._id === id ? data.huntItem : item))
+      );
+    } catch (err) {
+      setError(
+        err instanceof Error ? err.message : "Failed to restore hunt item"
+      );
+      console.error("Error restoring hunt item:", err);
+    }
+  };
+
+  // Permanently delete hunt item, keeping or revoking claimers' points
+  const deleteHuntItem = async (id: string, pointsMode: "keep" | "revoke") => {
+    try {
+      setError(null);
+
+      const response = await fetch(
+        `/api/hunt-items/${id}?permanent=true&points=${pointsMode}`,
+        { method: "DELETE" }
+      );
+
+      const data = await response.json();
+
       if (!data.success) {
         throw new Error(data.error || "Failed to delete hunt item");
       }
@@ -156,6 +262,7 @@ export const useHuntItems = (isOpen: boolean) => {
   return {
     // State
     huntItems,
+    catalogItems,
     loading,
     error,
     editingItem,
@@ -170,6 +277,8 @@ export const useHuntItems = (isOpen: boolean) => {
     setFormData,
     createHuntItem,
     updateHuntItem,
+    archiveHuntItem,
+    restoreHuntItem,
     deleteHuntItem,
     fetchHuntItems,
   };
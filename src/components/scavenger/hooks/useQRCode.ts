@@ -0,0 +1,38 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { generateQRCodePNG, QRCodeOptions } from "../utils/qrCode";
+
+/**
+ * Render a QR code in the browser for use as an image src
+ * @param value - The text to encode, or null while it is loading
+ * @param options - Size, margin, error correction and logo options
+ * @returns PNG data URL, or null until it has been generated
+ */
+export const useQRCode = (
+  value: string | null,
+  { size, margin, errorCorrectionLevel, withLogo }: QRCodeOptions = {}
+) => {
+  const [dataURL, setDataURL] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (!value) {
+      setDataURL(null);
+      return;
+    }
+
+    let cancelled = false;
+
+    generateQRCodePNG(value, { size, margin, errorCorrectionLevel, withLogo })
+      .then((url) => {
+        if (!cancelled) setDataURL(url);
+      })
+      .catch((err) => console.error("Error generating QR code:", err));
+
+    return () => {
+      cancelled = true;
+    };
+  }, [value, size, margin, errorCorrectionLevel, withLogo]);
+
+  return dataURL;
+};
@@ -1,6 +1,12 @@
 "use client";
 
-import { HuntItemFormData } from "@/lib/interface";
+import {
+  HuntItemFormData,
+  HuntItemKind,
+  HuntItemTeamScope,
+} from "@/lib/interface";
+import HuntItemWindowFields from "./HuntItemWindowFields";
+import HuntItemClaimLimitFields from "./HuntItemClaimLimitFields";
 
 interface HuntItemAddFormProps {
   formData: HuntItemFormData;
@@ -17,6 +23,12 @@ const HuntItemAddForm = ({
   onCancel,
   isSubmitting = false,
 }: HuntItemAddFormProps) => {
+  const isPuzzle = formData.kind === "puzzle";
+  const hasAnswers = formData.answers.some((answer) => answer.trim());
+  const canSubmit = isPuzzle
+    ? !!formData.prompt && hasAnswers
+    : !!formData.identifier;
+
   return (
     <div className="p-4 bg-gray-50 dark:bg-gray-800 rounded-lg border">
       <h4 className="text-md font-medium mb-4 text-gray-900 dark:text-white">
@@ -53,19 +65,108 @@ const HuntItemAddForm = ({
         </div>
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
-            Identifier *
+            Type
           </label>
-          <input
-            type="text"
-            value={formData.identifier}
+          <select
+            value={formData.kind}
             onChange={(e) =>
-              setFormData({ ...formData, identifier: e.target.value })
+              setFormData({
+                ...formData,
+                kind: e.target.value as HuntItemKind,
+              })
             }
             className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
-            placeholder="Enter unique identifier"
             disabled={isSubmitting}
-          />
+          >
+            <option value="qr">QR Code</option>
+            <option value="puzzle">Puzzle</option>
+          </select>
         </div>
+        {isPuzzle ? (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Prompt *
+              </label>
+              <textarea
+                value={formData.prompt}
+                onChange={(e) =>
+                  setFormData({ ...formData, prompt: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                placeholder="The riddle or question shown to hunters"
+                rows={3}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Accepted Answers * (one per line)
+              </label>
+              <textarea
+                value={formData.answers.join("\n")}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    answers: e.target.value.split("\n"),
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                placeholder="Case, punctuation and extra spaces are ignored"
+                rows={3}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Hints (one per line, revealed in order)
+              </label>
+              <textarea
+                value={formData.hints.join("\n")}
+                onChange={(e) =>
+                  setFormData({
+                    ...formData,
+                    hints: e.target.value.split("\n"),
+                  })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                placeholder="Optional"
+                rows={2}
+                disabled={isSubmitting}
+              />
+            </div>
+          </>
+        ) : (
+          <>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Identifier *
+              </label>
+              <input
+                type="text"
+                value={formData.identifier}
+                onChange={(e) =>
+                  setFormData({ ...formData, identifier: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                placeholder="Enter unique identifier"
+                disabled={isSubmitting}
+              />
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={formData.rotating}
+                onChange={(e) =>
+                  setFormData({ ...formData, rotating: e.target.checked })
+                }
+                disabled={isSubmitting}
+              />
+              Rotating QR code (shown on a volunteer-held screen; printed codes
+              will not work)
+            </label>
+          </>
+        )}
         <div>
           <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
             Points
@@ -84,10 +185,56 @@ const HuntItemAddForm = ({
             disabled={isSubmitting}
           />
         </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Tags (comma separated, used by achievements)
+          </label>
+          <input
+            type="text"
+            value={formData.tags.join(",")}
+            onChange={(e) =>
+              setFormData({ ...formData, tags: e.target.value.split(",") })
+            }
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            placeholder="e.g. gold-sponsor, talk"
+            disabled={isSubmitting}
+          />
+        </div>
+        <div>
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+            Counts once per
+          </label>
+          <select
+            value={formData.teamScope}
+            onChange={(e) =>
+              setFormData({
+                ...formData,
+                teamScope: e.target.value as HuntItemTeamScope,
+              })
+            }
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            disabled={isSubmitting}
+          >
+            <option value="member">Member</option>
+            <option value="team">
+              Team (once one member claims it, teammates cannot)
+            </option>
+          </select>
+        </div>
+        <HuntItemClaimLimitFields
+          value={formData}
+          onChange={(limits) => setFormData({ ...formData, ...limits })}
+          disabled={isSubmitting}
+        />
+        <HuntItemWindowFields
+          value={formData}
+          onChange={(window) => setFormData({ ...formData, ...window })}
+          disabled={isSubmitting}
+        />
         <div className="flex gap-2">
           <button
             onClick={onSubmit}
-            disabled={!formData.name || !formData.identifier || isSubmitting}
+            disabled={!formData.name || !canSubmit || isSubmitting}
             className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors"
           >
             {isSubmitting ? "Creating..." : "Create Item"}
@@ -0,0 +1,81 @@
+"use client";
+
+import { CheckCircle, Circle } from "lucide-react";
+import { HuntItemCatalogEntry } from "@/lib/interface";
+
+interface HuntItemCatalogProps {
+  items: HuntItemCatalogEntry[];
+  loading: boolean;
+}
+
+const HuntItemCatalog = ({ items, loading }: HuntItemCatalogProps) => {
+  if (loading) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-600 dark:text-gray-400">
+          Loading hunt items...
+        </p>
+      </div>
+    );
+  }
+
+  if (items.length === 0) {
+    return (
+      <div className="text-center py-8">
+        <p className="text-gray-600 dark:text-gray-400">No hunt items found.</p>
+      </div>
+    );
+  }
+
+  return (
+    <div className="space-y-3">
+      {items.map((item) => (
+        <div
+          key={item._id}
+          className="flex items-start gap-3 p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+        >
+          {item.claimed ? (
+            <CheckCircle className="w-5 h-5 mt-0.5 text-green-600 shrink-0" />
+          ) : (
+            <Circle className="w-5 h-5 mt-0.5 text-gray-400 shrink-0" />
+          )}
+          <div className="flex-1">
+            <div className="flex items-center gap-3 mb-1">
+              <h4 className="font-medium text-gray-900 dark:text-white">
+                {item.name}
+              </h4>
+              <span className="px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 text-xs rounded">
+                {item.points} pts
+              </span>
+              {item.remaining !== undefined && !item.claimed && (
+                <span className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 text-xs rounded">
+                  {item.remaining} left
+                </span>
+              )}
+              {item.kind === "puzzle" && (
+                <span className="px-2 py-1 bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 text-xs rounded">
+                  Puzzle
+                </span>
+              )}
+              {item.tags?.map((tag) => (
+                <span
+                  key={tag}
+                  className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs rounded"
+                >
+                  #{tag}
+                </span>
+              ))}
+            </div>
+            {item.description && (
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {item.description}
+              </p>
+            )}
+          </div>
+        </div>
+      ))}
+    </div>
+  );
+};
+
+export default HuntItemCatalog;
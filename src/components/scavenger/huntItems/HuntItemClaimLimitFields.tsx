@@ -0,0 +1,84 @@
+"use client";
+
+import { useState } from "react";
+import { PointTier } from "@/lib/interface";
+
+interface ClaimLimitValue {
+  claimCap?: number | null;
+  pointTiers?: PointTier[];
+}
+
+interface HuntItemClaimLimitFieldsProps {
+  value: ClaimLimitValue;
+  onChange: (value: Required<ClaimLimitValue>) => void;
+  disabled?: boolean;
+}
+
+// Tiers are edited as "position:points" lines, e.g. "20:50"
+const formatTiers = (tiers: PointTier[] = []) =>
+  tiers.map((tier) => `${tier.upTo}:${tier.points}`).join("\n");
+
+const parseTiers = (text: string): PointTier[] =>
+  text
+    .split("\n")
+    .map((line) => line.split(":").map((part) => parseInt(part.trim())))
+    .filter(([upTo, points]) => !isNaN(upTo) && upTo > 0 && !isNaN(points))
+    .map(([upTo, points]) => ({ upTo, points }));
+
+const HuntItemClaimLimitFields = ({
+  value,
+  onChange,
+  disabled = false,
+}: HuntItemClaimLimitFieldsProps) => {
+  const [tiersText, setTiersText] = useState(formatTiers(value.pointTiers));
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+  return (
+    <div className="space-y-3">
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Claim Cap
+        </label>
+        <input
+          type="number"
+          min={1}
+          value={value.claimCap ?? ""}
+          onChange={(e) =>
+            onChange({
+              claimCap: parseInt(e.target.value) || null,
+              pointTiers: value.pointTiers || [],
+            })
+          }
+          className={inputClassName}
+          placeholder="Unlimited"
+          disabled={disabled}
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          First-Finder Bonuses (one per line as position:points)
+        </label>
+        <textarea
+          value={tiersText}
+          onChange={(e) => {
+            setTiersText(e.target.value);
+            onChange({
+              claimCap: value.claimCap ?? null,
+              pointTiers: parseTiers(e.target.value),
+            });
+          }}
+          className={inputClassName}
+          placeholder={
+            "e.g. 20:50 gives the first 20 finders 50 points;\neveryone after gets the regular points"
+          }
+          rows={2}
+          disabled={disabled}
+        />
+      </div>
+    </div>
+  );
+};
+
+export default HuntItemClaimLimitFields;
@@ -0,0 +1,110 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Trash2 } from "lucide-react";
+import Modal from "@/components/ui/modal";
+import { HuntItem } from "@/lib/interface";
+
+type PointsMode = "keep" | "revoke";
+
+interface HuntItemDeleteModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item: HuntItem | null;
+  onConfirm: (id: string, pointsMode: PointsMode) => Promise<void>;
+}
+
+// Permanent deletion of an archived item, with a choice of what happens to
+// the points its claimers were awarded
+const HuntItemDeleteModal = ({
+  isOpen,
+  onClose,
+  item,
+  onConfirm,
+}: HuntItemDeleteModalProps) => {
+  const [pointsMode, setPointsMode] = useState<PointsMode>("keep");
+  const [isDeleting, setIsDeleting] = useState(false);
+
+  useEffect(() => {
+    if (isOpen) {
+      setPointsMode("keep");
+      setIsDeleting(false);
+    }
+  }, [isOpen]);
+
+  if (!item) return null;
+
+  const handleDelete = async () => {
+    setIsDeleting(true);
+    await onConfirm(item._id, pointsMode);
+    setIsDeleting(false);
+    onClose();
+  };
+
+  const claimCount = item.claimCount || 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={`Delete ${item.name}`}
+      className="max-w-md"
+    >
+      <div className="space-y-4">
+        <p className="text-sm text-gray-700 dark:text-gray-300">
+          This permanently deletes the hunt item and removes it from the claim
+          history of everyone who claimed it ({claimCount} claim
+          {claimCount === 1 ? "" : "s"}). This can&apos;t be undone.
+        </p>
+
+        <div className="space-y-2">
+          <label className="flex items-start gap-2 text-sm text-gray-900 dark:text-white">
+            <input
+              type="radio"
+              name="pointsMode"
+              checked={pointsMode === "keep"}
+              onChange={() => setPointsMode("keep")}
+              className="mt-1"
+            />
+            <span>
+              <strong>Keep points</strong> - claimers keep the points they were
+              awarded
+            </span>
+          </label>
+          <label className="flex items-start gap-2 text-sm text-gray-900 dark:text-white">
+            <input
+              type="radio"
+              name="pointsMode"
+              checked={pointsMode === "revoke"}
+              onChange={() => setPointsMode("revoke")}
+              className="mt-1"
+            />
+            <span>
+              <strong>Revoke points</strong> - take the points back from every
+              claimer (recorded in their points history)
+            </span>
+          </label>
+        </div>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleDelete}
+            disabled={isDeleting}
+            className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Trash2 size={16} />
+            {isDeleting ? "Deleting..." : "Delete Permanently"}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default HuntItemDeleteModal;
@@ -1,11 +1,21 @@
 "use client";
 
-import { Edit2, Trash2, QrCode } from "lucide-react";
+import {
+  Edit2,
+  Trash2,
+  QrCode,
+  Lightbulb,
+  Clock,
+  Archive,
+  ArchiveRestore,
+} from "lucide-react";
 import { HuntItem } from "@/lib/interface";
 
 interface HuntItemDisplayProps {
   item: HuntItem;
   onEdit: () => void;
+  onArchive: () => void;
+  onRestore: () => void;
   onDelete: () => void;
   onShowQR: () => void;
 }
@@ -13,9 +23,14 @@ interface HuntItemDisplayProps {
 const HuntItemDisplay = ({
   item,
   onEdit,
+  onArchive,
+  onRestore,
   onDelete,
   onShowQR,
 }: HuntItemDisplayProps) => {
+  const isPuzzle = item.kind === "puzzle";
+  const isArchived = !!item.archivedAt;
+
   return (
     <div className="flex justify-between items-start">
       <div className="flex-1">
@@ -26,38 +41,133 @@ const HuntItemDisplay = ({
           <span className="px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 text-xs rounded">
             {item.points} pts
           </span>
+          {isPuzzle && (
+            <span className="px-2 py-1 bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200 text-xs rounded">
+              Puzzle
+            </span>
+          )}
+          {!!item.claimCap && (
+            <span className="px-2 py-1 bg-yellow-100 dark:bg-yellow-900 text-yellow-800 dark:text-yellow-200 text-xs rounded">
+              {item.claimCount || 0}/{item.claimCap} claimed
+            </span>
+          )}
+          {item.teamScope === "team" && (
+            <span className="px-2 py-1 bg-indigo-100 dark:bg-indigo-900 text-indigo-800 dark:text-indigo-200 text-xs rounded">
+              Once per team
+            </span>
+          )}
+          {item.tags?.map((tag) => (
+            <span
+              key={tag}
+              className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs rounded"
+            >
+              #{tag}
+            </span>
+          ))}
+          {item.rotating && (
+            <span className="px-2 py-1 bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200 text-xs rounded">
+              Rotating
+            </span>
+          )}
+          {isArchived && (
+            <span className="px-2 py-1 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 text-xs rounded">
+              Archived
+            </span>
+          )}
         </div>
         {item.description && (
           <p className="text-sm text-gray-600 dark:text-gray-400 mb-2">
             {item.description}
           </p>
         )}
-        <p className="text-xs text-gray-500 dark:text-gray-500">
-          ID: {item.identifier}
-        </p>
+        {isPuzzle ? (
+          <>
+            <p className="text-sm text-gray-700 dark:text-gray-300 italic mb-1">
+              {item.prompt}
+            </p>
+            {!!item.hints?.length && (
+              <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-500">
+                <Lightbulb size={12} />
+                {item.hints.length} hint{item.hints.length === 1 ? "" : "s"}
+              </p>
+            )}
+          </>
+        ) : (
+          <p className="text-xs text-gray-500 dark:text-gray-500">
+            ID: {item.identifier}
+            {item.shortCode && <> · Code: {item.shortCode}</>}
+          </p>
+        )}
+        {!!item.pointTiers?.length && (
+          <p className="text-xs text-gray-500 dark:text-gray-500 mt-1">
+            Bonuses:{" "}
+            {item.pointTiers
+              .map((tier) => `first ${tier.upTo} get ${tier.points} pts`)
+              .join(", ")}
+          </p>
+        )}
+        {(item.scheduleLink || item.availableFrom || item.availableUntil) && (
+          <p className="flex items-center gap-1 text-xs text-gray-500 dark:text-gray-500 mt-1">
+            <Clock size={12} />
+            {item.scheduleLink
+              ? "Claimable while its schedule event is running"
+              : `Claimable ${
+                  item.availableFrom
+                    ? `from ${new Date(item.availableFrom).toLocaleString()}`
+                    : ""
+                } ${
+                  item.availableUntil
+                    ? `until ${new Date(item.availableUntil).toLocaleString()}`
+                    : ""
+                }`}
+          </p>
+        )}
       </div>
       <div className="flex gap-2">
-        <button
-          onClick={onShowQR}
-          className="p-2 text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 rounded transition-colors"
-          title="Show QR Code"
-        >
-          <QrCode size={16} />
-        </button>
-        <button
-          onClick={onEdit}
-          className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
-          title="Edit Item"
-        >
-          <Edit2 size={16} />
-        </button>
-        <button
-          onClick={onDelete}
-          className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
-          title="Delete Item"
-        >
-          <Trash2 size={16} />
-        </button>
+        {isArchived ? (
+          <>
+            <button
+              onClick={onRestore}
+              className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
+              title="Restore Item"
+            >
+              <ArchiveRestore size={16} />
+            </button>
+            <button
+              onClick={onDelete}
+              className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+              title="Delete Permanently"
+            >
+              <Trash2 size={16} />
+            </button>
+          </>
+        ) : (
+          <>
+            {!isPuzzle && (
+              <button
+                onClick={onShowQR}
+                className="p-2 text-green-600 dark:text-green-400 hover:bg-green-50 dark:hover:bg-green-900/20 rounded transition-colors"
+                title={item.rotating ? "Show Live QR Display" : "Show QR Code"}
+              >
+                <QrCode size={16} />
+              </button>
+            )}
+            <button
+              onClick={onEdit}
+              className="p-2 text-blue-600 dark:text-blue-400 hover:bg-blue-50 dark:hover:bg-blue-900/20 rounded transition-colors"
+              title="Edit Item"
+            >
+              <Edit2 size={16} />
+            </button>
+            <button
+              onClick={onArchive}
+              className="p-2 text-red-600 dark:text-red-400 hover:bg-red-50 dark:hover:bg-red-900/20 rounded transition-colors"
+              title="Archive Item"
+            >
+              <Archive size={16} />
+            </button>
+          </>
+        )}
       </div>
     </div>
   );
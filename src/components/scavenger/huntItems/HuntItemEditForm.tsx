@@ -1,21 +1,57 @@
 "use client";
 
+import { useState, useEffect } from "react";
 import { Save, X } from "lucide-react";
-import { HuntItem } from "@/lib/interface";
+import { HuntItem, HuntItemTeamScope } from "@/lib/interface";
+import HuntItemWindowFields from "./HuntItemWindowFields";
+import HuntItemClaimLimitFields from "./HuntItemClaimLimitFields";
 
 interface HuntItemEditFormProps {
   item: HuntItem;
+  originalPoints: number;
   onSave: (item: HuntItem) => void;
   onCancel: () => void;
   onChange: (item: HuntItem) => void;
 }
 
+interface PointsImpact {
+  usersAffected: number;
+  pointsPerUser: number;
+  totalPoints: number;
+}
+
 const HuntItemEditForm = ({
   item,
+  originalPoints,
   onSave,
   onCancel,
   onChange,
 }: HuntItemEditFormProps) => {
+  const [impact, setImpact] = useState<PointsImpact | null>(null);
+  const pointsChanged = item.points !== originalPoints;
+
+  // Preview how many past claimers a points change would affect
+  useEffect(() => {
+    setImpact(null);
+    if (item.points === originalPoints) return;
+
+    const timeout = setTimeout(async () => {
+      try {
+        const response = await fetch(
+          `/api/hunt-items/${item._id}/points-impact?points=${item.points}`
+        );
+        const data = await response.json();
+        if (data.success) setImpact(data);
+      } catch (err) {
+        console.error("Error previewing points change:", err);
+      }
+    }, 300);
+
+    return () => clearTimeout(timeout);
+  }, [item._id, item.points, originalPoints]);
+
+  const formatPoints = (points: number) => `${points > 0 ? "+" : ""}${points}`;
+
   return (
     <div className="space-y-3">
       <div>
@@ -52,10 +88,129 @@ const HuntItemEditForm = ({
           }
           className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
         />
+        {pointsChanged && (
+          <div className="mt-2 space-y-1">
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={!!item.applyToPastClaims}
+                onChange={(e) =>
+                  onChange({ ...item, applyToPastClaims: e.target.checked })
+                }
+              />
+              Apply to past claims
+            </label>
+            {impact && (
+              <p className="text-xs text-gray-500 dark:text-gray-400">
+                {impact.usersAffected === 0
+                  ? "No past claimers would be affected."
+                  : `${impact.usersAffected} past claimer${
+                      impact.usersAffected === 1 ? "" : "s"
+                    } would get ${formatPoints(impact.pointsPerUser)} points each (${formatPoints(
+                      impact.totalPoints
+                    )} total). Claimers who received a bonus tier are not changed.`}
+              </p>
+            )}
+          </div>
+        )}
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Tags (comma separated)
+        </label>
+        <input
+          type="text"
+          value={(item.tags || []).join(",")}
+          onChange={(e) =>
+            onChange({ ...item, tags: e.target.value.split(",") })
+          }
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        />
+      </div>
+      <div>
+        <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+          Counts once per
+        </label>
+        <select
+          value={item.teamScope || "member"}
+          onChange={(e) =>
+            onChange({
+              ...item,
+              teamScope: e.target.value as HuntItemTeamScope,
+            })
+          }
+          className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+        >
+          <option value="member">Member</option>
+          <option value="team">Team</option>
+        </select>
       </div>
-      <p className="text-xs text-gray-500 dark:text-gray-500">
-        Identifier: {item.identifier} (cannot be changed)
-      </p>
+      {item.kind === "puzzle" ? (
+        <>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Prompt
+            </label>
+            <textarea
+              value={item.prompt || ""}
+              onChange={(e) => onChange({ ...item, prompt: e.target.value })}
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              rows={3}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Replace Accepted Answers (one per line)
+            </label>
+            <textarea
+              value={(item.answers || []).join("\n")}
+              onChange={(e) =>
+                onChange({ ...item, answers: e.target.value.split("\n") })
+              }
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              placeholder="Leave empty to keep the current answers"
+              rows={2}
+            />
+          </div>
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Hints (one per line)
+            </label>
+            <textarea
+              value={(item.hints || []).join("\n")}
+              onChange={(e) =>
+                onChange({ ...item, hints: e.target.value.split("\n") })
+              }
+              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              rows={2}
+            />
+          </div>
+        </>
+      ) : (
+        <>
+          <p className="text-xs text-gray-500 dark:text-gray-500">
+            Identifier: {item.identifier} (cannot be changed)
+          </p>
+          <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={!!item.rotating}
+              onChange={(e) =>
+                onChange({ ...item, rotating: e.target.checked })
+              }
+            />
+            Rotating QR code
+          </label>
+        </>
+      )}
+      <HuntItemClaimLimitFields
+        value={item}
+        onChange={(limits) => onChange({ ...item, ...limits })}
+      />
+      <HuntItemWindowFields
+        value={item}
+        onChange={(window) => onChange({ ...item, ...window })}
+      />
       <div className="flex gap-2">
         <button
           onClick={() => onSave(item)}
@@ -0,0 +1,226 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Download, Upload } from "lucide-react";
+import Modal from "@/components/ui/modal";
+
+interface HuntItemImportModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onImported: () => void;
+}
+
+type ImportFormat = "csv" | "json";
+
+interface ImportRow {
+  row: number;
+  name?: string;
+  identifier?: string;
+  kind?: string;
+  error?: string;
+}
+
+const HuntItemImportModal = ({
+  isOpen,
+  onClose,
+  onImported,
+}: HuntItemImportModalProps) => {
+  const [fileName, setFileName] = useState<string | null>(null);
+  const [format, setFormat] = useState<ImportFormat>("csv");
+  const [content, setContent] = useState("");
+  const [rows, setRows] = useState<ImportRow[] | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const [success, setSuccess] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Start over each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setFileName(null);
+      setContent("");
+      setRows(null);
+      setError(null);
+      setSuccess(null);
+    }
+  }, [isOpen]);
+
+  const handleFileChange = async (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    if (!file) return;
+
+    setFileName(file.name);
+    setFormat(file.name.toLowerCase().endsWith(".json") ? "json" : "csv");
+    setContent(await file.text());
+    setRows(null);
+    setError(null);
+    setSuccess(null);
+  };
+
+  const submitImport = async (dryRun: boolean) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await fetch("/api/hunt-items/import", {
+        method: "POST",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ format, content, dryRun }),
+      });
+
+      const data = await response.json();
+
+      if (data.rows) {
+        setRows(data.rows);
+      }
+
+      if (!data.success) {
+        setError(data.error || "Failed to import hunt items");
+        return;
+      }
+
+      if (!dryRun) {
+        setSuccess(`Imported ${data.createdCount} hunt items`);
+        setContent("");
+        setFileName(null);
+        onImported();
+      }
+    } catch (err) {
+      setError("Failed to import hunt items");
+      console.error("Error importing hunt items:", err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const invalidCount = rows?.filter((row) => row.error).length || 0;
+  const canImport = !!rows && rows.length > 0 && invalidCount === 0;
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Import / Export Hunt Items"
+      className="max-w-3xl max-h-[70vh]"
+    >
+      <div className="space-y-6">
+        {/* Export */}
+        <div className="flex justify-between items-center">
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Download every hunt item in the import format.
+          </p>
+          <div className="flex gap-2">
+            {(["csv", "json"] as const).map((exportFormat) => (
+              <a
+                key={exportFormat}
+                href={`/api/hunt-items/export?format=${exportFormat}`}
+                className="flex items-center gap-2 px-3 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors text-sm"
+              >
+                <Download size={16} />
+                Export {exportFormat.toUpperCase()}
+              </a>
+            ))}
+          </div>
+        </div>
+
+        {/* Import */}
+        <div className="border-t border-gray-200 dark:border-gray-700 pt-6 space-y-4">
+          <div>
+            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+              CSV or JSON file
+            </label>
+            <input
+              type="file"
+              accept=".csv,.json,text/csv,application/json"
+              onChange={handleFileChange}
+              className="text-sm text-gray-900 dark:text-white"
+            />
+            <p className="mt-1 text-xs text-gray-500 dark:text-gray-400">
+              Use an export as a template. Separate hints, answers and point
+              tiers (claims:points) with &quot;|&quot;. Puzzle answers are never
+              exported, so fill them in before importing puzzles.
+            </p>
+          </div>
+
+          {error && (
+            <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+              <p className="text-red-800 dark:text-red-200 text-sm">{error}</p>
+            </div>
+          )}
+
+          {success && (
+            <div className="p-3 bg-green-50 dark:bg-green-900/20 border border-green-200 dark:border-green-800 rounded-lg">
+              <p className="text-green-800 dark:text-green-200 text-sm">
+                {success}
+              </p>
+            </div>
+          )}
+
+          {rows && rows.length > 0 && (
+            <div>
+              <p className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Preview: {rows.length - invalidCount} valid, {invalidCount} with
+                errors
+              </p>
+              <div className="max-h-64 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg">
+                <table className="w-full text-sm">
+                  <thead className="bg-gray-50 dark:bg-gray-700 text-left text-gray-700 dark:text-gray-300">
+                    <tr>
+                      <th className="px-3 py-2">Row</th>
+                      <th className="px-3 py-2">Name</th>
+                      <th className="px-3 py-2">Identifier</th>
+                      <th className="px-3 py-2">Kind</th>
+                      <th className="px-3 py-2">Status</th>
+                    </tr>
+                  </thead>
+                  <tbody className="divide-y divide-gray-200 dark:divide-gray-700 text-gray-900 dark:text-white">
+                    {rows.map((row) => (
+                      <tr key={row.row}>
+                        <td className="px-3 py-2">{row.row}</td>
+                        <td className="px-3 py-2">{row.name || "-"}</td>
+                        <td className="px-3 py-2 font-mono">
+                          {row.identifier || "-"}
+                        </td>
+                        <td className="px-3 py-2">{row.kind}</td>
+                        <td
+                          className={`px-3 py-2 ${
+                            row.error
+                              ? "text-red-600 dark:text-red-400"
+                              : "text-green-600 dark:text-green-400"
+                          }`}
+                        >
+                          {row.error || "OK"}
+                        </td>
+                      </tr>
+                    ))}
+                  </tbody>
+                </table>
+              </div>
+            </div>
+          )}
+
+          <div className="flex justify-end gap-2">
+            <button
+              onClick={() => submitImport(true)}
+              disabled={!content || isSubmitting}
+              className="px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              {fileName ? `Preview ${fileName}` : "Preview"}
+            </button>
+            <button
+              onClick={() => submitImport(false)}
+              disabled={!content || !canImport || isSubmitting}
+              className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+            >
+              <Upload size={16} />
+              {isSubmitting
+                ? "Working..."
+                : `Import ${rows?.length || 0} Items`}
+            </button>
+          </div>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default HuntItemImportModal;
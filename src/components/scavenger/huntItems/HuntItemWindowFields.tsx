@@ -0,0 +1,175 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Day, HuntItemScheduleLink } from "@/lib/interface";
+
+type WindowMode = "always" | "custom" | "schedule";
+
+interface ClaimWindowValue {
+  availableFrom?: string | null;
+  availableUntil?: string | null;
+  scheduleLink?: HuntItemScheduleLink | null;
+}
+
+interface HuntItemWindowFieldsProps {
+  value: ClaimWindowValue;
+  onChange: (value: Required<ClaimWindowValue>) => void;
+  disabled?: boolean;
+}
+
+// Convert an ISO date to the local "YYYY-MM-DDTHH:MM" format used by datetime-local inputs
+const toLocalInputValue = (iso?: string | null) => {
+  if (!iso) return "";
+  const date = new Date(iso);
+  const pad = (n: number) => n.toString().padStart(2, "0");
+  return `${date.getFullYear()}-${pad(date.getMonth() + 1)}-${pad(
+    date.getDate()
+  )}T${pad(date.getHours())}:${pad(date.getMinutes())}`;
+};
+
+const fromLocalInputValue = (value: string) =>
+  value ? new Date(value).toISOString() : null;
+
+const HuntItemWindowFields = ({
+  value,
+  onChange,
+  disabled = false,
+}: HuntItemWindowFieldsProps) => {
+  const [mode, setMode] = useState<WindowMode>(
+    value.scheduleLink
+      ? "schedule"
+      : value.availableFrom || value.availableUntil
+        ? "custom"
+        : "always"
+  );
+  const [days, setDays] = useState<Day[]>([]);
+
+  useEffect(() => {
+    if (mode !== "schedule" || days.length > 0) return;
+
+    const fetchSchedule = async () => {
+      try {
+        const response = await fetch("/api/schedule");
+        const data = await response.json();
+        setDays(Array.isArray(data) ? data : []);
+      } catch (err) {
+        console.error("Error fetching schedule:", err);
+      }
+    };
+
+    fetchSchedule();
+  }, [mode, days.length]);
+
+  const current = {
+    availableFrom: value.availableFrom || null,
+    availableUntil: value.availableUntil || null,
+    scheduleLink: value.scheduleLink || null,
+  };
+
+  const handleModeChange = (nextMode: WindowMode) => {
+    setMode(nextMode);
+    if (nextMode === "always") {
+      onChange({
+        availableFrom: null,
+        availableUntil: null,
+        scheduleLink: null,
+      });
+    } else if (nextMode === "custom") {
+      onChange({ ...current, scheduleLink: null });
+    } else {
+      onChange({ ...current, availableFrom: null, availableUntil: null });
+    }
+  };
+
+  const inputClassName =
+    "w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white";
+
+  return (
+    <div className="space-y-2">
+      <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+        Claimable
+      </label>
+      <select
+        value={mode}
+        onChange={(e) => handleModeChange(e.target.value as WindowMode)}
+        className={inputClassName}
+        disabled={disabled}
+      >
+        <option value="always">At any time</option>
+        <option value="custom">During a custom window</option>
+        <option value="schedule">While a schedule event is running</option>
+      </select>
+
+      {mode === "custom" && (
+        <div className="grid grid-cols-2 gap-2">
+          <div>
+            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+              From
+            </label>
+            <input
+              type="datetime-local"
+              value={toLocalInputValue(current.availableFrom)}
+              onChange={(e) =>
+                onChange({
+                  ...current,
+                  availableFrom: fromLocalInputValue(e.target.value),
+                })
+              }
+              className={inputClassName}
+              disabled={disabled}
+            />
+          </div>
+          <div>
+            <label className="block text-xs text-gray-600 dark:text-gray-400 mb-1">
+              Until
+            </label>
+            <input
+              type="datetime-local"
+              value={toLocalInputValue(current.availableUntil)}
+              onChange={(e) =>
+                onChange({
+                  ...current,
+                  availableUntil: fromLocalInputValue(e.target.value),
+                })
+              }
+              className={inputClassName}
+              disabled={disabled}
+            />
+          </div>
+        </div>
+      )}
+
+      {mode === "schedule" && (
+        <select
+          value={
+            current.scheduleLink
+              ? `${current.scheduleLink.day}:${current.scheduleLink.scheduleItem}`
+              : ""
+          }
+          onChange={(e) => {
+            const [day, scheduleItem] = e.target.value.split(":");
+            onChange({
+              ...current,
+              scheduleLink: day && scheduleItem ? { day, scheduleItem } : null,
+            });
+          }}
+          className={inputClassName}
+          disabled={disabled}
+        >
+          <option value="">Select an event</option>
+          {days.map((day) => (
+            <optgroup key={day._id} label={`${day.day} (${day.date})`}>
+              {day.schedule.map((event) => (
+                <option key={event._id} value={`${day._id}:${event._id}`}>
+                  {event.startTime}-{event.endTime} {event.title}
+                </option>
+              ))}
+            </optgroup>
+          ))}
+        </select>
+      )}
+    </div>
+  );
+};
+
+export default HuntItemWindowFields;
@@ -11,7 +11,9 @@ interface HuntItemsListProps {
   onEdit: (item: HuntItem) => void;
   onSave: (item: HuntItem) => void;
   onCancelEdit: () => void;
-  onDelete: (id: string) => void;
+  onArchive: (id: string) => void;
+  onRestore: (id: string) => void;
+  onDelete: (item: HuntItem) => void;
   onShowQR: (item: HuntItem) => void;
   onEditingItemChange: (item: HuntItem) => void;
 }
@@ -23,6 +25,8 @@ const HuntItemsList = ({
   onEdit,
   onSave,
   onCancelEdit,
+  onArchive,
+  onRestore,
   onDelete,
   onShowQR,
   onEditingItemChange,
@@ -50,11 +54,14 @@ const HuntItemsList = ({
       {items.map((item) => (
         <div
           key={item._id}
-          className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+          className={`p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800 ${
+            item.archivedAt ? "opacity-60" : ""
+          }`}
         >
           {editingItem?._id === item._id ? (
             <HuntItemEditForm
               item={editingItem}
+              originalPoints={item.points}
               onSave={onSave}
               onCancel={onCancelEdit}
               onChange={onEditingItemChange}
@@ -63,7 +70,9 @@ const HuntItemsList = ({
             <HuntItemDisplay
               item={item}
               onEdit={() => onEdit(item)}
-              onDelete={() => onDelete(item._id)}
+              onArchive={() => onArchive(item._id)}
+              onRestore={() => onRestore(item._id)}
+              onDelete={() => onDelete(item)}
               onShowQR={() => onShowQR(item)}
             />
           )}
@@ -0,0 +1,159 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Printer } from "lucide-react";
+import Modal from "@/components/ui/modal";
+import { HuntItem } from "@/lib/interface";
+
+interface PrintSheetModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  items: HuntItem[];
+}
+
+// Must match the layouts supported by the print sheet route
+const TILES_PER_PAGE_OPTIONS = [1, 2, 4, 6, 9, 12, 20];
+
+// Only static QR items can be printed - rotating items need a live display
+const isPrintable = (item: HuntItem) =>
+  item.kind !== "puzzle" && !item.rotating && !!item.identifier;
+
+const PrintSheetModal = ({ isOpen, onClose, items }: PrintSheetModalProps) => {
+  const printableItems = items.filter(isPrintable);
+
+  const [selectedIds, setSelectedIds] = useState<Set<string>>(new Set());
+  const [pageSize, setPageSize] = useState("letter");
+  const [tilesPerPage, setTilesPerPage] = useState(6);
+
+  // Select every printable item each time the modal opens
+  useEffect(() => {
+    if (isOpen) {
+      setSelectedIds(new Set(items.filter(isPrintable).map((i) => i._id)));
+    }
+  }, [isOpen, items]);
+
+  const toggleItem = (id: string) => {
+    setSelectedIds((prev) => {
+      const next = new Set(prev);
+      if (next.has(id)) {
+        next.delete(id);
+      } else {
+        next.add(id);
+      }
+      return next;
+    });
+  };
+
+  const allSelected = selectedIds.size === printableItems.length;
+
+  const handlePrint = () => {
+    const params = new URLSearchParams({
+      pageSize,
+      perPage: tilesPerPage.toString(),
+    });
+    if (!allSelected) {
+      params.set("ids", Array.from(selectedIds).join(","));
+    }
+    window.open(`/api/hunt-items/print-sheet?${params}`, "_blank");
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Print QR Sheet"
+      className="max-w-lg"
+    >
+      <div className="space-y-4">
+        <div className="grid grid-cols-2 gap-3">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Page size
+            </label>
+            <select
+              value={pageSize}
+              onChange={(e) => setPageSize(e.target.value)}
+              className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            >
+              <option value="letter">Letter</option>
+              <option value="a4">A4</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+              QR codes per page
+            </label>
+            <select
+              value={tilesPerPage}
+              onChange={(e) => setTilesPerPage(parseInt(e.target.value))}
+              className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            >
+              {TILES_PER_PAGE_OPTIONS.map((option) => (
+                <option key={option} value={option}>
+                  {option}
+                </option>
+              ))}
+            </select>
+          </div>
+        </div>
+
+        <div>
+          <div className="flex justify-between items-center mb-2">
+            <span className="text-sm font-medium text-gray-700 dark:text-gray-300">
+              Items ({selectedIds.size} of {printableItems.length})
+            </span>
+            <button
+              onClick={() =>
+                setSelectedIds(
+                  allSelected
+                    ? new Set()
+                    : new Set(printableItems.map((i) => i._id))
+                )
+              }
+              className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+            >
+              {allSelected ? "Select none" : "Select all"}
+            </button>
+          </div>
+          {printableItems.length === 0 ? (
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              There are no static QR items to print.
+            </p>
+          ) : (
+            <div className="max-h-64 overflow-y-auto border border-gray-200 dark:border-gray-700 rounded-lg divide-y divide-gray-200 dark:divide-gray-700">
+              {printableItems.map((item) => (
+                <label
+                  key={item._id}
+                  className="flex items-center gap-2 px-3 py-2 text-sm text-gray-900 dark:text-white"
+                >
+                  <input
+                    type="checkbox"
+                    checked={selectedIds.has(item._id)}
+                    onChange={() => toggleItem(item._id)}
+                  />
+                  <span className="flex-1">{item.name}</span>
+                  <span className="text-gray-500 dark:text-gray-400">
+                    {item.points} pts
+                  </span>
+                </label>
+              ))}
+            </div>
+          )}
+        </div>
+
+        <div className="flex justify-end">
+          <button
+            onClick={handlePrint}
+            disabled={selectedIds.size === 0}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Printer size={16} />
+            Open Print Sheet
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default PrintSheetModal;
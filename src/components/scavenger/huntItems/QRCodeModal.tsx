@@ -1,9 +1,15 @@
 "use client";
 
+import { useState } from "react";
 import { Download } from "lucide-react";
 import Modal from "@/components/ui/modal";
 import { HuntItem } from "@/lib/interface";
-import { generateAndDownloadQR, getQRCodeURL } from "../utils/qrCode";
+import {
+  generateAndDownloadQR,
+  QRErrorCorrectionLevel,
+  QRImageFormat,
+} from "../utils/qrCode";
+import { useQRCode } from "../hooks/useQRCode";
 
 interface QRCodeModalProps {
   isOpen: boolean;
@@ -13,11 +19,20 @@ interface QRCodeModalProps {
 }
 
 const QRCodeModal = ({ isOpen, onClose, item, onError }: QRCodeModalProps) => {
-  if (!item) return null;
+  const [errorCorrectionLevel, setErrorCorrectionLevel] =
+    useState<QRErrorCorrectionLevel>("H");
+  const [margin, setMargin] = useState(4);
+  const [withLogo, setWithLogo] = useState(true);
 
-  const handleDownload = async () => {
+  const options = { errorCorrectionLevel, margin, withLogo };
+  const qrCode = useQRCode(item?.identifier || null, { size: 250, ...options });
+
+  if (!item?.identifier) return null;
+  const identifier = item.identifier;
+
+  const handleDownload = async (format: QRImageFormat) => {
     try {
-      await generateAndDownloadQR(item.identifier, item.name);
+      await generateAndDownloadQR(identifier, item.name, format, options);
     } catch (err) {
       onError(
         err instanceof Error ? err.message : "Failed to download QR code"
@@ -34,23 +49,84 @@ const QRCodeModal = ({ isOpen, onClose, item, onError }: QRCodeModalProps) => {
     >
       <div className="text-center space-y-4">
         <div className="flex justify-center">
-          {/* eslint-disable-next-line @next/next/no-img-element */}
-          <img
-            src={getQRCodeURL(item.identifier)}
-            alt={`QR Code for ${item.identifier}`}
-            className="border rounded-lg"
-          />
+          {qrCode ? (
+            /* eslint-disable-next-line @next/next/no-img-element */
+            <img
+              src={qrCode}
+              alt={`QR Code for ${identifier}`}
+              className="border rounded-lg"
+            />
+          ) : (
+            <div className="w-[250px] h-[250px] border rounded-lg" />
+          )}
         </div>
         <p className="text-sm text-gray-600 dark:text-gray-400">
-          <strong>Identifier:</strong> {item.identifier}
+          <strong>Identifier:</strong> {identifier}
         </p>
-        <button
-          onClick={handleDownload}
-          className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors mx-auto"
-        >
-          <Download size={16} />
-          Download QR Code
-        </button>
+        <div className="grid grid-cols-3 gap-3 text-left">
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Error correction
+            </label>
+            <select
+              value={errorCorrectionLevel}
+              onChange={(e) =>
+                setErrorCorrectionLevel(
+                  e.target.value as QRErrorCorrectionLevel
+                )
+              }
+              className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            >
+              <option value="L">Low (7%)</option>
+              <option value="M">Medium (15%)</option>
+              <option value="Q">Quartile (25%)</option>
+              <option value="H">High (30%)</option>
+            </select>
+          </div>
+          <div>
+            <label className="block text-xs font-medium text-gray-700 dark:text-gray-300 mb-1">
+              Margin
+            </label>
+            <input
+              type="number"
+              min="0"
+              max="10"
+              value={margin}
+              onChange={(e) => setMargin(parseInt(e.target.value) || 0)}
+              className="w-full px-2 py-1 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white text-sm"
+            />
+          </div>
+          <label className="flex items-end gap-2 pb-1 text-sm text-gray-700 dark:text-gray-300">
+            <input
+              type="checkbox"
+              checked={withLogo}
+              onChange={(e) => setWithLogo(e.target.checked)}
+            />
+            CUSEC logo
+          </label>
+        </div>
+        {withLogo && errorCorrectionLevel !== "H" && (
+          <p className="text-xs text-orange-600 dark:text-orange-400">
+            Use high error correction with the logo so the code still scans
+            reliably.
+          </p>
+        )}
+        <div className="flex justify-center gap-2">
+          <button
+            onClick={() => handleDownload("png")}
+            className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 transition-colors"
+          >
+            <Download size={16} />
+            Download PNG
+          </button>
+          <button
+            onClick={() => handleDownload("svg")}
+            className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+          >
+            <Download size={16} />
+            Download SVG
+          </button>
+        </div>
       </div>
     </Modal>
   );
@@ -0,0 +1,178 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import Modal from "@/components/ui/modal";
+import { useQRCode } from "../hooks/useQRCode";
+
+interface RotatingHuntItem {
+  _id: string;
+  name: string;
+}
+
+interface RotatingQRModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  item?: RotatingHuntItem | null; // Skips the item picker when provided
+}
+
+const RotatingQRModal = ({ isOpen, onClose, item }: RotatingQRModalProps) => {
+  const [items, setItems] = useState<RotatingHuntItem[]>([]);
+  const [selectedItem, setSelectedItem] = useState<RotatingHuntItem | null>(
+    null
+  );
+  const [token, setToken] = useState<string | null>(null);
+  const [expiresAt, setExpiresAt] = useState<Date | null>(null);
+  const [secondsLeft, setSecondsLeft] = useState(0);
+  const [error, setError] = useState<string | null>(null);
+  const qrCode = useQRCode(token, { size: 300 });
+
+  // Fetch the rotating items a volunteer can display
+  useEffect(() => {
+    if (!isOpen) return;
+
+    setSelectedItem(item || null);
+    setToken(null);
+    setError(null);
+
+    if (item) return;
+
+    const fetchItems = async () => {
+      try {
+        const response = await fetch("/api/admin/rotating-qr");
+        const data = await response.json();
+
+        if (data.success) {
+          setItems(data.huntItems);
+        } else {
+          setError(data.error || "Failed to fetch hunt items");
+        }
+      } catch (err) {
+        setError("Failed to fetch hunt items");
+        console.error("Error fetching rotating hunt items:", err);
+      }
+    };
+
+    fetchItems();
+  }, [isOpen, item]);
+
+  // Fetch a fresh token whenever the current one expires
+  useEffect(() => {
+    if (!isOpen || !selectedItem) return;
+
+    let timeout: ReturnType<typeof setTimeout>;
+
+    const fetchToken = async () => {
+      try {
+        const response = await fetch(
+          `/api/admin/rotating-qr/${selectedItem._id}`
+        );
+        const data = await response.json();
+
+        if (!data.success) {
+          setError(data.error || "Failed to fetch QR code");
+          return;
+        }
+
+        const nextExpiry = new Date(data.expiresAt);
+        setToken(data.token);
+        setExpiresAt(nextExpiry);
+        setError(null);
+        timeout = setTimeout(
+          fetchToken,
+          Math.max(nextExpiry.getTime() - Date.now(), 1000)
+        );
+      } catch (err) {
+        setError("Failed to fetch QR code. Retrying...");
+        console.error("Error fetching rotating QR token:", err);
+        timeout = setTimeout(fetchToken, 5000);
+      }
+    };
+
+    fetchToken();
+
+    return () => clearTimeout(timeout);
+  }, [isOpen, selectedItem]);
+
+  // Countdown until the code changes
+  useEffect(() => {
+    if (!expiresAt) return;
+
+    const updateCountdown = () =>
+      setSecondsLeft(
+        Math.max(0, Math.ceil((expiresAt.getTime() - Date.now()) / 1000))
+      );
+
+    updateCountdown();
+    const interval = setInterval(updateCountdown, 1000);
+
+    return () => clearInterval(interval);
+  }, [expiresAt]);
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title={selectedItem ? `Live QR: ${selectedItem.name}` : "Live QR Display"}
+      className="max-w-md"
+    >
+      <div className="text-center space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+
+        {!selectedItem ? (
+          items.length === 0 ? (
+            <p className="text-gray-600 dark:text-gray-400">
+              No rotating hunt items found.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {items.map((rotatingItem) => (
+                <button
+                  key={rotatingItem._id}
+                  onClick={() => setSelectedItem(rotatingItem)}
+                  className="w-full px-4 py-2 border border-gray-200 dark:border-gray-700 rounded-lg text-gray-900 dark:text-white hover:bg-gray-50 dark:hover:bg-gray-700 transition-colors"
+                >
+                  {rotatingItem.name}
+                </button>
+              ))}
+            </div>
+          )
+        ) : token && qrCode ? (
+          <>
+            <div className="flex justify-center">
+              {/* eslint-disable-next-line @next/next/no-img-element */}
+              <img
+                src={qrCode}
+                alt={`Live QR Code for ${selectedItem.name}`}
+                className="border rounded-lg"
+              />
+            </div>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              Code changes in {secondsLeft}s
+            </p>
+          </>
+        ) : (
+          <p className="text-gray-600 dark:text-gray-400">Loading QR code...</p>
+        )}
+
+        {selectedItem && !item && (
+          <button
+            onClick={() => {
+              setSelectedItem(null);
+              setToken(null);
+              setExpiresAt(null);
+            }}
+            className="text-sm text-blue-600 dark:text-blue-400 hover:underline"
+          >
+            Choose a different item
+          </button>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default RotatingQRModal;
@@ -3,3 +3,10 @@ export { default as HuntItemEditForm } from "./HuntItemEditForm";
 export { default as HuntItemAddForm } from "./HuntItemAddForm";
 export { default as HuntItemsList } from "./HuntItemsList";
 export { default as QRCodeModal } from "./QRCodeModal";
+export { default as HuntItemCatalog } from "./HuntItemCatalog";
+export { default as RotatingQRModal } from "./RotatingQRModal";
+export { default as HuntItemWindowFields } from "./HuntItemWindowFields";
+export { default as HuntItemClaimLimitFields } from "./HuntItemClaimLimitFields";
+export { default as PrintSheetModal } from "./PrintSheetModal";
+export { default as HuntItemImportModal } from "./HuntItemImportModal";
+export { default as HuntItemDeleteModal } from "./HuntItemDeleteModal";
@@ -1,34 +1,204 @@
 "use client";
 
-import { useState, useEffect } from "react";
-import { Trophy, Medal, Award } from "lucide-react";
+import { useState, useEffect, useRef } from "react";
+import { motion } from "framer-motion";
+import DayButton from "@/components/schedule/DayButton";
+import { Day } from "@/lib/interface";
+import {
+  Trophy,
+  Medal,
+  Award,
+  ChevronLeft,
+  ChevronRight,
+  ArrowUp,
+  ArrowDown,
+  Lock,
+} from "lucide-react";
 
 interface LeaderboardEntry {
   rank: number;
   name: string;
   score: number;
+  members?: number; // Only present in the team view
+  isMe?: boolean; // The signed-in user (or their team)
 }
 
+// The signed-in user's own position, pinned below the list
+interface LeaderboardStanding {
+  rank: number | null;
+  name: string;
+  score: number;
+  pointsToNextRank: number | null;
+  hidden?: boolean; // The user has hidden themselves from the leaderboard
+}
+
+type LeaderboardView = "individual" | "team";
+
 interface LeaderboardResponse {
   success: boolean;
   leaderboard: LeaderboardEntry[];
+  page: number;
+  pageSize: number;
+  total: number;
+  totalPages: number;
+  me: LeaderboardStanding | null;
+  frozenAt: string | null; // Set while final standings are frozen
 }
 
+type RankMovement = "up" | "down";
+
+// Polling interval used when live updates aren't available
+const POLL_INTERVAL_MS = 15000;
+
+// Consecutive stream errors before giving up on live updates
+const MAX_STREAM_ERRORS = 3;
+
 const Leaderboard = () => {
   const [leaderboard, setLeaderboard] = useState<LeaderboardEntry[]>([]);
   const [loading, setLoading] = useState(true);
   const [error, setError] = useState<string | null>(null);
+  const [view, setView] = useState<LeaderboardView>("individual");
+  const [page, setPage] = useState(1);
+  const [pageSize, setPageSize] = useState(10);
+  const [total, setTotal] = useState(0);
+  const [totalPages, setTotalPages] = useState(0);
+  const [me, setMe] = useState<LeaderboardStanding | null>(null);
+  const [frozenAt, setFrozenAt] = useState<string | null>(null);
+  const [days, setDays] = useState<Day[]>([]);
+  const [dayId, setDayId] = useState<string | null>(null); // Null for all time
+  const [movement, setMovement] = useState<Record<string, RankMovement>>({});
+  const previousRanks = useRef<Record<string, number>>({});
+
+  // Subscribe to live updates for the current page, falling back to polling
+  // if the browser or server can't keep a stream open
+  useEffect(() => {
+    previousRanks.current = {};
+    setMovement({});
+
+    let pollTimer: ReturnType<typeof setInterval> | null = null;
+    const startPolling = () => {
+      if (!pollTimer) {
+        pollTimer = setInterval(
+          () => fetchLeaderboard(false),
+          POLL_INTERVAL_MS
+        );
+      }
+    };
+
+    if (typeof EventSource === "undefined") {
+      fetchLeaderboard();
+      startPolling();
+      return () => {
+        if (pollTimer) clearInterval(pollTimer);
+      };
+    }
 
+    setLoading(true);
+    setError(null);
+
+    let streamErrors = 0;
+    const source = new EventSource(`/api/leaderboard/stream?${getParams()}`);
+
+    source.onmessage = (event) => {
+      streamErrors = 0;
+      const data: LeaderboardResponse = JSON.parse(event.data);
+      if (data.success) applyLeaderboard(data);
+      setLoading(false);
+    };
+
+    source.onerror = () => {
+      streamErrors++;
+      if (
+        source.readyState === EventSource.CLOSED ||
+        streamErrors >= MAX_STREAM_ERRORS
+      ) {
+        source.close();
+        fetchLeaderboard(false);
+        startPolling();
+      }
+    };
+
+    return () => {
+      source.close();
+      if (pollTimer) clearInterval(pollTimer);
+    };
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [view, page, dayId]);
+
+  // Conference days for the per-day rankings
   useEffect(() => {
-    fetchLeaderboard();
+    const fetchDays = async () => {
+      try {
+        const response = await fetch("/api/schedule");
+        if (!response.ok) throw new Error("Failed to fetch schedule");
+        const data: Day[] = await response.json();
+        setDays(data.sort((a, b) => a.timestamp - b.timestamp));
+      } catch (err) {
+        console.error("Error fetching days:", err);
+      }
+    };
+
+    fetchDays();
   }, []);
 
-  const fetchLeaderboard = async () => {
+  const changeView = (option: LeaderboardView) => {
+    setView(option);
+    setPage(1);
+  };
+
+  const changeDay = (id: string | null) => {
+    setDayId(id);
+    setPage(1);
+  };
+
+  const getParams = () => {
+    const params = new URLSearchParams({ page: page.toString() });
+    if (view === "team") params.set("view", "team");
+    if (dayId) params.set("day", dayId);
+    return params;
+  };
+
+  // Rows are keyed by name; a number is appended when names repeat
+  const getEntryKeys = (entries: LeaderboardEntry[]) => {
+    const seen: Record<string, number> = {};
+    return entries.map((entry) => {
+      seen[entry.name] = (seen[entry.name] || 0) + 1;
+      return seen[entry.name] === 1
+        ? entry.name
+        : `${entry.name}-${seen[entry.name]}`;
+    });
+  };
+
+  const applyLeaderboard = (data: LeaderboardResponse) => {
+    // Compare with the last update to show who moved up or down
+    const keys = getEntryKeys(data.leaderboard);
+    const ranks: Record<string, number> = {};
+    const moved: Record<string, RankMovement> = {};
+
+    data.leaderboard.forEach((entry, index) => {
+      const previous = previousRanks.current[keys[index]];
+      ranks[keys[index]] = entry.rank;
+      if (previous !== undefined && previous !== entry.rank) {
+        moved[keys[index]] = entry.rank < previous ? "up" : "down";
+      }
+    });
+
+    previousRanks.current = ranks;
+    setMovement(moved);
+    setLeaderboard(data.leaderboard);
+    setPageSize(data.pageSize);
+    setTotal(data.total);
+    setTotalPages(data.totalPages);
+    setMe(data.me);
+    setFrozenAt(data.frozenAt);
+  };
+
+  const fetchLeaderboard = async (showLoading = true) => {
     try {
-      setLoading(true);
+      if (showLoading) setLoading(true);
       setError(null);
 
-      const response = await fetch("/api/leaderboard");
+      const response = await fetch(`/api/leaderboard?${getParams()}`);
 
       if (!response.ok) {
         throw new Error("Failed to fetch leaderboard");
@@ -37,7 +207,7 @@ const Leaderboard = () => {
       const data: LeaderboardResponse = await response.json();
 
       if (data.success) {
-        setLeaderboard(data.leaderboard);
+        applyLeaderboard(data);
       } else {
         throw new Error("Failed to load leaderboard data");
       }
@@ -79,6 +249,8 @@ const Leaderboard = () => {
     }
   };
 
+  const entryKeys = getEntryKeys(leaderboard);
+
   if (loading) {
     return (
       <div className="w-full max-w-2xl mx-auto">
@@ -115,7 +287,7 @@ const Leaderboard = () => {
           <div className="text-center py-8">
             <p className="text-red-600 dark:text-red-400 mb-4">{error}</p>
             <button
-              onClick={fetchLeaderboard}
+              onClick={() => fetchLeaderboard()}
               className="px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/80 transition-colors"
             >
               Retry
@@ -137,10 +309,46 @@ const Leaderboard = () => {
           </h2>
         </div>
 
-        {/* Refresh Button */}
-        <div className="flex justify-end mb-4">
+        {/* Day Selection */}
+        {days.length > 0 && (
+          <div className="flex justify-center flex-wrap gap-y-2 mb-4">
+            <DayButton
+              Day="All Time"
+              Date="Overall"
+              selected={dayId === null}
+              onDayButtonClick={() => changeDay(null)}
+            />
+            {days.map((day) => (
+              <DayButton
+                key={day._id}
+                Day={day.day}
+                Date={day.date}
+                selected={dayId === day._id}
+                onDayButtonClick={() => changeDay(day._id || null)}
+              />
+            ))}
+          </div>
+        )}
+
+        {/* View Toggle and Refresh Button */}
+        <div className="flex justify-between mb-4">
+          <div className="flex gap-1">
+            {(["individual", "team"] as const).map((option) => (
+              <button
+                key={option}
+                onClick={() => changeView(option)}
+                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                  view === option
+                    ? "bg-primary text-white"
+                    : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 hover:bg-gray-200 dark:hover:bg-gray-600"
+                }`}
+              >
+                {option === "team" ? "Teams" : "Individuals"}
+              </button>
+            ))}
+          </div>
           <button
-            onClick={fetchLeaderboard}
+            onClick={() => fetchLeaderboard()}
             disabled={loading}
             className="px-3 py-1 text-sm bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 rounded-md hover:bg-gray-200 dark:hover:bg-gray-600 transition-colors disabled:opacity-50"
           >
@@ -148,6 +356,13 @@ const Leaderboard = () => {
           </button>
         </div>
 
+        {frozenAt && (
+          <div className="flex items-center justify-center gap-2 mb-4 p-3 rounded-lg bg-blue-50 dark:bg-blue-900/20 text-sm text-blue-800 dark:text-blue-200">
+            <Lock className="w-4 h-4" />
+            Final standings as of {new Date(frozenAt).toLocaleString()}
+          </div>
+        )}
+
         {/* Leaderboard List */}
         {leaderboard.length === 0 ? (
           <div className="text-center py-8">
@@ -158,12 +373,14 @@ const Leaderboard = () => {
           </div>
         ) : (
           <div className="space-y-3">
-            {leaderboard.map((entry) => (
-              <div
-                key={`${entry.rank}-${entry.name}`}
+            {leaderboard.map((entry, index) => (
+              <motion.div
+                key={entryKeys[index]}
+                layout
+                transition={{ type: "spring", stiffness: 300, damping: 30 }}
                 className={`flex items-center justify-between p-4 rounded-lg border transition-all duration-200 hover:shadow-md ${getRankStyle(
                   entry.rank
-                )}`}
+                )} ${entry.isMe ? "ring-2 ring-primary" : ""}`}
               >
                 <div className="flex items-center space-x-4">
                   {getRankIcon(entry.rank)}
@@ -173,6 +390,16 @@ const Leaderboard = () => {
                     </p>
                     <p className="text-sm text-gray-600 dark:text-gray-400">
                       Rank #{entry.rank}
+                      {movement[entryKeys[index]] === "up" && (
+                        <ArrowUp className="inline w-4 h-4 ml-1 text-green-600" />
+                      )}
+                      {movement[entryKeys[index]] === "down" && (
+                        <ArrowDown className="inline w-4 h-4 ml-1 text-red-600" />
+                      )}
+                      {entry.members !== undefined &&
+                        ` · ${entry.members} member${
+                          entry.members === 1 ? "" : "s"
+                        }`}
                     </p>
                   </div>
                 </div>
@@ -184,15 +411,63 @@ const Leaderboard = () => {
                     points
                   </p>
                 </div>
-              </div>
+              </motion.div>
             ))}
           </div>
         )}
 
+        {/* Caller's Own Rank */}
+        {me && (
+          <div className="mt-4 flex items-center justify-between p-4 rounded-lg border-2 border-dashed border-primary bg-white dark:bg-gray-800">
+            <div>
+              <p className="font-semibold text-gray-900 dark:text-white">
+                {view === "team" ? `Your team: ${me.name}` : "You"}
+              </p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                {me.hidden
+                  ? "Hidden from the leaderboard"
+                  : me.rank === null
+                    ? "Earn points to join the leaderboard"
+                    : `Rank #${me.rank}${
+                        me.pointsToNextRank !== null
+                          ? ` · ${me.pointsToNextRank} point${
+                              me.pointsToNextRank === 1 ? "" : "s"
+                            } to the next rank`
+                          : ""
+                      }`}
+              </p>
+            </div>
+            <div className="text-right">
+              <p className="text-2xl font-bold text-primary">{me.score}</p>
+              <p className="text-sm text-gray-600 dark:text-gray-400">points</p>
+            </div>
+          </div>
+        )}
+
         {/* Footer */}
         {leaderboard.length > 0 && (
-          <div className="mt-6 text-center text-sm text-gray-600 dark:text-gray-400">
-            Showing top {leaderboard.length} participants
+          <div className="mt-6 flex items-center justify-between text-sm text-gray-600 dark:text-gray-400">
+            <button
+              onClick={() => setPage(page - 1)}
+              disabled={page <= 1}
+              className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+              aria-label="Previous page"
+            >
+              <ChevronLeft className="w-5 h-5" />
+            </button>
+            <span>
+              Showing {(page - 1) * pageSize + 1}-
+              {(page - 1) * pageSize + leaderboard.length} of {total}{" "}
+              {view === "team" ? "teams" : "participants"}
+            </span>
+            <button
+              onClick={() => setPage(page + 1)}
+              disabled={page >= totalPages}
+              className="p-1 rounded-md hover:bg-gray-100 dark:hover:bg-gray-700 disabled:opacity-30"
+              aria-label="Next page"
+            >
+              <ChevronRight className="w-5 h-5" />
+            </button>
           </div>
         )}
       </div>
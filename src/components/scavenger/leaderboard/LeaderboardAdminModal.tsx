@@ -0,0 +1,474 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import {
+  Camera,
+  ChevronDown,
+  ChevronUp,
+  Download,
+  Lock,
+  Unlock,
+} from "lucide-react";
+import Modal from "@/components/ui/modal";
+import { Day } from "@/lib/interface";
+
+interface SnapshotSummary {
+  _id: string;
+  takenAt: string;
+  kind: "freeze" | "scheduled" | "manual";
+  label: string;
+  takenBy: string;
+}
+
+interface SnapshotDetails extends SnapshotSummary {
+  individuals: {
+    rank: number;
+    name: string;
+    score: number;
+    user: { _id: string; name?: string; email: string } | null;
+  }[];
+  teams: { rank: number; name: string; score: number; members: number }[];
+}
+
+interface LeaderboardFreeze {
+  _id: string;
+  freezeAt: string;
+  frozenBy: string;
+}
+
+interface LeaderboardAdminModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const kindStyles: Record<SnapshotSummary["kind"], string> = {
+  freeze: "bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200",
+  scheduled:
+    "bg-green-100 dark:bg-green-900 text-green-800 dark:text-green-200",
+  manual: "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300",
+};
+
+// Freeze the public leaderboard for final standings and browse snapshots.
+// Snapshots show real identities next to the names shown publicly.
+const LeaderboardAdminModal = ({
+  isOpen,
+  onClose,
+}: LeaderboardAdminModalProps) => {
+  const [snapshots, setSnapshots] = useState<SnapshotSummary[]>([]);
+  const [freeze, setFreeze] = useState<LeaderboardFreeze | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [freezeAt, setFreezeAt] = useState("");
+  const [snapshotLabel, setSnapshotLabel] = useState("");
+  const [expandedId, setExpandedId] = useState<string | null>(null);
+  const [details, setDetails] = useState<SnapshotDetails | null>(null);
+  const [detailsView, setDetailsView] = useState<"individual" | "team">(
+    "individual"
+  );
+  const [days, setDays] = useState<Day[]>([]);
+  const [winnersDay, setWinnersDay] = useState("");
+  const [winnersLimit, setWinnersLimit] = useState(10);
+
+  const fetchSnapshots = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/admin/leaderboard/snapshots");
+      const data = await response.json();
+
+      if (data.success) {
+        setSnapshots(data.snapshots);
+        setFreeze(data.freeze);
+      } else {
+        setError(data.error || "Failed to fetch snapshots");
+      }
+    } catch (err) {
+      setError("Failed to fetch snapshots");
+      console.error("Error fetching leaderboard snapshots:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      setExpandedId(null);
+      setDetails(null);
+      fetchSnapshots();
+      fetchDays();
+    }
+  }, [isOpen]);
+
+  const fetchDays = async () => {
+    try {
+      const response = await fetch("/api/schedule");
+      if (!response.ok) throw new Error("Failed to fetch schedule");
+      const data: Day[] = await response.json();
+      setDays(data.sort((a, b) => a.timestamp - b.timestamp));
+    } catch (err) {
+      console.error("Error fetching days:", err);
+    }
+  };
+
+  const winnersParams = new URLSearchParams({ limit: winnersLimit.toString() });
+  if (winnersDay) winnersParams.set("day", winnersDay);
+
+  // Shared handler for freezing, unfreezing and taking snapshots
+  const submitAction = async (
+    url: string,
+    method: "POST" | "DELETE",
+    body?: Record<string, string>
+  ) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: body ? JSON.stringify(body) : undefined,
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        await fetchSnapshots();
+      } else {
+        setError(data.error || "Something went wrong");
+      }
+    } catch (err) {
+      setError("Something went wrong. Please try again.");
+      console.error("Error updating leaderboard:", err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const freezeLeaderboard = () => {
+    const at = freezeAt ? new Date(freezeAt) : new Date();
+    if (
+      !confirm(
+        `Freeze the public leaderboard at ${at.toLocaleString()}? Claims will keep working, but the leaderboard will show the standings as of that time.`
+      )
+    ) {
+      return;
+    }
+    submitAction("/api/admin/leaderboard/freeze", "POST", {
+      freezeAt: at.toISOString(),
+    });
+    setFreezeAt("");
+  };
+
+  const liftFreeze = () => {
+    if (!confirm("Lift the freeze and show live standings again?")) return;
+    submitAction("/api/admin/leaderboard/freeze", "DELETE");
+  };
+
+  const takeSnapshot = () => {
+    submitAction("/api/admin/leaderboard/snapshots", "POST", {
+      label: snapshotLabel,
+    });
+    setSnapshotLabel("");
+  };
+
+  const toggleSnapshot = async (id: string) => {
+    if (expandedId === id) {
+      setExpandedId(null);
+      return;
+    }
+
+    setExpandedId(id);
+    setDetails(null);
+
+    try {
+      const response = await fetch(`/api/admin/leaderboard/snapshots/${id}`);
+      const data = await response.json();
+
+      if (data.success) {
+        setDetails(data.snapshot);
+      } else {
+        setError(data.error || "Failed to fetch snapshot");
+      }
+    } catch (err) {
+      setError("Failed to fetch snapshot");
+      console.error("Error fetching leaderboard snapshot:", err);
+    }
+  };
+
+  const isFreezePending = freeze && new Date(freeze.freezeAt) > new Date();
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Leaderboard Freeze & Snapshots"
+      className="max-w-3xl"
+    >
+      <div className="space-y-6">
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+
+        {/* Freeze */}
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+          <h3 className="flex items-center gap-2 font-semibold text-gray-900 dark:text-white">
+            <Lock size={16} />
+            Final Standings Freeze
+          </h3>
+          {freeze ? (
+            <div className="flex items-center justify-between gap-4">
+              <p className="text-sm text-gray-700 dark:text-gray-300">
+                {isFreezePending ? "Freezes" : "Frozen"} at{" "}
+                <strong>{new Date(freeze.freezeAt).toLocaleString()}</strong> by{" "}
+                {freeze.frozenBy}.{" "}
+                {isFreezePending
+                  ? "The leaderboard is live until then."
+                  : "The public leaderboard shows the standings as of that time."}
+              </p>
+              <button
+                onClick={liftFreeze}
+                disabled={isSubmitting}
+                className="flex items-center gap-2 px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-400 transition-colors whitespace-nowrap"
+              >
+                <Unlock size={16} />
+                Lift Freeze
+              </button>
+            </div>
+          ) : (
+            <div className="flex flex-wrap items-end gap-2">
+              <div className="flex-1 min-w-[200px]">
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Freeze at (leave blank for now)
+                </label>
+                <input
+                  type="datetime-local"
+                  value={freezeAt}
+                  onChange={(e) => setFreezeAt(e.target.value)}
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <button
+                onClick={freezeLeaderboard}
+                disabled={isSubmitting}
+                className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+              >
+                <Lock size={16} />
+                Freeze Leaderboard
+              </button>
+            </div>
+          )}
+        </div>
+
+        {/* Manual Snapshot */}
+        <div className="flex gap-2">
+          <input
+            type="text"
+            value={snapshotLabel}
+            onChange={(e) => setSnapshotLabel(e.target.value)}
+            className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            placeholder="Snapshot label (optional)"
+            disabled={isSubmitting}
+          />
+          <button
+            onClick={takeSnapshot}
+            disabled={isSubmitting}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/80 disabled:bg-gray-400 transition-colors"
+          >
+            <Camera size={16} />
+            Take Snapshot
+          </button>
+        </div>
+
+        {/* Daily Winners Export */}
+        <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg space-y-3">
+          <h3 className="font-semibold text-gray-900 dark:text-white">
+            Daily Winners
+          </h3>
+          <p className="text-sm text-gray-600 dark:text-gray-400">
+            Top users by points earned from claims made each day, with their
+            real names and emails.
+          </p>
+          <div className="flex flex-wrap items-end gap-2">
+            <div className="flex-1 min-w-[160px]">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Day
+              </label>
+              <select
+                value={winnersDay}
+                onChange={(e) => setWinnersDay(e.target.value)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              >
+                <option value="">All days</option>
+                {days.map((day) => (
+                  <option key={day._id} value={day._id}>
+                    {day.day} ({day.date})
+                  </option>
+                ))}
+              </select>
+            </div>
+            <div className="w-24">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Top
+              </label>
+              <input
+                type="number"
+                min={1}
+                max={100}
+                value={winnersLimit}
+                onChange={(e) => setWinnersLimit(Number(e.target.value) || 1)}
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+              />
+            </div>
+            <a
+              href={`/api/admin/leaderboard/daily-winners?${winnersParams}`}
+              className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+            >
+              <Download size={16} />
+              Export CSV
+            </a>
+          </div>
+        </div>
+
+        {/* Snapshot History */}
+        <div>
+          <h3 className="font-semibold text-gray-900 dark:text-white mb-2">
+            Snapshot History
+          </h3>
+          {loading ? (
+            <p className="text-center py-4 text-gray-600 dark:text-gray-400">
+              Loading snapshots...
+            </p>
+          ) : snapshots.length === 0 ? (
+            <p className="text-center py-4 text-gray-600 dark:text-gray-400">
+              No snapshots yet. One is taken automatically at the end of each
+              conference day.
+            </p>
+          ) : (
+            <div className="space-y-2">
+              {snapshots.map((snapshot) => (
+                <div
+                  key={snapshot._id}
+                  className="border border-gray-200 dark:border-gray-700 rounded-lg"
+                >
+                  <button
+                    onClick={() => toggleSnapshot(snapshot._id)}
+                    className="w-full flex items-center justify-between p-3 text-left hover:bg-gray-50 dark:hover:bg-gray-800 rounded-lg"
+                  >
+                    <div className="flex items-center gap-3">
+                      <span className="font-medium text-gray-900 dark:text-white">
+                        {snapshot.label}
+                      </span>
+                      <span
+                        className={`px-2 py-0.5 text-xs rounded ${
+                          kindStyles[snapshot.kind]
+                        }`}
+                      >
+                        {snapshot.kind}
+                      </span>
+                      <span className="text-sm text-gray-600 dark:text-gray-400">
+                        {new Date(snapshot.takenAt).toLocaleString()} ·{" "}
+                        {snapshot.takenBy}
+                      </span>
+                    </div>
+                    {expandedId === snapshot._id ? (
+                      <ChevronUp size={16} />
+                    ) : (
+                      <ChevronDown size={16} />
+                    )}
+                  </button>
+
+                  {expandedId === snapshot._id && (
+                    <div className="px-3 pb-3">
+                      {!details ? (
+                        <p className="text-sm text-gray-600 dark:text-gray-400">
+                          Loading standings...
+                        </p>
+                      ) : (
+                        <>
+                          <div className="flex gap-1 mb-2">
+                            {(["individual", "team"] as const).map((option) => (
+                              <button
+                                key={option}
+                                onClick={() => setDetailsView(option)}
+                                className={`px-3 py-1 text-sm rounded-md transition-colors ${
+                                  detailsView === option
+                                    ? "bg-primary text-white"
+                                    : "bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300"
+                                }`}
+                              >
+                                {option === "team" ? "Teams" : "Individuals"}
+                              </button>
+                            ))}
+                          </div>
+                          <div className="max-h-64 overflow-y-auto text-sm">
+                            {detailsView === "individual" ? (
+                              details.individuals.length === 0 ? (
+                                <p className="text-gray-600 dark:text-gray-400">
+                                  No ranked users.
+                                </p>
+                              ) : (
+                                details.individuals.map((entry, index) => (
+                                  <div
+                                    key={index}
+                                    className="flex justify-between py-1 border-b border-gray-100 dark:border-gray-800 text-gray-700 dark:text-gray-300"
+                                  >
+                                    <span>
+                                      #{entry.rank} {entry.name}
+                                      {entry.user && (
+                                        <span className="text-gray-500 dark:text-gray-500">
+                                          {" "}
+                                          (
+                                          {entry.user.name &&
+                                          entry.user.name !== entry.name
+                                            ? `${entry.user.name}, `
+                                            : ""}
+                                          {entry.user.email})
+                                        </span>
+                                      )}
+                                    </span>
+                                    <span>{entry.score} pts</span>
+                                  </div>
+                                ))
+                              )
+                            ) : details.teams.length === 0 ? (
+                              <p className="text-gray-600 dark:text-gray-400">
+                                No ranked teams.
+                              </p>
+                            ) : (
+                              details.teams.map((entry, index) => (
+                                <div
+                                  key={index}
+                                  className="flex justify-between py-1 border-b border-gray-100 dark:border-gray-800 text-gray-700 dark:text-gray-300"
+                                >
+                                  <span>
+                                    #{entry.rank} {entry.name} · {entry.members}{" "}
+                                    member
+                                    {entry.members === 1 ? "" : "s"}
+                                  </span>
+                                  <span>{entry.score} pts</span>
+                                </div>
+                              ))
+                            )}
+                          </div>
+                        </>
+                      )}
+                    </div>
+                  )}
+                </div>
+              ))}
+            </div>
+          )}
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default LeaderboardAdminModal;
@@ -0,0 +1,148 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { EyeOff, Save } from "lucide-react";
+import Modal from "@/components/ui/modal";
+
+interface LeaderboardSettings {
+  leaderboardAlias: string | null;
+  hideFromLeaderboard: boolean;
+}
+
+interface LeaderboardSettingsModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  settings: LeaderboardSettings;
+  onSaved: (settings: LeaderboardSettings) => void;
+}
+
+// Lets a user play under an alias or keep themselves off the public
+// leaderboard. Points and prizes work the same either way.
+const LeaderboardSettingsModal = ({
+  isOpen,
+  onClose,
+  settings,
+  onSaved,
+}: LeaderboardSettingsModalProps) => {
+  const [alias, setAlias] = useState("");
+  const [hidden, setHidden] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+
+  useEffect(() => {
+    if (isOpen) {
+      setAlias(settings.leaderboardAlias || "");
+      setHidden(settings.hideFromLeaderboard);
+      setError(null);
+    }
+    // eslint-disable-next-line react-hooks/exhaustive-deps
+  }, [isOpen]);
+
+  const handleSave = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await fetch("/api/users", {
+        method: "PATCH",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({
+          leaderboardAlias: alias.trim() || null,
+          hideFromLeaderboard: hidden,
+        }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        onSaved({
+          leaderboardAlias: data.leaderboardAlias,
+          hideFromLeaderboard: data.hideFromLeaderboard,
+        });
+        onClose();
+      } else {
+        setError(data.error || "Failed to save settings");
+      }
+    } catch (err) {
+      setError("Failed to save settings. Please try again.");
+      console.error("Error saving leaderboard settings:", err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={onClose}
+      title="Leaderboard Settings"
+      className="max-w-md"
+    >
+      <div className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+
+        <div className="space-y-2">
+          <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+            Display alias
+          </label>
+          <input
+            type="text"
+            value={alias}
+            onChange={(e) => setAlias(e.target.value)}
+            maxLength={30}
+            className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+            placeholder="Leave blank to use your name"
+            disabled={isSubmitting}
+          />
+          <p className="text-xs text-gray-500 dark:text-gray-400">
+            Shown on the leaderboard instead of your real name.
+          </p>
+        </div>
+
+        <label className="flex items-start gap-2 text-sm text-gray-900 dark:text-white">
+          <input
+            type="checkbox"
+            checked={hidden}
+            onChange={(e) => setHidden(e.target.checked)}
+            className="mt-1"
+            disabled={isSubmitting}
+          />
+          <span>
+            <strong className="inline-flex items-center gap-1">
+              <EyeOff size={14} />
+              Hide me from the leaderboard
+            </strong>
+            <br />
+            You&apos;ll still earn points and can redeem prizes. Your points
+            still count towards your team&apos;s score.
+          </span>
+        </label>
+
+        <div className="flex justify-end gap-2">
+          <button
+            onClick={onClose}
+            className="px-4 py-2 bg-gray-200 dark:bg-gray-700 text-gray-800 dark:text-gray-200 rounded-lg hover:bg-gray-300 dark:hover:bg-gray-600 transition-colors"
+          >
+            Cancel
+          </button>
+          <button
+            onClick={handleSave}
+            disabled={isSubmitting}
+            className="flex items-center gap-2 px-4 py-2 bg-primary text-white rounded-lg hover:bg-primary/80 transition-colors disabled:opacity-50 disabled:cursor-not-allowed"
+          >
+            <Save size={16} />
+            {isSubmitting ? "Saving..." : "Save"}
+          </button>
+        </div>
+      </div>
+    </Modal>
+  );
+};
+
+export default LeaderboardSettingsModal;
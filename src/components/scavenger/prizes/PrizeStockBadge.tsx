@@ -0,0 +1,31 @@
+"use client";
+
+// Prizes at or below this stock are flagged to volunteers
+const LOW_STOCK_THRESHOLD = 5;
+
+interface PrizeStockBadgeProps {
+  stock: number;
+}
+
+// Out of stock / low stock warning shown next to a prize
+const PrizeStockBadge = ({ stock }: PrizeStockBadgeProps) => {
+  if (stock <= 0) {
+    return (
+      <span className="px-2 py-1 bg-red-100 dark:bg-red-900 text-red-800 dark:text-red-200 text-xs rounded">
+        Out of stock
+      </span>
+    );
+  }
+
+  if (stock <= LOW_STOCK_THRESHOLD) {
+    return (
+      <span className="px-2 py-1 bg-orange-100 dark:bg-orange-900 text-orange-800 dark:text-orange-200 text-xs rounded">
+        Only {stock} left
+      </span>
+    );
+  }
+
+  return null;
+};
+
+export default PrizeStockBadge;
@@ -0,0 +1,413 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Edit2, Gift, Plus, Save, Trash2, X } from "lucide-react";
+import Modal from "@/components/ui/modal";
+import { Prize } from "@/lib/interface";
+import PrizeStockBadge from "./PrizeStockBadge";
+
+interface PrizeFormData {
+  name: string;
+  description: string;
+  imageUrl: string;
+  pointCost: number;
+  stock: number;
+  perUserLimit: number | null;
+  active: boolean;
+}
+
+const emptyFormData: PrizeFormData = {
+  name: "",
+  description: "",
+  imageUrl: "",
+  pointCost: 0,
+  stock: 0,
+  perUserLimit: null,
+  active: true,
+};
+
+interface PrizesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const PrizesModal = ({ isOpen, onClose }: PrizesModalProps) => {
+  const [prizes, setPrizes] = useState<Prize[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [editingId, setEditingId] = useState<string | null>(null);
+  const [showForm, setShowForm] = useState(false);
+  const [formData, setFormData] = useState<PrizeFormData>(emptyFormData);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const fetchPrizes = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/admin/prizes");
+      const data = await response.json();
+
+      if (data.success) {
+        setPrizes(data.prizes);
+      } else {
+        setError(data.error || "Failed to fetch prizes");
+      }
+    } catch (err) {
+      setError("Failed to fetch prizes");
+      console.error("Error fetching prizes:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchPrizes();
+    }
+  }, [isOpen]);
+
+  const startCreate = () => {
+    setEditingId(null);
+    setFormData(emptyFormData);
+    setShowForm(true);
+  };
+
+  const startEdit = (prize: Prize) => {
+    setEditingId(prize._id);
+    setFormData({
+      name: prize.name,
+      description: prize.description || "",
+      imageUrl: prize.imageUrl || "",
+      pointCost: prize.pointCost,
+      stock: prize.stock,
+      perUserLimit: prize.perUserLimit ?? null,
+      active: prize.active,
+    });
+    setShowForm(true);
+  };
+
+  const cancelForm = () => {
+    setShowForm(false);
+    setEditingId(null);
+    setFormData(emptyFormData);
+  };
+
+  const savePrize = async () => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await fetch(
+        editingId ? `/api/admin/prizes/${editingId}` : "/api/admin/prizes",
+        {
+          method: editingId ? "PUT" : "POST",
+          headers: {
+            "Content-Type": "application/json",
+          },
+          body: JSON.stringify(formData),
+        }
+      );
+
+      const data = await response.json();
+
+      if (data.success) {
+        cancelForm();
+        await fetchPrizes();
+      } else {
+        setError(data.error || "Failed to save prize");
+      }
+    } catch (err) {
+      setError("Failed to save prize");
+      console.error("Error saving prize:", err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const deletePrize = async (prize: Prize) => {
+    if (
+      !confirm(
+        `Delete prize ${prize.name}?\n\nPast redemptions stay in users' points history.`
+      )
+    ) {
+      return;
+    }
+
+    try {
+      setError(null);
+
+      const response = await fetch(`/api/admin/prizes/${prize._id}`, {
+        method: "DELETE",
+      });
+      const data = await response.json();
+
+      if (data.success) {
+        setPrizes(prizes.filter((p) => p._id !== prize._id));
+      } else {
+        setError(data.error || "Failed to delete prize");
+      }
+    } catch (err) {
+      setError("Failed to delete prize");
+      console.error("Error deleting prize:", err);
+    }
+  };
+
+  const handleClose = () => {
+    cancelForm();
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Prizes"
+      className="max-w-4xl"
+    >
+      <div className="space-y-6">
+        {error && (
+          <div className="p-4 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200">{error}</p>
+          </div>
+        )}
+
+        {showForm ? (
+          <div className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-gray-50 dark:bg-gray-800 space-y-3">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              {editingId ? "Edit Prize" : "New Prize"}
+            </h3>
+            <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Name
+                </label>
+                <input
+                  type="text"
+                  value={formData.name}
+                  onChange={(e) =>
+                    setFormData({ ...formData, name: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  placeholder="e.g. CUSEC T-shirt"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Image URL
+                </label>
+                <input
+                  type="text"
+                  value={formData.imageUrl}
+                  onChange={(e) =>
+                    setFormData({ ...formData, imageUrl: e.target.value })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  placeholder="/images/prizes/shirt.png"
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+            <div>
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                Description
+              </label>
+              <textarea
+                value={formData.description}
+                onChange={(e) =>
+                  setFormData({ ...formData, description: e.target.value })
+                }
+                className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                rows={2}
+                disabled={isSubmitting}
+              />
+            </div>
+            <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Point cost
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.pointCost}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      pointCost: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Stock
+                </label>
+                <input
+                  type="number"
+                  min="0"
+                  value={formData.stock}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      stock: parseInt(e.target.value) || 0,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  disabled={isSubmitting}
+                />
+              </div>
+              <div>
+                <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                  Limit per user
+                </label>
+                <input
+                  type="number"
+                  min="1"
+                  value={formData.perUserLimit ?? ""}
+                  onChange={(e) =>
+                    setFormData({
+                      ...formData,
+                      perUserLimit: parseInt(e.target.value) || null,
+                    })
+                  }
+                  className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  placeholder="No limit"
+                  disabled={isSubmitting}
+                />
+              </div>
+            </div>
+            <label className="flex items-center gap-2 text-sm text-gray-700 dark:text-gray-300">
+              <input
+                type="checkbox"
+                checked={formData.active}
+                onChange={(e) =>
+                  setFormData({ ...formData, active: e.target.checked })
+                }
+                disabled={isSubmitting}
+              />
+              Active (inactive prizes can&apos;t be redeemed)
+            </label>
+            <div className="flex gap-2">
+              <button
+                onClick={savePrize}
+                disabled={
+                  !formData.name.trim() ||
+                  formData.pointCost < 1 ||
+                  isSubmitting
+                }
+                className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors"
+              >
+                <Save size={16} />
+                {isSubmitting ? "Saving..." : "Save"}
+              </button>
+              <button
+                onClick={cancelForm}
+                disabled={isSubmitting}
+                className="flex items-center gap-2 px-4 py-2 bg-gray-600 text-white rounded-lg hover:bg-gray-700 transition-colors"
+              >
+                <X size={16} />
+                Cancel
+              </button>
+            </div>
+          </div>
+        ) : (
+          <button
+            onClick={startCreate}
+            className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 transition-colors"
+          >
+            <Plus size={16} />
+            Add Prize
+          </button>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">
+              Loading prizes...
+            </p>
+          </div>
+        ) : prizes.length === 0 ? (
+          <div className="text-center py-8 bg-gray-50 dark:bg-gray-800 rounded-lg">
+            <Gift className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">No prizes yet</p>
+          </div>
+        ) : (
+          <div className="space-y-2 max-h-96 overflow-y-auto">
+            {prizes.map((prize) => (
+              <div
+                key={prize._id}
+                className="flex items-center justify-between gap-4 p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+              >
+                {prize.imageUrl && (
+                  // eslint-disable-next-line @next/next/no-img-element
+                  <img
+                    src={prize.imageUrl}
+                    alt={prize.name}
+                    className="w-12 h-12 object-cover rounded"
+                  />
+                )}
+                <div className="flex-1">
+                  <div className="flex items-center gap-3">
+                    <h4 className="font-semibold text-gray-900 dark:text-white">
+                      {prize.name}
+                    </h4>
+                    <span className="px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 text-xs rounded">
+                      {prize.pointCost} pts
+                    </span>
+                    <PrizeStockBadge stock={prize.stock} />
+                    {!prize.active && (
+                      <span className="px-2 py-1 bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 text-xs rounded">
+                        Inactive
+                      </span>
+                    )}
+                  </div>
+                  {prize.description && (
+                    <p className="text-sm text-gray-600 dark:text-gray-400">
+                      {prize.description}
+                    </p>
+                  )}
+                  <div className="flex items-center gap-4 mt-1 text-xs text-gray-500 dark:text-gray-500">
+                    <span>
+                      <strong>{prize.stock}</strong> in stock
+                    </span>
+                    <span>
+                      Redeemed <strong>{prize.redeemedCount}</strong>
+                    </span>
+                    {prize.perUserLimit && (
+                      <span>Limit {prize.perUserLimit} per user</span>
+                    )}
+                  </div>
+                </div>
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => startEdit(prize)}
+                    disabled={showForm}
+                    className="flex items-center gap-1 px-3 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:bg-gray-400 text-sm"
+                    title="Edit Prize"
+                  >
+                    <Edit2 className="w-3 h-3" />
+                    Edit
+                  </button>
+                  <button
+                    onClick={() => deletePrize(prize)}
+                    className="flex items-center gap-1 px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 text-sm"
+                    title="Delete Prize"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              </div>
+            ))}
+          </div>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default PrizesModal;
@@ -0,0 +1,260 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { CheckCircle, Lightbulb, Puzzle as PuzzleIcon } from "lucide-react";
+import Modal from "@/components/ui/modal";
+import { Puzzle, UnlockedAchievement } from "@/lib/interface";
+import AchievementBadges from "../achievements/AchievementBadges";
+
+interface PuzzleFeedback {
+  success: boolean;
+  message: string;
+  achievements?: UnlockedAchievement[];
+}
+
+interface PuzzlesModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+  onSolve: (
+    newPoints: number,
+    totalItems: number,
+    achievements?: UnlockedAchievement[]
+  ) => void;
+  userId?: string;
+}
+
+const PuzzlesModal = ({
+  isOpen,
+  onClose,
+  onSolve,
+  userId,
+}: PuzzlesModalProps) => {
+  const [puzzles, setPuzzles] = useState<Puzzle[]>([]);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const [revealedHints, setRevealedHints] = useState<Record<string, number>>(
+    {}
+  );
+  const [feedback, setFeedback] = useState<Record<string, PuzzleFeedback>>({});
+  const [submittingId, setSubmittingId] = useState<string | null>(null);
+
+  const fetchPuzzles = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/puzzles");
+      const data = await response.json();
+
+      if (data.success) {
+        setPuzzles(data.puzzles);
+      } else {
+        setError(data.error || "Failed to fetch puzzles");
+      }
+    } catch (err) {
+      setError("Failed to fetch puzzles");
+      console.error("Error fetching puzzles:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchPuzzles();
+    }
+  }, [isOpen]);
+
+  const submitAnswer = async (puzzle: Puzzle) => {
+    const answer = answers[puzzle._id]?.trim();
+    if (!answer || !userId) return;
+
+    try {
+      setSubmittingId(puzzle._id);
+
+      const response = await fetch(`/api/users/${userId}/puzzles`, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ huntItemId: puzzle._id, answer }),
+      });
+
+      const data = await response.json();
+
+      setFeedback({
+        ...feedback,
+        [puzzle._id]: {
+          success: !!data.success,
+          message: data.success ? data.message : data.error,
+          achievements: data.achievements,
+        },
+      });
+
+      if (data.success) {
+        setPuzzles(
+          puzzles.map((p) =>
+            p._id === puzzle._id ? { ...p, solved: true } : p
+          )
+        );
+        onSolve(data.newPoints, data.totalItemsClaimed, data.achievements);
+      }
+    } catch (err) {
+      setFeedback({
+        ...feedback,
+        [puzzle._id]: {
+          success: false,
+          message: "Failed to submit answer. Please try again.",
+        },
+      });
+      console.error("Error submitting puzzle answer:", err);
+    } finally {
+      setSubmittingId(null);
+    }
+  };
+
+  const handleClose = () => {
+    setAnswers({});
+    setFeedback({});
+    setError(null);
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="Puzzles"
+      className="max-w-2xl"
+    >
+      <div className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">
+              Loading puzzles...
+            </p>
+          </div>
+        ) : puzzles.length === 0 ? (
+          <div className="text-center py-8">
+            <PuzzleIcon className="w-12 h-12 text-gray-400 mx-auto mb-4" />
+            <p className="text-gray-600 dark:text-gray-400">
+              No puzzles yet. Check back soon!
+            </p>
+          </div>
+        ) : (
+          puzzles.map((puzzle) => {
+            const hintsShown = revealedHints[puzzle._id] || 0;
+            const result = feedback[puzzle._id];
+
+            return (
+              <div
+                key={puzzle._id}
+                className="p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+              >
+                <div className="flex items-center gap-3 mb-2">
+                  <h4 className="font-medium text-gray-900 dark:text-white">
+                    {puzzle.name}
+                  </h4>
+                  <span className="px-2 py-1 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 text-xs rounded">
+                    {puzzle.points} pts
+                  </span>
+                  {puzzle.solved && (
+                    <CheckCircle className="w-4 h-4 text-green-600" />
+                  )}
+                </div>
+                <p className="text-sm text-gray-700 dark:text-gray-300 whitespace-pre-line mb-3">
+                  {puzzle.prompt}
+                </p>
+
+                {puzzle.hints.slice(0, hintsShown).map((hint, index) => (
+                  <p
+                    key={index}
+                    className="flex items-start gap-1 text-xs text-yellow-800 dark:text-yellow-200 mb-1"
+                  >
+                    <Lightbulb size={12} className="mt-0.5 shrink-0" />
+                    {hint}
+                  </p>
+                ))}
+
+                {!puzzle.solved && (
+                  <div className="space-y-2 mt-2">
+                    <div className="flex gap-2">
+                      <input
+                        type="text"
+                        value={answers[puzzle._id] || ""}
+                        onChange={(e) =>
+                          setAnswers({
+                            ...answers,
+                            [puzzle._id]: e.target.value,
+                          })
+                        }
+                        onKeyDown={(e) => {
+                          if (e.key === "Enter") submitAnswer(puzzle);
+                        }}
+                        className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                        placeholder="Your answer"
+                        disabled={submittingId === puzzle._id}
+                      />
+                      <button
+                        onClick={() => submitAnswer(puzzle)}
+                        disabled={
+                          !answers[puzzle._id]?.trim() ||
+                          submittingId === puzzle._id
+                        }
+                        className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+                      >
+                        {submittingId === puzzle._id ? "Checking..." : "Submit"}
+                      </button>
+                    </div>
+                    {hintsShown < puzzle.hints.length && (
+                      <button
+                        onClick={() =>
+                          setRevealedHints({
+                            ...revealedHints,
+                            [puzzle._id]: hintsShown + 1,
+                          })
+                        }
+                        className="text-xs text-blue-600 dark:text-blue-400 hover:underline"
+                      >
+                        Show hint ({hintsShown + 1}/{puzzle.hints.length})
+                      </button>
+                    )}
+                  </div>
+                )}
+
+                {result && (
+                  <p
+                    className={`mt-2 text-sm ${
+                      result.success
+                        ? "text-green-700 dark:text-green-300"
+                        : "text-red-700 dark:text-red-300"
+                    }`}
+                  >
+                    {result.message}
+                  </p>
+                )}
+                {!!result?.achievements?.length && (
+                  <div className="mt-2">
+                    <AchievementBadges
+                      achievements={result.achievements}
+                      showBonus
+                    />
+                  </div>
+                )}
+              </div>
+            );
+          })
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default PuzzlesModal;
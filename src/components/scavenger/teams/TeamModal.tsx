@@ -0,0 +1,239 @@
+"use client";
+
+import { useState, useEffect } from "react";
+import { Copy, LogOut, Users } from "lucide-react";
+import Modal from "@/components/ui/modal";
+import { Team } from "@/lib/interface";
+
+interface TeamModalProps {
+  isOpen: boolean;
+  onClose: () => void;
+}
+
+const TeamModal = ({ isOpen, onClose }: TeamModalProps) => {
+  const [team, setTeam] = useState<Team | null>(null);
+  const [loading, setLoading] = useState(false);
+  const [error, setError] = useState<string | null>(null);
+  const [teamName, setTeamName] = useState("");
+  const [inviteCode, setInviteCode] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+  const [copied, setCopied] = useState(false);
+
+  const fetchTeam = async () => {
+    try {
+      setLoading(true);
+      setError(null);
+
+      const response = await fetch("/api/teams");
+      const data = await response.json();
+
+      if (data.success) {
+        setTeam(data.team);
+      } else {
+        setError(data.error || "Failed to fetch team");
+      }
+    } catch (err) {
+      setError("Failed to fetch team");
+      console.error("Error fetching team:", err);
+    } finally {
+      setLoading(false);
+    }
+  };
+
+  useEffect(() => {
+    if (isOpen) {
+      fetchTeam();
+    }
+  }, [isOpen]);
+
+  // Shared handler for creating, joining and leaving a team
+  const submitTeamAction = async (
+    url: string,
+    body?: Record<string, string>
+  ) => {
+    try {
+      setIsSubmitting(true);
+      setError(null);
+
+      const response = await fetch(url, {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify(body || {}),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        setTeam(data.team || null);
+        setTeamName("");
+        setInviteCode("");
+      } else {
+        setError(data.error || "Something went wrong");
+      }
+    } catch (err) {
+      setError("Something went wrong. Please try again.");
+      console.error("Error updating team:", err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  const leaveTeam = () => {
+    if (!confirm("Are you sure you want to leave your team?")) return;
+    submitTeamAction("/api/teams/leave");
+  };
+
+  const copyInviteCode = async () => {
+    if (!team) return;
+    await navigator.clipboard.writeText(team.inviteCode);
+    setCopied(true);
+    setTimeout(() => setCopied(false), 2000);
+  };
+
+  const handleClose = () => {
+    setError(null);
+    setTeamName("");
+    setInviteCode("");
+    onClose();
+  };
+
+  return (
+    <Modal
+      isOpen={isOpen}
+      onClose={handleClose}
+      title="My Team"
+      className="max-w-md"
+    >
+      <div className="space-y-4">
+        {error && (
+          <div className="p-3 bg-red-50 dark:bg-red-900/20 border border-red-200 dark:border-red-800 rounded-lg">
+            <p className="text-red-800 dark:text-red-200 text-sm">{error}</p>
+          </div>
+        )}
+
+        {loading ? (
+          <div className="text-center py-8">
+            <p className="text-gray-600 dark:text-gray-400">Loading team...</p>
+          </div>
+        ) : team ? (
+          <>
+            <div className="text-center">
+              <Users className="w-10 h-10 text-primary mx-auto mb-2" />
+              <h3 className="text-xl font-semibold text-gray-900 dark:text-white">
+                {team.name}
+              </h3>
+              <p className="text-sm text-gray-600 dark:text-gray-400">
+                Team score: <strong>{team.score}</strong> points
+              </p>
+            </div>
+
+            <div className="flex items-center justify-between p-3 bg-gray-50 dark:bg-gray-800 rounded-lg">
+              <div>
+                <p className="text-xs text-gray-500 dark:text-gray-400">
+                  Invite code
+                </p>
+                <p className="font-mono text-lg font-semibold text-gray-900 dark:text-white">
+                  {team.inviteCode}
+                </p>
+              </div>
+              <button
+                onClick={copyInviteCode}
+                className="flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 text-sm"
+              >
+                <Copy className="w-3 h-3" />
+                {copied ? "Copied!" : "Copy"}
+              </button>
+            </div>
+
+            <div>
+              <h4 className="text-sm font-medium text-gray-700 dark:text-gray-300 mb-2">
+                Members ({team.members.length})
+              </h4>
+              <div className="space-y-1">
+                {team.members.map((member) => (
+                  <div
+                    key={member._id}
+                    className="flex justify-between text-sm text-gray-700 dark:text-gray-300"
+                  >
+                    <span>{member.name || "Anonymous"}</span>
+                    <span>{member.points} pts</span>
+                  </div>
+                ))}
+              </div>
+            </div>
+
+            <button
+              onClick={leaveTeam}
+              disabled={isSubmitting}
+              className="flex items-center justify-center gap-2 w-full px-4 py-2 bg-red-600 text-white rounded-lg hover:bg-red-700 disabled:bg-gray-400 transition-colors"
+            >
+              <LogOut size={16} />
+              Leave Team
+            </button>
+          </>
+        ) : (
+          <>
+            <p className="text-sm text-gray-600 dark:text-gray-400">
+              You are not on a team yet. Create one and share its invite code,
+              or join your friends with theirs.
+            </p>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Join with an invite code
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={inviteCode}
+                  onChange={(e) => setInviteCode(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white font-mono uppercase"
+                  placeholder="ABC123"
+                  disabled={isSubmitting}
+                />
+                <button
+                  onClick={() =>
+                    submitTeamAction("/api/teams/join", { inviteCode })
+                  }
+                  disabled={!inviteCode.trim() || isSubmitting}
+                  className="px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+                >
+                  Join
+                </button>
+              </div>
+            </div>
+
+            <div className="space-y-2">
+              <label className="block text-sm font-medium text-gray-700 dark:text-gray-300">
+                Or create a new team
+              </label>
+              <div className="flex gap-2">
+                <input
+                  type="text"
+                  value={teamName}
+                  onChange={(e) => setTeamName(e.target.value)}
+                  className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                  placeholder="Team name"
+                  disabled={isSubmitting}
+                />
+                <button
+                  onClick={() =>
+                    submitTeamAction("/api/teams", { name: teamName })
+                  }
+                  disabled={!teamName.trim() || isSubmitting}
+                  className="px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors"
+                >
+                  Create
+                </button>
+              </div>
+            </div>
+          </>
+        )}
+      </div>
+    </Modal>
+  );
+};
+
+export default TeamModal;
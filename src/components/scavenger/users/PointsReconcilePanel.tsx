@@ -0,0 +1,146 @@
+"use client";
+
+import { useState } from "react";
+import { CheckCircle, Scale } from "lucide-react";
+
+interface BalanceDrift {
+  userId: string;
+  email: string;
+  name?: string;
+  points: number;
+  ledgerBalance: number;
+  difference: number;
+}
+
+type ReconcileStrategy = "recompute" | "record";
+
+interface PointsReconcilePanelProps {
+  onReconciled: () => void;
+  onError: (error: string) => void;
+}
+
+const PointsReconcilePanel = ({
+  onReconciled,
+  onError,
+}: PointsReconcilePanelProps) => {
+  const [drift, setDrift] = useState<BalanceDrift[] | null>(null);
+  const [isChecking, setIsChecking] = useState(false);
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  const checkDrift = async () => {
+    try {
+      setIsChecking(true);
+
+      const response = await fetch("/api/admin/points/reconcile");
+      const data = await response.json();
+
+      if (data.success) {
+        setDrift(data.drift);
+      } else {
+        onError(data.error || "Failed to check points ledger");
+      }
+    } catch (err) {
+      onError("Failed to check points ledger");
+      console.error("Error checking points ledger:", err);
+    } finally {
+      setIsChecking(false);
+    }
+  };
+
+  const reconcile = async (strategy: ReconcileStrategy) => {
+    const confirmMessages = {
+      recompute:
+        "Reset the points of every listed user to their ledger balance?",
+      record:
+        "Keep every listed user's current points and record the difference in the ledger as an adjustment?",
+    };
+    if (!confirm(confirmMessages[strategy])) return;
+
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch("/api/admin/points/reconcile", {
+        method: "POST",
+        headers: {
+          "Content-Type": "application/json",
+        },
+        body: JSON.stringify({ strategy }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        // Rows that changed while reconciling are left for another pass
+        setDrift(data.skipped || []);
+        onReconciled();
+      } else {
+        onError(data.error || "Failed to reconcile points");
+      }
+    } catch (err) {
+      onError("Failed to reconcile points");
+      console.error("Error reconciling points:", err);
+    } finally {
+      setIsSubmitting(false);
+    }
+  };
+
+  return (
+    <div className="space-y-3">
+      <button
+        onClick={checkDrift}
+        disabled={isChecking || isSubmitting}
+        className="flex items-center gap-2 px-4 py-2 bg-blue-600 text-white rounded-lg hover:bg-blue-700 disabled:bg-gray-400 transition-colors"
+      >
+        <Scale size={16} />
+        {isChecking ? "Checking..." : "Check Balances Against Ledger"}
+      </button>
+
+      {drift !== null &&
+        (drift.length === 0 ? (
+          <p className="flex items-center gap-2 text-sm text-green-700 dark:text-green-300">
+            <CheckCircle className="w-4 h-4" />
+            All balances match the ledger
+          </p>
+        ) : (
+          <div className="space-y-3">
+            <div className="space-y-1 max-h-48 overflow-y-auto text-sm">
+              {drift.map((entry) => (
+                <div
+                  key={entry.userId}
+                  className="flex justify-between p-2 border border-yellow-200 dark:border-yellow-800 bg-yellow-50 dark:bg-yellow-900/20 rounded"
+                >
+                  <span className="text-gray-900 dark:text-white">
+                    {entry.name || entry.email}
+                  </span>
+                  <span className="text-gray-600 dark:text-gray-400">
+                    Points <strong>{entry.points}</strong> · Ledger{" "}
+                    <strong>{entry.ledgerBalance}</strong> (
+                    {entry.difference > 0 ? "+" : ""}
+                    {entry.difference})
+                  </span>
+                </div>
+              ))}
+            </div>
+            <div className="flex gap-2">
+              <button
+                onClick={() => reconcile("recompute")}
+                disabled={isSubmitting}
+                className="px-3 py-1 bg-orange-600 text-white rounded hover:bg-orange-700 disabled:bg-gray-400 text-sm"
+              >
+                Reset Points to Ledger
+              </button>
+              <button
+                onClick={() => reconcile("record")}
+                disabled={isSubmitting}
+                className="px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 disabled:bg-gray-400 text-sm"
+              >
+                Record Differences in Ledger
+              </button>
+            </div>
+          </div>
+        ))}
+    </div>
+  );
+};
+
+export default PointsReconcilePanel;
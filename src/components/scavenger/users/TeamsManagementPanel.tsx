@@ -0,0 +1,229 @@
+"use client";
+
+import { useState } from "react";
+import { Edit2, Plus, RefreshCw, Save, Trash2, X } from "lucide-react";
+
+export interface AdminTeam {
+  _id: string;
+  name: string;
+  inviteCode: string;
+  memberCount: number;
+  score: number;
+  createdAt: string;
+}
+
+interface TeamsManagementPanelProps {
+  teams: AdminTeam[];
+  loading: boolean;
+  onTeamsChange: () => void;
+  onError: (error: string) => void;
+}
+
+const TeamsManagementPanel = ({
+  teams,
+  loading,
+  onTeamsChange,
+  onError,
+}: TeamsManagementPanelProps) => {
+  const [newTeamName, setNewTeamName] = useState("");
+  const [editingTeam, setEditingTeam] = useState<string | null>(null);
+  const [editName, setEditName] = useState("");
+  const [isSubmitting, setIsSubmitting] = useState(false);
+
+  // Shared request handler - refreshes the team list on success
+  const submitTeamRequest = async (
+    url: string,
+    method: string,
+    body?: Record<string, unknown>
+  ) => {
+    try {
+      setIsSubmitting(true);
+
+      const response = await fetch(url, {
+        method,
+        headers: {
+          "Content-Type": "application/json",
+        },
+        ...(body && { body: JSON.stringify(body) }),
+      });
+
+      const data = await response.json();
+
+      if (data.success) {
+        onTeamsChange();
+        return true;
+      }
+
+      onError(data.error || "Failed to update team");
+    } catch (err) {
+      onError("Failed to update team");
+      console.error("Error updating team:", err);
+    } finally {
+      setIsSubmitting(false);
+    }
+    return false;
+  };
+
+  const createTeam = async () => {
+    if (
+      await submitTeamRequest("/api/admin/teams", "POST", { name: newTeamName })
+    ) {
+      setNewTeamName("");
+    }
+  };
+
+  const renameTeam = async (teamId: string) => {
+    if (
+      await submitTeamRequest(`/api/admin/teams/${teamId}`, "PUT", {
+        name: editName,
+      })
+    ) {
+      setEditingTeam(null);
+    }
+  };
+
+  const regenerateInviteCode = (team: AdminTeam) => {
+    if (
+      !confirm(
+        `Generate a new invite code for ${team.name}? The current code will stop working.`
+      )
+    ) {
+      return;
+    }
+    submitTeamRequest(`/api/admin/teams/${team._id}`, "PUT", {
+      regenerateInviteCode: true,
+    });
+  };
+
+  const deleteTeam = (team: AdminTeam) => {
+    if (
+      !confirm(
+        `Delete team ${team.name}?\n\nIts ${team.memberCount} member(s) will be removed from the team but keep their points.`
+      )
+    ) {
+      return;
+    }
+    submitTeamRequest(`/api/admin/teams/${team._id}`, "DELETE");
+  };
+
+  return (
+    <div className="space-y-4">
+      <div className="flex gap-2">
+        <input
+          type="text"
+          value={newTeamName}
+          onChange={(e) => setNewTeamName(e.target.value)}
+          className="flex-1 px-3 py-2 border border-gray-300 dark:border-gray-600 rounded-lg bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+          placeholder="New team name"
+          disabled={isSubmitting}
+        />
+        <button
+          onClick={createTeam}
+          disabled={!newTeamName.trim() || isSubmitting}
+          className="flex items-center gap-2 px-4 py-2 bg-green-600 text-white rounded-lg hover:bg-green-700 disabled:bg-gray-400 transition-colors"
+        >
+          <Plus size={16} />
+          Create Team
+        </button>
+      </div>
+
+      {loading ? (
+        <div className="text-center py-8">
+          <p className="text-gray-600 dark:text-gray-400">Loading teams...</p>
+        </div>
+      ) : teams.length === 0 ? (
+        <div className="text-center py-8 bg-gray-50 dark:bg-gray-800 rounded-lg">
+          <p className="text-gray-600 dark:text-gray-400">No teams found</p>
+        </div>
+      ) : (
+        <div className="space-y-2 max-h-96 overflow-y-auto">
+          {teams.map((team) => (
+            <div
+              key={team._id}
+              className="flex items-center justify-between p-4 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+            >
+              <div className="flex-1">
+                {editingTeam === team._id ? (
+                  <div className="flex gap-2">
+                    <input
+                      type="text"
+                      value={editName}
+                      onChange={(e) => setEditName(e.target.value)}
+                      className="flex-1 px-3 py-1 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                    />
+                    <button
+                      onClick={() => renameTeam(team._id)}
+                      disabled={!editName.trim() || isSubmitting}
+                      className="flex items-center gap-1 px-3 py-1 bg-green-600 text-white rounded hover:bg-green-700 disabled:bg-gray-400 text-sm"
+                    >
+                      <Save className="w-3 h-3" />
+                      Save
+                    </button>
+                    <button
+                      onClick={() => setEditingTeam(null)}
+                      className="flex items-center gap-1 px-3 py-1 bg-gray-600 text-white rounded hover:bg-gray-700 text-sm"
+                    >
+                      <X className="w-3 h-3" />
+                      Cancel
+                    </button>
+                  </div>
+                ) : (
+                  <h4 className="font-semibold text-gray-900 dark:text-white">
+                    {team.name}
+                  </h4>
+                )}
+                <div className="flex items-center gap-4 mt-1 text-sm text-gray-600 dark:text-gray-400">
+                  <span>
+                    Code:{" "}
+                    <strong className="font-mono">{team.inviteCode}</strong>
+                  </span>
+                  <span>
+                    Members: <strong>{team.memberCount}</strong>
+                  </span>
+                  <span>
+                    Score: <strong>{team.score}</strong>
+                  </span>
+                </div>
+              </div>
+              {editingTeam !== team._id && (
+                <div className="flex items-center gap-2">
+                  <button
+                    onClick={() => {
+                      setEditingTeam(team._id);
+                      setEditName(team.name);
+                    }}
+                    disabled={isSubmitting}
+                    className="flex items-center gap-1 px-3 py-1 bg-yellow-600 text-white rounded hover:bg-yellow-700 disabled:bg-gray-400 text-sm"
+                    title="Rename Team"
+                  >
+                    <Edit2 className="w-3 h-3" />
+                    Rename
+                  </button>
+                  <button
+                    onClick={() => regenerateInviteCode(team)}
+                    disabled={isSubmitting}
+                    className="flex items-center gap-1 px-3 py-1 bg-blue-600 text-white rounded hover:bg-blue-700 disabled:bg-gray-400 text-sm"
+                    title="Regenerate Invite Code"
+                  >
+                    <RefreshCw className="w-3 h-3" />
+                    New Code
+                  </button>
+                  <button
+                    onClick={() => deleteTeam(team)}
+                    disabled={isSubmitting}
+                    className="flex items-center gap-1 px-3 py-1 bg-red-600 text-white rounded hover:bg-red-700 disabled:bg-gray-400 text-sm"
+                    title="Delete Team"
+                  >
+                    <Trash2 className="w-3 h-3" />
+                  </button>
+                </div>
+              )}
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  );
+};
+
+export default TeamsManagementPanel;
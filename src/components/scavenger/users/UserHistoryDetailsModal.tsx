@@ -10,6 +10,7 @@ import {
   AlertTriangle,
   CheckCircle,
   XCircle,
+  Coins,
 } from "lucide-react";
 import Modal from "@/components/ui/modal";
 
@@ -29,6 +30,16 @@ interface ClaimAttempt {
   item_id?: string;
 }
 
+interface PointTransaction {
+  _id: string;
+  type: "claim" | "redemption" | "adjustment" | "revocation" | "bonus";
+  amount: number;
+  balanceAfter?: number;
+  reason?: string;
+  actorEmail?: string;
+  createdAt: string;
+}
+
 interface UserHistoryDetailsModalProps {
   isOpen: boolean;
   onClose: () => void;
@@ -46,6 +57,9 @@ const UserHistoryDetailsModal = ({
 }: UserHistoryDetailsModalProps) => {
   const [userHistory, setUserHistory] = useState<HuntItem[]>([]);
   const [claimAttempts, setClaimAttempts] = useState<ClaimAttempt[]>([]);
+  const [pointTransactions, setPointTransactions] = useState<
+    PointTransaction[]
+  >([]);
   const [loading, setLoading] = useState(false);
   const [error, setError] = useState<string | null>(null);
   const [isClearing, setIsClearing] = useState(false);
@@ -128,6 +142,7 @@ const UserHistoryDetailsModal = ({
       if (data.success) {
         setUserHistory(data.user.history || []);
         setClaimAttempts(data.user.claim_attempts || []);
+        setPointTransactions(data.user.pointTransactions || []);
       } else {
         setError(data.error || "Failed to fetch user history");
       }
@@ -149,6 +164,7 @@ const UserHistoryDetailsModal = ({
   const handleClose = () => {
     setUserHistory([]);
     setClaimAttempts([]);
+    setPointTransactions([]);
     setError(null);
     onClose();
   };
@@ -228,6 +244,64 @@ const UserHistoryDetailsModal = ({
               )}
             </div>
 
+            {/* Points Ledger Section */}
+            <div>
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white mb-4 flex items-center gap-2">
+                <Coins className="w-5 h-5 text-green-600" />
+                Points Ledger ({pointTransactions.length})
+              </h3>
+
+              {pointTransactions.length === 0 ? (
+                <div className="text-center py-6 bg-gray-50 dark:bg-gray-800 rounded-lg">
+                  <p className="text-gray-600 dark:text-gray-400">
+                    No points transactions recorded
+                  </p>
+                </div>
+              ) : (
+                <div className="space-y-2 max-h-64 overflow-y-auto">
+                  {pointTransactions.map((transaction) => (
+                    <div
+                      key={transaction._id}
+                      className="flex justify-between items-center p-3 border border-gray-200 dark:border-gray-700 rounded-lg bg-white dark:bg-gray-800"
+                    >
+                      <div>
+                        <div className="flex items-center gap-2">
+                          <span className="text-xs px-2 py-1 rounded bg-gray-100 dark:bg-gray-700 text-gray-700 dark:text-gray-300 capitalize">
+                            {transaction.type}
+                          </span>
+                          <span className="text-sm text-gray-900 dark:text-white">
+                            {transaction.reason}
+                          </span>
+                        </div>
+                        <p className="text-xs text-gray-500 dark:text-gray-400 mt-1">
+                          {new Date(transaction.createdAt).toLocaleString()}
+                          {transaction.actorEmail &&
+                            ` · by ${transaction.actorEmail}`}
+                        </p>
+                      </div>
+                      <div className="text-right">
+                        <p
+                          className={`text-sm font-semibold ${
+                            transaction.amount >= 0
+                              ? "text-green-700 dark:text-green-300"
+                              : "text-red-700 dark:text-red-300"
+                          }`}
+                        >
+                          {transaction.amount >= 0 ? "+" : ""}
+                          {transaction.amount}
+                        </p>
+                        {transaction.balanceAfter !== undefined && (
+                          <p className="text-xs text-gray-500 dark:text-gray-400">
+                            Balance: {transaction.balanceAfter}
+                          </p>
+                        )}
+                      </div>
+                    </div>
+                  ))}
+                </div>
+              )}
+            </div>
+
             {/* Claim Attempts Section */}
             <div>
               <div className="flex items-center justify-between mb-4">
@@ -14,14 +14,19 @@ import {
 } from "lucide-react";
 import Modal from "@/components/ui/modal";
 import UserHistoryDetailsModal from "./UserHistoryDetailsModal";
+import TeamsManagementPanel, { AdminTeam } from "./TeamsManagementPanel";
+import PointsReconcilePanel from "./PointsReconcilePanel";
 
 interface User {
   _id: string;
   email: string;
   name?: string;
+  leaderboardAlias?: string | null;
+  hideFromLeaderboard?: boolean;
   points: number;
   historyCount: number;
   claimAttemptsCount: number;
+  team: { _id: string; name: string } | null;
   createdAt: string;
   updatedAt: string;
 }
@@ -40,8 +45,15 @@ const UsersManagementModal = ({
   const [error, setError] = useState<string | null>(null);
   const [searchTerm, setSearchTerm] = useState("");
   const [editingUser, setEditingUser] = useState<string | null>(null);
-  const [editForm, setEditForm] = useState({ name: "", points: 0 });
+  const [editForm, setEditForm] = useState({
+    name: "",
+    points: 0,
+    pointsReason: "",
+    team: "",
+  });
   const [isSubmitting, setIsSubmitting] = useState(false);
+  const [teams, setTeams] = useState<AdminTeam[]>([]);
+  const [teamsLoading, setTeamsLoading] = useState(false);
 
   // History modal state
   const [historyModalOpen, setHistoryModalOpen] = useState(false);
@@ -73,9 +85,30 @@ const UsersManagementModal = ({
     }
   };
 
+  const fetchTeams = async () => {
+    try {
+      setTeamsLoading(true);
+
+      const response = await fetch("/api/admin/teams");
+      const data = await response.json();
+
+      if (data.success) {
+        setTeams(data.teams);
+      } else {
+        setError(data.error || "Failed to fetch teams");
+      }
+    } catch (err) {
+      setError("Failed to fetch teams");
+      console.error("Error fetching teams:", err);
+    } finally {
+      setTeamsLoading(false);
+    }
+  };
+
   useEffect(() => {
     if (isOpen) {
       fetchUsers();
+      fetchTeams();
     }
     // eslint-disable-next-line react-hooks/exhaustive-deps
   }, [isOpen]);
@@ -96,12 +129,14 @@ const UsersManagementModal = ({
     setEditForm({
       name: user.name || "",
       points: user.points,
+      pointsReason: "",
+      team: user.team?._id || "",
     });
   };
 
   const cancelEdit = () => {
     setEditingUser(null);
-    setEditForm({ name: "", points: 0 });
+    setEditForm({ name: "", points: 0, pointsReason: "", team: "" });
   };
 
   const saveUser = async (userId: string) => {
@@ -118,6 +153,10 @@ const UsersManagementModal = ({
           updates: {
             name: editForm.name,
             points: editForm.points,
+            ...(editForm.pointsReason && {
+              pointsReason: editForm.pointsReason,
+            }),
+            team: editForm.team || null,
           },
         }),
       });
@@ -126,14 +165,21 @@ const UsersManagementModal = ({
 
       if (data.success) {
         // Update local state
+        const team = teams.find((t) => t._id === editForm.team);
         setUsers(
           users.map((user) =>
             user._id === userId
-              ? { ...user, name: editForm.name, points: editForm.points }
+              ? {
+                  ...user,
+                  name: editForm.name,
+                  points: editForm.points,
+                  team: team ? { _id: team._id, name: team.name } : null,
+                }
               : user
           )
         );
         setEditingUser(null);
+        fetchTeams(); // Team member counts and scores may have changed
       } else {
         setError(data.error || "Failed to update user");
       }
@@ -234,6 +280,7 @@ const UsersManagementModal = ({
 
   const handleClose = () => {
     setUsers([]);
+    setTeams([]);
     setSearchTerm("");
     setEditingUser(null);
     setError(null);
@@ -316,7 +363,7 @@ const UsersManagementModal = ({
                     {editingUser === user._id ? (
                       // Edit mode
                       <div className="space-y-3">
-                        <div className="grid grid-cols-1 md:grid-cols-2 gap-4">
+                        <div className="grid grid-cols-1 md:grid-cols-3 gap-4">
                           <div>
                             <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
                               Name
@@ -351,7 +398,48 @@ const UsersManagementModal = ({
                               min="0"
                             />
                           </div>
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                              Team
+                            </label>
+                            <select
+                              value={editForm.team}
+                              onChange={(e) =>
+                                setEditForm({
+                                  ...editForm,
+                                  team: e.target.value,
+                                })
+                              }
+                              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                            >
+                              <option value="">No team</option>
+                              {teams.map((team) => (
+                                <option key={team._id} value={team._id}>
+                                  {team.name}
+                                </option>
+                              ))}
+                            </select>
+                          </div>
                         </div>
+                        {editForm.points !== user.points && (
+                          <div>
+                            <label className="block text-sm font-medium text-gray-700 dark:text-gray-300 mb-1">
+                              Reason for points change
+                            </label>
+                            <input
+                              type="text"
+                              value={editForm.pointsReason}
+                              onChange={(e) =>
+                                setEditForm({
+                                  ...editForm,
+                                  pointsReason: e.target.value,
+                                })
+                              }
+                              className="w-full px-3 py-2 border border-gray-300 dark:border-gray-600 rounded bg-white dark:bg-gray-700 text-gray-900 dark:text-white"
+                              placeholder="Recorded in the points ledger"
+                            />
+                          </div>
+                        )}
                         <div className="flex gap-2">
                           <button
                             onClick={() => saveUser(user._id)}
@@ -382,6 +470,16 @@ const UsersManagementModal = ({
                             <span className="text-sm text-gray-600 dark:text-gray-400">
                               {user.email}
                             </span>
+                            {user.leaderboardAlias && (
+                              <span className="px-2 py-0.5 bg-blue-100 dark:bg-blue-900 text-blue-800 dark:text-blue-200 text-xs rounded">
+                                Plays as &quot;{user.leaderboardAlias}&quot;
+                              </span>
+                            )}
+                            {user.hideFromLeaderboard && (
+                              <span className="px-2 py-0.5 bg-gray-200 dark:bg-gray-600 text-gray-800 dark:text-gray-200 text-xs rounded">
+                                Hidden from leaderboard
+                              </span>
+                            )}
                           </div>
                           <div className="flex items-center gap-4 mt-1 text-sm text-gray-600 dark:text-gray-400">
                             <span>
@@ -394,6 +492,9 @@ const UsersManagementModal = ({
                               Attempts:{" "}
                               <strong>{user.claimAttemptsCount}</strong>
                             </span>
+                            <span>
+                              Team: <strong>{user.team?.name || "None"}</strong>
+                            </span>
                             <span>
                               Joined:{" "}
                               {new Date(user.createdAt).toLocaleDateString()}
@@ -455,6 +556,36 @@ const UsersManagementModal = ({
             )}
           </div>
 
+          {/* Points ledger */}
+          <div className="space-y-4">
+            <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+              Points Ledger
+            </h3>
+            <PointsReconcilePanel
+              onReconciled={fetchUsers}
+              onError={setError}
+            />
+          </div>
+
+          {/* Teams */}
+          <div className="space-y-4">
+            <div className="flex items-center gap-2 mb-4">
+              <UsersIcon className="w-5 h-5 text-gray-600 dark:text-gray-400" />
+              <h3 className="text-lg font-semibold text-gray-900 dark:text-white">
+                Teams ({teams.length})
+              </h3>
+            </div>
+            <TeamsManagementPanel
+              teams={teams}
+              loading={teamsLoading}
+              onTeamsChange={() => {
+                fetchTeams();
+                fetchUsers();
+              }}
+              onError={setError}
+            />
+          </div>
+
           <div className="text-xs text-gray-500 dark:text-gray-400 border-t border-gray-200 dark:border-gray-700 pt-4">
             <div className="flex items-center gap-2 mb-2">
               <AlertTriangle className="w-4 h-4 text-yellow-600" />
@@ -1,45 +1,170 @@
+import QRCode from "qrcode";
+
+export type QRErrorCorrectionLevel = "L" | "M" | "Q" | "H";
+export type QRImageFormat = "png" | "svg";
+
+export interface QRCodeOptions {
+  size?: number; // Width and height in pixels
+  margin?: number; // Quiet zone around the code, in modules
+  errorCorrectionLevel?: QRErrorCorrectionLevel;
+  withLogo?: boolean; // Centered CUSEC logo
+}
+
+const LOGO_URL = "/images/logo.svg";
+
+// Share of the image covered by the logo - small enough for level H
+// error correction to recover the modules hidden behind it
+const LOGO_SCALE = 0.22;
+
+let logoPromise: Promise<string> | null = null;
+
+/**
+ * Load the CUSEC logo as a data URL (cached after the first load)
+ */
+const loadLogoDataURL = (): Promise<string> => {
+  if (!logoPromise) {
+    logoPromise = fetch(LOGO_URL)
+      .then((response) => {
+        if (!response.ok) throw new Error("Failed to load logo");
+        return response.text();
+      })
+      .then(
+        (svg) => `data:image/svg+xml;charset=utf-8,${encodeURIComponent(svg)}`
+      )
+      .catch((err) => {
+        logoPromise = null;
+        throw err;
+      });
+  }
+  return logoPromise;
+};
+
+const resolveOptions = ({
+  size = 250,
+  margin = 4,
+  errorCorrectionLevel,
+  withLogo = false,
+}: QRCodeOptions) => ({
+  size,
+  margin,
+  withLogo,
+  // The logo hides modules, so it defaults to the highest error correction
+  errorCorrectionLevel: errorCorrectionLevel || (withLogo ? "H" : "M"),
+});
+
+/**
+ * Render a QR code as an SVG document
+ * @param value - The text to encode (e.g. a hunt item identifier)
+ * @param options - Size, margin, error correction and logo options
+ * @returns SVG markup
+ */
+export const generateQRCodeSVG = async (
+  value: string,
+  options: QRCodeOptions = {}
+): Promise<string> => {
+  const { size, margin, errorCorrectionLevel, withLogo } =
+    resolveOptions(options);
+
+  const svg = await QRCode.toString(value, {
+    type: "svg",
+    width: size,
+    margin,
+    errorCorrectionLevel,
+  });
+
+  if (!withLogo) return svg;
+
+  // Coordinates inside the generated SVG are in modules, not pixels
+  const viewBoxSize = Number(svg.match(/viewBox="0 0 (\d+) \d+"/)?.[1]);
+  const logoSize = viewBoxSize * LOGO_SCALE;
+  const logoOffset = (viewBoxSize - logoSize) / 2;
+  const padding = logoSize * 0.1;
+
+  const background = logoSize + padding * 2;
+  const logo = [
+    `<rect x="${logoOffset - padding}" y="${logoOffset - padding}"`,
+    `width="${background}" height="${background}" rx="${padding}" fill="#ffffff"/>`,
+    `<image href="${await loadLogoDataURL()}" x="${logoOffset}" y="${logoOffset}"`,
+    `width="${logoSize}" height="${logoSize}"/>`,
+  ].join(" ");
+
+  return svg.replace("</svg>", `${logo}</svg>`);
+};
+
+/**
+ * Render a QR code as a PNG
+ * @param value - The text to encode (e.g. a hunt item identifier)
+ * @param options - Size, margin, error correction and logo options
+ * @returns PNG data URL, usable as an image src
+ */
+export const generateQRCodePNG = async (
+  value: string,
+  options: QRCodeOptions = {}
+): Promise<string> => {
+  const { size, margin, errorCorrectionLevel, withLogo } =
+    resolveOptions(options);
+
+  const canvas = document.createElement("canvas");
+  await QRCode.toCanvas(canvas, value, {
+    width: size,
+    margin,
+    errorCorrectionLevel,
+  });
+
+  if (withLogo) {
+    const context = canvas.getContext("2d");
+    const logo = new Image();
+    logo.src = await loadLogoDataURL();
+    await logo.decode();
+
+    const logoSize = canvas.width * LOGO_SCALE;
+    const logoOffset = (canvas.width - logoSize) / 2;
+    const padding = logoSize * 0.1;
+
+    if (context) {
+      context.fillStyle = "#ffffff";
+      context.fillRect(
+        logoOffset - padding,
+        logoOffset - padding,
+        logoSize + padding * 2,
+        logoSize + padding * 2
+      );
+      context.drawImage(logo, logoOffset, logoOffset, logoSize, logoSize);
+    }
+  }
+
+  return canvas.toDataURL("image/png");
+};
+
 /**
  * Generate and download a QR code for a hunt item identifier
+ * (static codes only - rotating items are shown live with RotatingQRModal)
  */
 export const generateAndDownloadQR = async (
   identifier: string,
-  itemName: string
+  itemName: string,
+  format: QRImageFormat = "png",
+  options: QRCodeOptions = {}
 ): Promise<void> => {
   try {
-    // Create a simple QR code using a QR code service API
-    const qrUrl = `https://api.qrserver.com/v1/create-qr-code/?size=300x300&data=${encodeURIComponent(
-      identifier
-    )}`;
-
-    // Create a temporary link to download the QR code
-    const response = await fetch(qrUrl);
-    const blob = await response.blob();
-    const url = window.URL.createObjectURL(blob);
+    const href =
+      format === "svg"
+        ? `data:image/svg+xml;charset=utf-8,${encodeURIComponent(
+            await generateQRCodeSVG(identifier, options)
+          )}`
+        : await generateQRCodePNG(identifier, { size: 600, ...options });
 
     const link = document.createElement("a");
-    link.href = url;
+    link.href = href;
     link.download = `qr-${itemName.replace(
       /[^a-zA-Z0-9]/g,
       "-"
-    )}-${identifier}.png`;
+    )}-${identifier}.${format}`;
     document.body.appendChild(link);
     link.click();
     document.body.removeChild(link);
-    window.URL.revokeObjectURL(url);
   } catch (err) {
     console.error("Error generating QR code:", err);
     throw new Error("Failed to generate QR code");
   }
 };
-
-/**
- * Generate QR code URL for display
- */
-export const getQRCodeURL = (
-  identifier: string,
-  size: number = 250
-): string => {
-  return `https://api.qrserver.com/v1/create-qr-code/?size=${size}x${size}&data=${encodeURIComponent(
-    identifier
-  )}`;
-};
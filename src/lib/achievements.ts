@@ -0,0 +1,294 @@
+import { Types, isValidObjectId } from "mongoose";
+import { Achievement, HuntItem } from "./models";
+import { applyPointTransaction } from "./pointsLedger";
+
+export type AchievementRule = "all" | "count";
+
+export interface UnlockedAchievementRecord {
+  achievement: Types.ObjectId;
+  unlockedAt: Date;
+}
+
+// Minimal shape of a User document needed to evaluate achievements
+interface AchievingUser {
+  _id: Types.ObjectId;
+  email: string;
+  history: Types.ObjectId[];
+  points: number;
+  achievements: UnlockedAchievementRecord[];
+}
+
+// Criteria fields shared by the Achievement model and admin input
+interface AchievementCriteria {
+  huntItems?: (Types.ObjectId | string)[];
+  tags?: string[];
+  kind?: "qr" | "puzzle" | null;
+  rule?: AchievementRule;
+  requiredCount?: number | null;
+}
+
+export interface AchievementFields extends AchievementCriteria {
+  name?: string;
+  description?: string;
+  bonusPoints?: number;
+  active?: boolean;
+}
+
+interface AchievementDocument {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  bonusPoints?: number;
+}
+
+/**
+ * Normalize hunt item or achievement tags
+ * @param tags - Array of tags or a comma separated string
+ * @returns Lowercase, trimmed, de-duplicated tags
+ */
+export function parseTags(tags: unknown): string[] {
+  const list = Array.isArray(tags)
+    ? tags
+    : typeof tags === "string"
+      ? tags.split(",")
+      : [];
+
+  return [
+    ...new Set(
+      list
+        .filter((tag): tag is string => typeof tag === "string")
+        .map((tag) => tag.trim().toLowerCase())
+        .filter(Boolean)
+    ),
+  ];
+}
+
+/**
+ * Build the hunt item query matching an achievement's criteria
+ * @param criteria - Achievement hunt items, tags and kind
+ * @returns Mongo filter, or null if the achievement matches nothing
+ */
+export function getMatchingItemFilter(criteria: AchievementCriteria) {
+  const conditions: Record<string, unknown>[] = [];
+
+  if (criteria.huntItems?.length) {
+    conditions.push({ _id: { $in: criteria.huntItems } });
+  }
+  if (criteria.tags?.length) {
+    conditions.push({ tags: { $in: criteria.tags } });
+  }
+  if (criteria.kind) {
+    // Items created before puzzles existed have no kind and are QR items
+    conditions.push(
+      criteria.kind === "qr"
+        ? { kind: { $ne: "puzzle" } }
+        : { kind: criteria.kind }
+    );
+  }
+
+  return conditions.length > 0 ? { $or: conditions } : null;
+}
+
+/**
+ * Format an achievement for API responses
+ * @param achievement - Achievement document
+ * @param unlockedAt - When the user unlocked it
+ */
+export function serializeAchievement(
+  achievement: AchievementDocument,
+  unlockedAt?: Date
+) {
+  return {
+    _id: achievement._id,
+    name: achievement.name,
+    description: achievement.description,
+    bonusPoints: achievement.bonusPoints || 0,
+    ...(unlockedAt && { unlockedAt }),
+  };
+}
+
+/**
+ * Unlock any achievements the user now qualifies for and add their bonus points.
+ * The user document is modified in place; the caller is responsible for saving it
+ * and the returned bonus point transactions.
+ * @param user - User document with an up to date claim history
+ * @returns The newly unlocked achievements and their bonus point transactions
+ */
+export async function evaluateAchievements(user: AchievingUser) {
+  const unlockedIds = user.achievements.map((record) => record.achievement);
+  const candidates: (AchievementDocument & AchievementCriteria)[] =
+    await Achievement.find({ active: true, _id: { $nin: unlockedIds } });
+
+  const unlocked = [];
+  const transactions = [];
+
+  for (const achievement of candidates) {
+    const filter = getMatchingItemFilter(achievement);
+    if (!filter) continue;
+
+    // "all" only requires the items that haven't been archived
+    const itemFilter =
+      achievement.rule === "count" ? filter : { ...filter, archivedAt: null };
+
+    const claimedCount = await HuntItem.countDocuments({
+      ...itemFilter,
+      _id: { $in: user.history },
+    });
+    const requiredCount =
+      achievement.rule === "count"
+        ? achievement.requiredCount
+        : await HuntItem.countDocuments(itemFilter);
+
+    if (!requiredCount || claimedCount < requiredCount) continue;
+
+    const unlockedAt = new Date();
+    user.achievements.push({ achievement: achievement._id, unlockedAt });
+    transactions.push(
+      applyPointTransaction(user, {
+        type: "bonus",
+        amount: achievement.bonusPoints || 0,
+        reason: `Unlocked "${achievement.name}"`,
+        actorEmail: user.email,
+        achievement: achievement._id,
+      })
+    );
+    unlocked.push(serializeAchievement(achievement, unlockedAt));
+  }
+
+  return { unlocked, transactions };
+}
+
+/**
+ * Load the achievements a user has unlocked
+ * @param user - User document
+ * @returns Unlocked achievements, most recent first
+ */
+export async function getUnlockedAchievements(user: {
+  achievements?: UnlockedAchievementRecord[];
+}) {
+  const records = user.achievements || [];
+  if (records.length === 0) return [];
+
+  const achievements: AchievementDocument[] = await Achievement.find({
+    _id: { $in: records.map((record) => record.achievement) },
+  });
+  const byId = new Map(
+    achievements.map((achievement) => [achievement._id.toString(), achievement])
+  );
+
+  return records
+    .filter((record) => byId.has(record.achievement.toString()))
+    .sort((a, b) => b.unlockedAt.getTime() - a.unlockedAt.getTime())
+    .map((record) =>
+      serializeAchievement(
+        byId.get(record.achievement.toString())!,
+        record.unlockedAt
+      )
+    );
+}
+
+/**
+ * Validate achievement fields sent by the admin achievements form.
+ * Only fields present in the input are returned, so omitted fields are left unchanged.
+ * @param input - Request body fields
+ * @returns The fields to store, or an error message
+ */
+export function parseAchievementInput(input: {
+  name?: unknown;
+  description?: unknown;
+  huntItems?: unknown;
+  tags?: unknown;
+  kind?: unknown;
+  rule?: unknown;
+  requiredCount?: unknown;
+  bonusPoints?: unknown;
+  active?: unknown;
+}): { fields: AchievementFields } | { error: string } {
+  const fields: AchievementFields = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return { error: "Name is required" };
+    }
+    fields.name = input.name.trim();
+  }
+
+  if (input.description !== undefined) {
+    fields.description =
+      typeof input.description === "string" ? input.description : "";
+  }
+
+  if (input.huntItems !== undefined) {
+    const huntItems = Array.isArray(input.huntItems) ? input.huntItems : [];
+    if (!huntItems.every((id) => isValidObjectId(id))) {
+      return { error: "Invalid hunt item ID" };
+    }
+    fields.huntItems = huntItems as string[];
+  }
+
+  if (input.tags !== undefined) {
+    fields.tags = parseTags(input.tags);
+  }
+
+  if (input.kind !== undefined) {
+    if (
+      input.kind !== null &&
+      input.kind !== "" &&
+      input.kind !== "qr" &&
+      input.kind !== "puzzle"
+    ) {
+      return { error: "Kind must be qr or puzzle" };
+    }
+    fields.kind = input.kind || null;
+  }
+
+  if (input.rule !== undefined) {
+    if (input.rule !== "all" && input.rule !== "count") {
+      return { error: "Rule must be all or count" };
+    }
+    fields.rule = input.rule;
+  }
+
+  if (input.requiredCount !== undefined) {
+    if (input.requiredCount === null || input.requiredCount === "") {
+      fields.requiredCount = null;
+    } else {
+      const requiredCount = Number(input.requiredCount);
+      if (!Number.isInteger(requiredCount) || requiredCount < 1) {
+        return { error: "Required count must be a positive whole number" };
+      }
+      fields.requiredCount = requiredCount;
+    }
+  }
+
+  if (input.bonusPoints !== undefined) {
+    const bonusPoints = Number(input.bonusPoints);
+    if (!Number.isFinite(bonusPoints) || bonusPoints < 0) {
+      return { error: "Bonus points must be zero or more" };
+    }
+    fields.bonusPoints = bonusPoints;
+  }
+
+  if (input.active !== undefined) {
+    fields.active = !!input.active;
+  }
+
+  return { fields };
+}
+
+/**
+ * Check that a complete achievement can ever be unlocked
+ * @param achievement - Achievement criteria after applying updates
+ * @returns Error message, or null if the criteria are usable
+ */
+export function validateAchievementCriteria(
+  achievement: AchievementCriteria
+): string | null {
+  if (!getMatchingItemFilter(achievement)) {
+    return "An achievement needs at least one hunt item, tag or kind";
+  }
+  if (achievement.rule === "count" && !achievement.requiredCount) {
+    return "A count rule needs a required count";
+  }
+  return null;
+}
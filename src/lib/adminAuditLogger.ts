@@ -6,7 +6,16 @@ type LoggableData = Record<string, unknown> | null | undefined;
 interface LogAdminActionParams {
   adminEmail: string;
   action: string;
-  resourceType: "user" | "huntItem" | "claimAttempts" | "scheduleItem";
+  resourceType:
+    | "user"
+    | "huntItem"
+    | "claimAttempts"
+    | "scheduleItem"
+    | "team"
+    | "achievement"
+    | "prize"
+    | "leaderboard"
+    | "anomaly";
   targetUserEmail?: string;
   resourceId?: string;
   details?: LoggableData;
@@ -94,8 +103,111 @@ export function createActionDescription(
       return `Updated hunt item: ${updatedItemName}`;
 
     case "DELETE_HUNT_ITEM":
-      const deletedItemName = (details as { name?: string })?.name || "Unknown";
-      return `Deleted hunt item: ${deletedItemName}`;
+      const deletedItemDetails = details as {
+        name?: string;
+        pointsMode?: string;
+        pointsRevoked?: number;
+      };
+      return `Deleted hunt item: ${deletedItemDetails?.name || "Unknown"}${
+        deletedItemDetails?.pointsMode === "revoke"
+          ? ` (revoked ${deletedItemDetails.pointsRevoked || 0} points)`
+          : ""
+      }`;
+
+    case "ARCHIVE_HUNT_ITEM":
+      const archivedItemName =
+        (details as { name?: string })?.name || "Unknown";
+      return `Archived hunt item: ${archivedItemName}`;
+
+    case "RESTORE_HUNT_ITEM":
+      const restoredItemName =
+        (details as { name?: string })?.name || "Unknown";
+      return `Restored hunt item: ${restoredItemName}`;
+
+    case "IMPORT_HUNT_ITEMS":
+      const importedCount = (details as { count?: number })?.count || 0;
+      return `Imported ${importedCount} hunt items`;
+
+    case "CREATE_TEAM":
+      const teamName = (details as { name?: string })?.name || "Unknown";
+      return `Created team: ${teamName}`;
+
+    case "UPDATE_TEAM":
+      const updatedTeamName = (details as { name?: string })?.name || "Unknown";
+      return `Updated team: ${updatedTeamName}`;
+
+    case "DELETE_TEAM":
+      const deletedTeamName = (details as { name?: string })?.name || "Unknown";
+      return `Deleted team: ${deletedTeamName}`;
+
+    case "CREATE_ACHIEVEMENT":
+      const achievementName = (details as { name?: string })?.name || "Unknown";
+      return `Created achievement: ${achievementName}`;
+
+    case "UPDATE_ACHIEVEMENT":
+      const updatedAchievementName =
+        (details as { name?: string })?.name || "Unknown";
+      return `Updated achievement: ${updatedAchievementName}`;
+
+    case "DELETE_ACHIEVEMENT":
+      const deletedAchievementName =
+        (details as { name?: string })?.name || "Unknown";
+      return `Deleted achievement: ${deletedAchievementName}`;
+
+    case "CREATE_PRIZE":
+      const prizeName = (details as { name?: string })?.name || "Unknown";
+      return `Created prize: ${prizeName}`;
+
+    case "UPDATE_PRIZE":
+      const updatedPrizeName =
+        (details as { name?: string })?.name || "Unknown";
+      return `Updated prize: ${updatedPrizeName}`;
+
+    case "DELETE_PRIZE":
+      const deletedPrizeName =
+        (details as { name?: string })?.name || "Unknown";
+      return `Deleted prize: ${deletedPrizeName}`;
+
+    case "REDEEM_PRIZE":
+      const redeemedPrizeName =
+        (details as { prizeName?: string })?.prizeName || "Unknown";
+      return `Redeemed prize: ${redeemedPrizeName}`;
+
+    case "MIGRATE_CLAIM_ATTEMPTS":
+      const migrationDetails = details as {
+        usersMigrated?: number;
+        attemptsMigrated?: number;
+      };
+      return `Migrated ${migrationDetails?.attemptsMigrated || 0} claim attempts for ${
+        migrationDetails?.usersMigrated || 0
+      } users`;
+
+    case "RECONCILE_POINTS":
+      const reconcileDetails = details as {
+        strategy?: string;
+        usersAffected?: number;
+      };
+      return `Reconciled points ledger (${reconcileDetails?.strategy}) for ${
+        reconcileDetails?.usersAffected || 0
+      } users`;
+
+    case "FREEZE_LEADERBOARD":
+      const freezeAt = (details as { freezeAt?: string })?.freezeAt;
+      return `Froze the leaderboard at ${
+        freezeAt ? new Date(freezeAt).toLocaleString() : "Unknown"
+      }`;
+
+    case "UNFREEZE_LEADERBOARD":
+      return "Lifted the leaderboard freeze";
+
+    case "CREATE_LEADERBOARD_SNAPSHOT":
+      const snapshotLabel = (details as { label?: string })?.label || "Unknown";
+      return `Took leaderboard snapshot: ${snapshotLabel}`;
+
+    case "REVIEW_ANOMALY":
+      const anomalySummary =
+        (details as { summary?: string })?.summary || "Unknown";
+      return `Reviewed anomaly: ${anomalySummary}`;
 
     case "CLEAR_CLAIM_ATTEMPTS_ALL":
       return "Cleared all claim attempts for user";
@@ -0,0 +1,383 @@
+import { Types } from "mongoose";
+import { AnomalyReview, ClaimAttempt, HuntItem, User } from "./models";
+import {
+  ClaimWindow,
+  describeClaimWindow,
+  isWithinClaimWindow,
+  resolveClaimWindow,
+} from "./claimWindow";
+
+export type AnomalyType =
+  | "rapid-claims"
+  | "shared-sequence"
+  | "shared-ip"
+  | "shared-user-agent"
+  | "outside-window";
+
+// Successful claims made closer together than this are flagged
+const RAPID_CLAIM_COUNT = 5;
+const RAPID_CLAIM_SECONDS = 60;
+// Accounts claiming this many items in the same order are flagged
+const SHARED_SEQUENCE_LENGTH = 5;
+// Venue Wi-Fi and popular phones mean some sharing is normal, so these are
+// deliberately high - flags are leads to review, not proof
+const SHARED_IP_ACCOUNTS = 10;
+const SHARED_USER_AGENT_ACCOUNTS = 5;
+
+export interface AnomalyUser {
+  _id: string;
+  name: string;
+  email: string;
+}
+
+export interface AnomalyReviewInfo {
+  reviewedBy?: string;
+  reviewedAt: Date;
+  note: string;
+}
+
+export interface AnomalyFlag {
+  key: string; // Stable between reports, used to record reviews
+  type: AnomalyType;
+  summary: string;
+  users: AnomalyUser[];
+  occurredAt: Date; // Most recent claim attempt behind the flag
+  details: Record<string, unknown>;
+  review: AnomalyReviewInfo | null;
+}
+
+// A flag before its users and review are looked up
+type DetectedFlag = Omit<AnomalyFlag, "users" | "review"> & {
+  userIds: string[];
+};
+
+interface SuccessfulClaim {
+  _id: Types.ObjectId;
+  user: Types.ObjectId;
+  item_id: Types.ObjectId;
+  timestamp: Date;
+}
+
+interface ClaimedItem {
+  _id: Types.ObjectId;
+  name: string;
+  availableFrom?: Date | null;
+  availableUntil?: Date | null;
+  scheduleLink?: {
+    day?: Types.ObjectId | null;
+    scheduleItem?: Types.ObjectId | null;
+  } | null;
+}
+
+// Successful claims grouped by user, oldest first
+function groupClaimsByUser(claims: SuccessfulClaim[]) {
+  const byUser = new Map<string, SuccessfulClaim[]>();
+  for (const claim of claims) {
+    const userClaims = byUser.get(claim.user.toString()) || [];
+    userClaims.push(claim);
+    byUser.set(claim.user.toString(), userClaims);
+  }
+  return byUser;
+}
+
+/**
+ * Flag bursts of successful claims made within seconds of each other.
+ * Overlapping bursts are merged, so each flag covers one run of claims.
+ * @param claimsByUser - Each user's successful claims, oldest first
+ */
+function detectRapidClaims(claimsByUser: Map<string, SuccessfulClaim[]>) {
+  const flags: DetectedFlag[] = [];
+  const windowMs = RAPID_CLAIM_SECONDS * 1000;
+
+  for (const [userId, claims] of claimsByUser) {
+    const bursts: { first: number; last: number }[] = [];
+    let start = 0;
+
+    for (let end = 0; end < claims.length; end++) {
+      while (
+        claims[end].timestamp.getTime() - claims[start].timestamp.getTime() >
+        windowMs
+      ) {
+        start++;
+      }
+      if (end - start + 1 < RAPID_CLAIM_COUNT) continue;
+
+      const previous = bursts[bursts.length - 1];
+      if (previous && previous.last >= start) {
+        previous.last = end;
+      } else {
+        bursts.push({ first: start, last: end });
+      }
+    }
+
+    for (const { first, last } of bursts) {
+      const from = claims[first].timestamp;
+      const until = claims[last].timestamp;
+      const seconds = Math.round((until.getTime() - from.getTime()) / 1000);
+
+      flags.push({
+        key: `rapid-claims:${userId}:${claims[first]._id}`,
+        type: "rapid-claims",
+        summary: `${last - first + 1} successful claims in ${seconds} seconds`,
+        userIds: [userId],
+        occurredAt: until,
+        details: { claims: last - first + 1, seconds, from, until },
+      });
+    }
+  }
+
+  return flags;
+}
+
+/**
+ * Flag accounts that claimed the same run of items in the same order, e.g.
+ * one person claiming codes for several accounts
+ * @param claimsByUser - Each user's successful claims, oldest first
+ * @param items - Names of the claimed items
+ */
+function detectSharedSequences(
+  claimsByUser: Map<string, SuccessfulClaim[]>,
+  items: Map<string, ClaimedItem>
+) {
+  // Every run of consecutive claims, and who made it
+  const runs = new Map<string, { users: Set<string>; occurredAt: Date }>();
+  for (const [userId, claims] of claimsByUser) {
+    for (let i = 0; i + SHARED_SEQUENCE_LENGTH <= claims.length; i++) {
+      const run = claims.slice(i, i + SHARED_SEQUENCE_LENGTH);
+      const key = run.map((claim) => claim.item_id.toString()).join(",");
+      const lastClaimedAt = run[run.length - 1].timestamp;
+      const entry = runs.get(key) || {
+        users: new Set<string>(),
+        occurredAt: lastClaimedAt,
+      };
+      entry.users.add(userId);
+      if (lastClaimedAt > entry.occurredAt) entry.occurredAt = lastClaimedAt;
+      runs.set(key, entry);
+    }
+  }
+
+  // One flag per group of accounts, however many runs they share
+  const groups = new Map<
+    string,
+    { userIds: string[]; runs: number; itemIds: string[]; occurredAt: Date }
+  >();
+  for (const [runKey, { users, occurredAt }] of runs) {
+    if (users.size < 2) continue;
+
+    const userIds = [...users].sort();
+    const groupKey = userIds.join(",");
+    const group = groups.get(groupKey) || {
+      userIds,
+      runs: 0,
+      itemIds: runKey.split(","),
+      occurredAt,
+    };
+    group.runs++;
+    if (occurredAt > group.occurredAt) group.occurredAt = occurredAt;
+    groups.set(groupKey, group);
+  }
+
+  return [...groups.entries()].map(([groupKey, group]): DetectedFlag => ({
+    key: `shared-sequence:${groupKey}`,
+    type: "shared-sequence",
+    summary: `${group.userIds.length} accounts claimed ${SHARED_SEQUENCE_LENGTH}+ items in the same order`,
+    userIds: group.userIds,
+    occurredAt: group.occurredAt,
+    details: {
+      sharedRuns: group.runs,
+      items: group.itemIds.map(
+        (itemId) => items.get(itemId)?.name || "Deleted item"
+      ),
+    },
+  }));
+}
+
+/**
+ * Flag IP addresses or user agents that claim attempts came from for many
+ * different accounts
+ * @param field - Which claim attempt field to group by
+ * @param minAccounts - How many accounts make a flag
+ */
+async function detectSharedSources(
+  field: "ipAddress" | "userAgent",
+  minAccounts: number
+) {
+  const sources: { _id: string; users: Types.ObjectId[]; lastAt: Date }[] =
+    await ClaimAttempt.aggregate([
+      { $match: { [field]: { $nin: [null, ""] } } },
+      {
+        $group: {
+          _id: `$${field}`,
+          users: { $addToSet: "$user" },
+          lastAt: { $max: "$timestamp" },
+        },
+      },
+      { $match: { $expr: { $gte: [{ $size: "$users" }, minAccounts] } } },
+    ]);
+
+  return sources.map((source): DetectedFlag =>
+    field === "ipAddress"
+      ? {
+          key: `shared-ip:${source._id}`,
+          type: "shared-ip",
+          summary: `${source.users.length} accounts claimed from IP ${source._id}`,
+          userIds: source.users.map((user) => user.toString()),
+          occurredAt: source.lastAt,
+          details: { ipAddress: source._id },
+        }
+      : {
+          key: `shared-user-agent:${source._id}`,
+          type: "shared-user-agent",
+          summary: `${source.users.length} accounts claimed from the same browser`,
+          userIds: source.users.map((user) => user.toString()),
+          occurredAt: source.lastAt,
+          details: { userAgent: source._id },
+        }
+  );
+}
+
+/**
+ * Flag claims of time-windowed items made outside their window, e.g. before
+ * the window was added or after it was moved
+ * @param claims - Successful claims
+ * @param items - The claimed items
+ */
+async function detectOutsideWindowClaims(
+  claims: SuccessfulClaim[],
+  items: Map<string, ClaimedItem>
+) {
+  const windows = new Map<string, ClaimWindow | null>();
+  for (const [itemId, item] of items) {
+    const hasWindow =
+      item.availableFrom ||
+      item.availableUntil ||
+      (item.scheduleLink?.day && item.scheduleLink?.scheduleItem);
+    if (!hasWindow) continue;
+
+    const window = await resolveClaimWindow(item);
+    // A linked event that was removed leaves an empty window - nothing to check
+    windows.set(itemId, window.until?.getTime() === 0 ? null : window);
+  }
+
+  const flags: DetectedFlag[] = [];
+  for (const claim of claims) {
+    const window = windows.get(claim.item_id.toString());
+    if (!window || isWithinClaimWindow(window, claim.timestamp)) continue;
+
+    const itemName = items.get(claim.item_id.toString())?.name || "";
+    flags.push({
+      key: `outside-window:${claim._id}`,
+      type: "outside-window",
+      summary: `Claimed "${itemName}" outside its claim window`,
+      userIds: [claim.user.toString()],
+      occurredAt: claim.timestamp,
+      details: {
+        item: itemName,
+        claimedAt: claim.timestamp,
+        window: describeClaimWindow(window),
+      },
+    });
+  }
+
+  return flags;
+}
+
+/**
+ * Analyze claim attempts for patterns that suggest cheating
+ * @returns Every flag, most recent first, with its accounts and any review
+ */
+export async function getAnomalyReport(): Promise<AnomalyFlag[]> {
+  const claims = (await ClaimAttempt.find({
+    success: true,
+    item_id: { $ne: null },
+  })
+    .sort({ timestamp: 1 })
+    .select("user item_id timestamp")) as SuccessfulClaim[];
+
+  const claimedItems = (await HuntItem.find({
+    _id: { $in: [...new Set(claims.map((claim) => claim.item_id))] },
+  }).select("name availableFrom availableUntil scheduleLink")) as ClaimedItem[];
+  const items = new Map(
+    claimedItems.map((item) => [item._id.toString(), item])
+  );
+
+  const claimsByUser = groupClaimsByUser(claims);
+  const detected = [
+    ...detectRapidClaims(claimsByUser),
+    ...detectSharedSequences(claimsByUser, items),
+    ...(await detectSharedSources("ipAddress", SHARED_IP_ACCOUNTS)),
+    ...(await detectSharedSources("userAgent", SHARED_USER_AGENT_ACCOUNTS)),
+    ...(await detectOutsideWindowClaims(claims, items)),
+  ];
+
+  const userIds = [...new Set(detected.flatMap((flag) => flag.userIds))];
+  const [users, reviews] = await Promise.all([
+    User.find({ _id: { $in: userIds } }).select("name email"),
+    AnomalyReview.find({ flagKey: { $in: detected.map((flag) => flag.key) } }),
+  ]);
+  const usersById = new Map<string, AnomalyUser>(
+    users.map((user: AnomalyUser & { _id: Types.ObjectId }) => [
+      user._id.toString(),
+      { _id: user._id.toString(), name: user.name || "", email: user.email },
+    ])
+  );
+  const reviewsByKey = new Map(
+    reviews.map((review) => [review.flagKey as string, review])
+  );
+
+  return detected
+    .map(({ userIds, ...flag }) => {
+      const review = reviewsByKey.get(flag.key);
+      const reviewedUsers = new Set<string>(
+        review?.users.map((user: Types.ObjectId) => user.toString()) || []
+      );
+
+      return {
+        ...flag,
+        users: userIds.flatMap((userId) => usersById.get(userId) || []),
+        // A review only counts while it covers every account in the flag
+        review:
+          review && userIds.every((userId) => reviewedUsers.has(userId))
+            ? {
+                reviewedBy: review.reviewedBy,
+                reviewedAt: review.reviewedAt,
+                note: review.note,
+              }
+            : null,
+      };
+    })
+    .sort((a, b) => b.occurredAt.getTime() - a.occurredAt.getTime());
+}
+
+/**
+ * Mark a flag from the anomaly report as reviewed
+ * @param flagKey - Key of the flag being reviewed
+ * @param note - Optional note on what was found
+ * @param reviewedBy - Email of the reviewing admin
+ * @returns The reviewed flag, or null if it's no longer reported
+ */
+export async function reviewAnomalyFlag(
+  flagKey: string,
+  note: string,
+  reviewedBy?: string
+) {
+  const flag = (await getAnomalyReport()).find(
+    (entry) => entry.key === flagKey
+  );
+  if (!flag) return null;
+
+  const review = { reviewedBy, reviewedAt: new Date(), note };
+  await AnomalyReview.findOneAndUpdate(
+    { flagKey },
+    {
+      $set: {
+        ...review,
+        type: flag.type,
+        users: flag.users.map((user) => user._id),
+      },
+    },
+    { upsert: true }
+  );
+
+  return { ...flag, review };
+}
@@ -0,0 +1,126 @@
+import { afterEach, describe, expect, it, vi } from "vitest";
+import { createCache, MemoryCacheStore } from "./cache";
+
+// A cache on a clock the test controls
+function setup(ttlMs = 1000, maxStaleMs = 5000) {
+  let time = 0;
+  const cache = createCache<string>({
+    ttlMs,
+    maxStaleMs,
+    store: new MemoryCacheStore<string>(),
+    now: () => time,
+  });
+  return {
+    cache,
+    advance: (ms: number) => {
+      time += ms;
+    },
+  };
+}
+
+// A promise that can be settled from the test
+function deferred<T>() {
+  let resolve!: (value: T) => void;
+  const promise = new Promise<T>((res) => {
+    resolve = res;
+  });
+  return { promise, resolve };
+}
+
+describe("createCache", () => {
+  afterEach(() => {
+    vi.restoreAllMocks();
+  });
+
+  it("serves a HIT inside the TTL without reloading", async () => {
+    const { cache, advance } = setup();
+    const loader = vi.fn().mockResolvedValue("first");
+
+    expect(await cache.get("key", loader)).toEqual({
+      value: "first",
+      status: "MISS",
+    });
+    advance(999);
+    expect(await cache.get("key", loader)).toEqual({
+      value: "first",
+      status: "HIT",
+    });
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+
+  it("reloads with a MISS once the TTL has passed", async () => {
+    const { cache, advance } = setup();
+    const loader = vi
+      .fn()
+      .mockResolvedValueOnce("first")
+      .mockResolvedValueOnce("second");
+
+    await cache.get("key", loader);
+    advance(1000);
+
+    expect(await cache.get("key", loader)).toEqual({
+      value: "second",
+      status: "MISS",
+    });
+    expect(loader).toHaveBeenCalledTimes(2);
+  });
+
+  it("serves STALE when reloading fails within maxStaleMs", async () => {
+    const { cache, advance } = setup();
+    vi.spyOn(console, "error").mockImplementation(() => {});
+
+    await cache.get("key", async () => "first");
+    advance(4999);
+
+    expect(
+      await cache.get("key", async () => {
+        throw new Error("Database down");
+      })
+    ).toEqual({ value: "first", status: "STALE" });
+  });
+
+  it("rethrows when the cached value is older than maxStaleMs", async () => {
+    const { cache, advance } = setup();
+
+    await cache.get("key", async () => "first");
+    advance(5000);
+
+    await expect(
+      cache.get("key", async () => {
+        throw new Error("Database down");
+      })
+    ).rejects.toThrow("Database down");
+  });
+
+  it("doesn't store a load that was in flight when invalidated", async () => {
+    const { cache } = setup();
+    const pending = deferred<string>();
+
+    const inFlight = cache.get("key", () => pending.promise);
+    cache.invalidate();
+    pending.resolve("outdated");
+
+    // The caller that started the load still gets its value...
+    expect(await inFlight).toEqual({ value: "outdated", status: "MISS" });
+    // ...but it isn't cached, so the next request loads again
+    expect(await cache.get("key", async () => "current")).toEqual({
+      value: "current",
+      status: "MISS",
+    });
+  });
+
+  it("shares one load between concurrent requests", async () => {
+    const { cache } = setup();
+    const pending = deferred<string>();
+    const loader = vi.fn(() => pending.promise);
+
+    const requests = [cache.get("key", loader), cache.get("key", loader)];
+    pending.resolve("shared");
+
+    expect(await Promise.all(requests)).toEqual([
+      { value: "shared", status: "MISS" },
+      { value: "shared", status: "MISS" },
+    ]);
+    expect(loader).toHaveBeenCalledTimes(1);
+  });
+});
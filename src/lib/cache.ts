@@ -0,0 +1,136 @@
+export type CacheStatus = "HIT" | "MISS" | "STALE";
+
+export interface CacheEntry<T> {
+  value: T;
+  storedAt: number; // Milliseconds since the epoch
+}
+
+// Where cached values live. The default keeps them in memory; tests or
+// multi-instance deployments can pass their own.
+export interface CacheStore<T> {
+  get(key: string): CacheEntry<T> | undefined;
+  set(key: string, entry: CacheEntry<T>): void;
+  clear(): void;
+}
+
+/**
+ * Cache store backed by a Map. Once full, the oldest entry is dropped to make
+ * room for a new one.
+ */
+export class MemoryCacheStore<T> implements CacheStore<T> {
+  private entries = new Map<string, CacheEntry<T>>();
+  private maxEntries: number;
+
+  constructor(maxEntries = 1000) {
+    this.maxEntries = maxEntries;
+  }
+
+  get(key: string) {
+    return this.entries.get(key);
+  }
+
+  set(key: string, entry: CacheEntry<T>) {
+    this.entries.delete(key);
+    if (this.entries.size >= this.maxEntries) {
+      const oldest = this.entries.keys().next().value;
+      if (oldest !== undefined) this.entries.delete(oldest);
+    }
+    this.entries.set(key, entry);
+  }
+
+  clear() {
+    this.entries.clear();
+  }
+}
+
+export interface CacheOptions<T> {
+  ttlMs: number; // How long a value is served without reloading
+  maxStaleMs: number; // How old a value can be and still be served when reloading fails
+  store?: CacheStore<T>;
+  now?: () => number;
+}
+
+/**
+ * Create a read-through cache. Concurrent requests for the same key share one
+ * load, and if a load fails the last value is served (marked STALE) until it
+ * is older than maxStaleMs.
+ * @param options - Lifetimes, and optionally the store and clock to use
+ */
+export function createCache<T>({
+  ttlMs,
+  maxStaleMs,
+  store = new MemoryCacheStore<T>(),
+  now = Date.now,
+}: CacheOptions<T>) {
+  const loading = new Map<string, Promise<T>>();
+  // Bumped on invalidation so loads that started earlier aren't stored
+  let generation = 0;
+  // Invalidated entries are kept for serving stale, but never count as fresh
+  let invalidatedAt = -Infinity;
+
+  const load = (key: string, loader: () => Promise<T>) => {
+    const pending = loading.get(key);
+    if (pending) return pending;
+
+    const startedIn = generation;
+    const promise = loader()
+      .then((value) => {
+        if (startedIn === generation) {
+          store.set(key, { value, storedAt: now() });
+        }
+        return value;
+      })
+      .finally(() => {
+        if (loading.get(key) === promise) loading.delete(key);
+      });
+
+    loading.set(key, promise);
+    return promise;
+  };
+
+  return {
+    /**
+     * Get a cached value, loading it if it's missing or expired
+     * @param key - Identifies the value
+     * @param loader - Loads the value when it isn't cached
+     * @returns The value and whether it came from the cache
+     */
+    async get(
+      key: string,
+      loader: () => Promise<T>
+    ): Promise<{ value: T; status: CacheStatus }> {
+      const entry = store.get(key);
+      const time = now();
+
+      if (
+        entry &&
+        entry.storedAt > invalidatedAt &&
+        time - entry.storedAt < ttlMs
+      ) {
+        return { value: entry.value, status: "HIT" };
+      }
+
+      try {
+        return { value: await load(key, loader), status: "MISS" };
+      } catch (error) {
+        if (entry && time - entry.storedAt < maxStaleMs) {
+          console.error(`Serving stale cache entry for ${key}:`, error);
+          return { value: entry.value, status: "STALE" };
+        }
+        throw error;
+      }
+    },
+
+    /**
+     * Mark every cached value as expired. They can still be served as stale
+     * if reloading fails.
+     */
+    invalidate() {
+      generation++;
+      invalidatedAt = now();
+      loading.clear();
+    },
+  };
+}
+
+export type Cache<T> = ReturnType<typeof createCache<T>>;
@@ -0,0 +1,494 @@
+import { NextResponse } from "next/server";
+import mongoose, { ClientSession, Types } from "mongoose";
+import { evaluateAchievements } from "./achievements";
+import { ClaimWindow, describeClaimWindow } from "./claimWindow";
+import { ClaimAttempt, HuntItem, TeamClaim, User } from "./models";
+import { createPointTransaction, savePointTransactions } from "./pointsLedger";
+import { notifyLeaderboardChanged } from "./leaderboardEvents";
+import { RATE_LIMIT_POLICIES, recordFailedRequest } from "./rateLimit";
+
+// Rate limiting configuration
+export const RATE_LIMIT_MAX_ATTEMPTS = 10;
+export const RATE_LIMIT_WINDOW_MINUTES = 15;
+
+// Failed attempts expire after this many days when set (successful ones are kept)
+const FAILED_ATTEMPT_TTL_DAYS = Number(
+  process.env.CLAIM_ATTEMPT_FAILED_TTL_DAYS || 0
+);
+
+export interface ClaimAttemptRecord {
+  identifier: string;
+  success: boolean;
+  timestamp: Date;
+  item_id?: Types.ObjectId | string | null;
+  ipAddress?: string | null;
+  userAgent?: string | null;
+}
+
+// Minimal shape of a User document needed to process a claim
+interface ClaimingUser {
+  _id: Types.ObjectId;
+  email: string;
+  team?: Types.ObjectId | null;
+  history: Types.ObjectId[];
+}
+
+export interface PointTier {
+  upTo: number;
+  points: number;
+}
+
+// Minimal shape of a HuntItem document needed to award a claim
+interface ClaimableHuntItem {
+  _id: Types.ObjectId;
+  name: string;
+  description?: string;
+  points: number;
+  pointTiers?: PointTier[];
+  teamScope?: "member" | "team";
+}
+
+type RateLimitCheck = Awaited<ReturnType<typeof checkRateLimit>>;
+
+/**
+ * Work out when a claim attempt should be removed by the TTL index
+ * @param claimAttempt - The attempt being stored
+ * @returns Expiry date for failed attempts, or null to keep the attempt
+ */
+export function getClaimAttemptExpiry(claimAttempt: {
+  success: boolean;
+  timestamp: Date;
+}) {
+  if (claimAttempt.success || FAILED_ATTEMPT_TTL_DAYS <= 0) return null;
+
+  return new Date(
+    new Date(claimAttempt.timestamp).getTime() +
+      FAILED_ATTEMPT_TTL_DAYS * 24 * 60 * 60 * 1000
+  );
+}
+
+/**
+ * Store a claim attempt in the ClaimAttempt collection
+ * @param user - The user making the attempt
+ * @param claimAttempt - The attempt to record
+ * @param session - Transaction the attempt belongs to, if any
+ */
+export async function recordClaimAttempt(
+  user: ClaimingUser,
+  claimAttempt: ClaimAttemptRecord,
+  session?: ClientSession
+) {
+  await ClaimAttempt.create(
+    [
+      {
+        ...claimAttempt,
+        user: user._id,
+        userEmail: user.email,
+        expiresAt: getClaimAttemptExpiry(claimAttempt),
+      },
+    ],
+    { session }
+  );
+}
+
+/**
+ * Count the claim attempts stored for each user
+ * @param userIds - Users to count attempts for
+ * @returns Attempt counts keyed by user ID
+ */
+export async function countClaimAttempts(userIds: Types.ObjectId[]) {
+  const totals: { _id: Types.ObjectId; count: number }[] =
+    await ClaimAttempt.aggregate([
+      { $match: { user: { $in: userIds } } },
+      { $group: { _id: "$user", count: { $sum: 1 } } },
+    ]);
+
+  return new Map(totals.map((total) => [total._id.toString(), total.count]));
+}
+
+/**
+ * Load a user's most recent claim attempts
+ * @param userId - User whose attempts to load
+ * @param limit - Maximum number of attempts to return
+ * @returns Attempts in chronological order
+ */
+export async function getRecentClaimAttempts(
+  userId: Types.ObjectId,
+  limit = 100
+) {
+  const attempts = await ClaimAttempt.find({ user: userId })
+    .sort({ timestamp: -1 })
+    .limit(limit)
+    .select("identifier success timestamp item_id");
+
+  return attempts.reverse();
+}
+
+// Check if user has exceeded failed claim attempts rate limit
+export async function checkRateLimit(userId: Types.ObjectId) {
+  const now = new Date();
+  const windowStart = new Date(
+    now.getTime() - RATE_LIMIT_WINDOW_MINUTES * 60 * 1000
+  );
+
+  const failedInWindow = {
+    user: userId,
+    success: false,
+    timestamp: { $gte: windowStart },
+  };
+
+  const [recentFailedAttempts, oldestAttempt] = await Promise.all([
+    ClaimAttempt.countDocuments(failedInWindow),
+    // The oldest failed attempt in the window decides when the limit resets
+    ClaimAttempt.findOne(failedInWindow)
+      .sort({ timestamp: 1 })
+      .select("timestamp"),
+  ]);
+
+  const isRateLimited = recentFailedAttempts >= RATE_LIMIT_MAX_ATTEMPTS;
+  const remainingAttempts = Math.max(
+    0,
+    RATE_LIMIT_MAX_ATTEMPTS - recentFailedAttempts
+  );
+
+  const resetTime: Date | null = oldestAttempt
+    ? new Date(
+        new Date(oldestAttempt.timestamp).getTime() +
+          RATE_LIMIT_WINDOW_MINUTES * 60 * 1000
+      )
+    : null;
+
+  return {
+    isRateLimited,
+    remainingAttempts,
+    resetTime,
+    recentFailedAttempts,
+  };
+}
+
+// Response returned when a user is blocked by the failed attempts rate limit
+export function rateLimitExceededResponse(rateLimitCheck: RateLimitCheck) {
+  const minutesUntilReset = rateLimitCheck.resetTime
+    ? Math.ceil(
+        (rateLimitCheck.resetTime.getTime() - new Date().getTime()) /
+          (1000 * 60)
+      )
+    : RATE_LIMIT_WINDOW_MINUTES;
+
+  return NextResponse.json(
+    {
+      error: `Rate limit exceeded. You have made too many failed claim attempts. Please wait ${minutesUntilReset} minutes before trying again.`,
+      rateLimitExceeded: true,
+      resetTime: rateLimitCheck.resetTime,
+      remainingAttempts: 0,
+    },
+    { status: 429 }
+  );
+}
+
+// Log a failed claim attempt and respond with the remaining attempts
+export async function rejectClaimAttempt(
+  user: ClaimingUser,
+  claimAttempt: ClaimAttemptRecord,
+  reason: string,
+  status: number,
+  extra: Record<string, unknown> = {}
+) {
+  await recordClaimAttempt(user, claimAttempt);
+
+  // Check how many attempts remaining after this failed attempt
+  const updatedRateLimitCheck = await checkRateLimit(user._id);
+  const remainingAttempts = updatedRateLimitCheck.remainingAttempts;
+
+  const errorMessage =
+    remainingAttempts > 0
+      ? `${reason} You have ${remainingAttempts} more attempts remaining in the next ${RATE_LIMIT_WINDOW_MINUTES} minutes.`
+      : `${reason} Note: You can make up to ${RATE_LIMIT_MAX_ATTEMPTS} failed attempts every ${RATE_LIMIT_WINDOW_MINUTES} minutes.`;
+
+  return NextResponse.json(
+    {
+      error: errorMessage,
+      remainingAttempts,
+      rateLimitInfo: {
+        maxAttempts: RATE_LIMIT_MAX_ATTEMPTS,
+        windowMinutes: RATE_LIMIT_WINDOW_MINUTES,
+      },
+      ...extra,
+    },
+    { status }
+  );
+}
+
+// Reject an unknown identifier or wrong answer, counting it against the
+// per-IP wrong guess limit as well
+export async function rejectWrongGuess(
+  user: ClaimingUser,
+  claimAttempt: ClaimAttemptRecord,
+  reason: string,
+  status: number
+) {
+  await recordFailedRequest(RATE_LIMIT_POLICIES.claim, {
+    ip: claimAttempt.ipAddress,
+    userKey: user.email,
+  });
+  return rejectClaimAttempt(user, claimAttempt, reason, status);
+}
+
+// Reject a claim made outside the hunt item's claim window
+export async function rejectOutsideClaimWindow(
+  user: ClaimingUser,
+  claimAttempt: ClaimAttemptRecord,
+  window: ClaimWindow
+) {
+  return rejectClaimAttempt(
+    user,
+    claimAttempt,
+    `This hunt item can only be claimed ${describeClaimWindow(window)}.`,
+    403,
+    {
+      code: "OUTSIDE_CLAIM_WINDOW",
+      availableFrom: window.from || null,
+      availableUntil: window.until || null,
+    }
+  );
+}
+
+// Check whether the user's team already claimed an item that counts once per
+// team, including through members who have since left. Current members are
+// checked too for claims made before team claims were recorded.
+export async function isClaimedByTeammate(
+  user: ClaimingUser,
+  huntItem: ClaimableHuntItem,
+  session?: ClientSession
+): Promise<boolean> {
+  if (huntItem.teamScope !== "team" || !user.team) return false;
+
+  const teamClaim = await TeamClaim.exists({
+    team: user.team,
+    huntItem: huntItem._id,
+    user: { $ne: user._id },
+  }).session(session || null);
+  if (teamClaim) return true;
+
+  return !!(await User.exists({
+    _id: { $ne: user._id },
+    team: user.team,
+    history: huntItem._id,
+  }).session(session || null));
+}
+
+// Points awarded to the claimer at a given position (1 = first finder)
+export function getPointsForPosition(
+  huntItem: ClaimableHuntItem,
+  position: number
+): number {
+  const tier = [...(huntItem.pointTiers || [])]
+    .sort((a, b) => a.upTo - b.upTo)
+    .find((pointTier) => position <= pointTier.upTo);
+
+  return tier ? tier.points : huntItem.points;
+}
+
+// Atomically reserve the next claim position, respecting the item's claim cap.
+// Returns null when the cap has been reached.
+export async function reserveClaimPosition(
+  huntItemId: Types.ObjectId,
+  session?: ClientSession
+): Promise<number | null> {
+  const updated = await HuntItem.findOneAndUpdate(
+    {
+      _id: huntItemId,
+      $or: [
+        { claimCap: null },
+        { $expr: { $lt: [{ $ifNull: ["$claimCount", 0] }, "$claimCap"] } },
+      ],
+    },
+    { $inc: { claimCount: 1 } },
+    { new: true, session }
+  ).select("claimCount");
+
+  return updated ? updated.claimCount : null;
+}
+
+// Thrown inside the claim transaction to roll it back and reject the claim
+class ClaimRejectedError extends Error {
+  status: number;
+  extra: Record<string, unknown>;
+
+  constructor(
+    message: string,
+    status: number,
+    extra: Record<string, unknown> = {}
+  ) {
+    super(message);
+    this.status = status;
+    this.extra = extra;
+  }
+}
+
+// Award the hunt item to the user, along with any achievements the claim
+// completes. The claim position, the user update (history and points), the
+// team claim for team-scoped items, the successful claim attempt and the
+// ledger entries are written in a single transaction. The user update only
+// matches if the item isn't already in the user's history, so of two
+// concurrent claims exactly one succeeds and the other is rejected with
+// alreadyClaimedMessage. Team claims are unique per team and item, so
+// teammates claiming at once are handled the same way.
+export async function completeClaim(
+  user: ClaimingUser,
+  huntItem: ClaimableHuntItem,
+  claimAttempt: ClaimAttemptRecord,
+  message = `Successfully claimed "${huntItem.name}"!`,
+  alreadyClaimedMessage = "You have already claimed this hunt item.",
+  teamClaimedMessage = "Your team has already claimed this hunt item."
+) {
+  const session = await mongoose.startSession();
+
+  try {
+    const result = await session.withTransaction(async () => {
+      const claimPosition = await reserveClaimPosition(huntItem._id, session);
+
+      if (claimPosition === null) {
+        throw new ClaimRejectedError(
+          "All available claims for this hunt item have been taken.",
+          409,
+          { code: "CLAIM_CAP_REACHED" }
+        );
+      }
+
+      const pointsAwarded = getPointsForPosition(huntItem, claimPosition);
+
+      const claimedBy = await User.findOneAndUpdate(
+        { _id: user._id, history: { $ne: huntItem._id } },
+        {
+          $push: { history: huntItem._id },
+          $inc: { points: pointsAwarded },
+        },
+        { new: true, session }
+      );
+
+      if (!claimedBy) {
+        throw new ClaimRejectedError(alreadyClaimedMessage, 400);
+      }
+
+      // Team-scoped items count once per team
+      if (huntItem.teamScope === "team" && claimedBy.team) {
+        if (await isClaimedByTeammate(claimedBy, huntItem, session)) {
+          throw new ClaimRejectedError(teamClaimedMessage, 400);
+        }
+        await TeamClaim.create(
+          [{ team: claimedBy.team, huntItem: huntItem._id, user: user._id }],
+          { session }
+        );
+      }
+
+      await recordClaimAttempt(
+        user,
+        { ...claimAttempt, success: true },
+        session
+      );
+
+      const transactions = [
+        createPointTransaction(claimedBy, {
+          type: "claim",
+          amount: pointsAwarded,
+          reason: `Claimed "${huntItem.name}"`,
+          actorEmail: claimedBy.email,
+          huntItem: huntItem._id,
+        }),
+      ];
+
+      const evaluation = await evaluateAchievements(claimedBy);
+      transactions.push(...evaluation.transactions);
+      if (evaluation.unlocked.length > 0) {
+        await claimedBy.save({ session });
+      }
+
+      await savePointTransactions(transactions, session);
+
+      return {
+        claimPosition,
+        pointsAwarded,
+        achievements: evaluation.unlocked,
+        newPoints: claimedBy.points,
+        totalItemsClaimed: claimedBy.history.length,
+      };
+    });
+
+    notifyLeaderboardChanged();
+
+    return NextResponse.json({
+      success: true,
+      message,
+      item: {
+        name: huntItem.name,
+        description: huntItem.description,
+        points: result.pointsAwarded,
+      },
+      ...result,
+    });
+  } catch (error) {
+    if (error instanceof ClaimRejectedError) {
+      return rejectClaimAttempt(
+        user,
+        claimAttempt,
+        error.message,
+        error.status,
+        error.extra
+      );
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * Validate claim cap and point tier fields sent by the admin hunt item forms.
+ * Only fields present in the input are returned, so omitted fields are left unchanged.
+ * @param input - Request body fields
+ * @returns The fields to store, or an error message
+ */
+export function parseClaimLimitsInput(input: {
+  claimCap?: number | string | null;
+  pointTiers?: PointTier[] | null;
+}):
+  | { fields: { claimCap?: number | null; pointTiers?: PointTier[] } }
+  | { error: string } {
+  const fields: { claimCap?: number | null; pointTiers?: PointTier[] } = {};
+
+  if (input.claimCap !== undefined) {
+    if (input.claimCap === null || input.claimCap === "") {
+      fields.claimCap = null;
+    } else {
+      const claimCap = Number(input.claimCap);
+      if (!Number.isInteger(claimCap) || claimCap < 1) {
+        return { error: "Claim cap must be a positive whole number" };
+      }
+      fields.claimCap = claimCap;
+    }
+  }
+
+  if (input.pointTiers !== undefined) {
+    const pointTiers = Array.isArray(input.pointTiers) ? input.pointTiers : [];
+
+    for (const tier of pointTiers) {
+      if (
+        !Number.isInteger(Number(tier?.upTo)) ||
+        Number(tier.upTo) < 1 ||
+        !Number.isFinite(Number(tier.points))
+      ) {
+        return {
+          error:
+            "Point tiers need a positive claim position and a points value",
+        };
+      }
+    }
+
+    fields.pointTiers = pointTiers
+      .map((tier) => ({ upTo: Number(tier.upTo), points: Number(tier.points) }))
+      .sort((a, b) => a.upTo - b.upTo);
+  }
+
+  return { fields };
+}
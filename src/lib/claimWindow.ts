@@ -0,0 +1,219 @@
+import { Types } from "mongoose";
+import { Day } from "./models";
+
+// Schedule times are stored as wall-clock "HH:MM" strings in the venue's time zone
+export const EVENT_TIME_ZONE = "America/Toronto";
+
+export interface ClaimWindow {
+  from?: Date;
+  until?: Date;
+}
+
+interface WindowedHuntItem {
+  availableFrom?: Date | null;
+  availableUntil?: Date | null;
+  scheduleLink?: {
+    day?: Types.ObjectId | string | null;
+    scheduleItem?: Types.ObjectId | string | null;
+  } | null;
+}
+
+/**
+ * Get how far a time zone is ahead of UTC at a given moment
+ * @param timeZone - IANA time zone name
+ * @param date - The moment to check (offsets change with daylight saving time)
+ * @returns Offset in milliseconds
+ */
+function getTimeZoneOffset(timeZone: string, date: Date): number {
+  const parts = new Intl.DateTimeFormat("en-US", {
+    timeZone,
+    hourCycle: "h23",
+    year: "numeric",
+    month: "2-digit",
+    day: "2-digit",
+    hour: "2-digit",
+    minute: "2-digit",
+    second: "2-digit",
+  }).formatToParts(date);
+
+  const get = (type: string) =>
+    Number(parts.find((part) => part.type === type)?.value);
+
+  const asUTC = Date.UTC(
+    get("year"),
+    get("month") - 1,
+    get("day"),
+    get("hour"),
+    get("minute"),
+    get("second")
+  );
+
+  return asUTC - (date.getTime() - date.getMilliseconds());
+}
+
+/**
+ * Convert a schedule day and wall-clock time in the event time zone to a Date
+ * @param dayTimestamp - The numeric date timestamp in YYYYMMDD format (e.g., 20260101)
+ * @param time - Time string in HH:MM format
+ * @param timeZone - IANA time zone the time is expressed in
+ * @returns The corresponding moment
+ */
+export function scheduleTimeToDate(
+  dayTimestamp: number,
+  time: string,
+  timeZone: string = EVENT_TIME_ZONE
+): Date {
+  const timestampStr = dayTimestamp.toString();
+  const year = Number(timestampStr.substring(0, 4));
+  const month = Number(timestampStr.substring(4, 6));
+  const day = Number(timestampStr.substring(6, 8));
+  const [hours, minutes] = time.split(":").map(Number);
+
+  const wallClock = Date.UTC(year, month - 1, day, hours, minutes);
+
+  // Re-check the offset at the adjusted moment in case it crosses a DST change
+  const firstGuess =
+    wallClock - getTimeZoneOffset(timeZone, new Date(wallClock));
+  return new Date(
+    wallClock - getTimeZoneOffset(timeZone, new Date(firstGuess))
+  );
+}
+
+/**
+ * Resolve when a hunt item can be claimed. Items linked to a schedule event use
+ * the event's start and end times; otherwise availableFrom/availableUntil apply.
+ * @param huntItem - The hunt item to resolve the window for
+ * @returns The claim window (an empty window means always claimable)
+ */
+export async function resolveClaimWindow(
+  huntItem: WindowedHuntItem
+): Promise<ClaimWindow> {
+  const link = huntItem.scheduleLink;
+
+  if (link?.day && link?.scheduleItem) {
+    const day = await Day.findById(link.day);
+    const event = day?.schedule.id(link.scheduleItem);
+
+    // Fail closed if the linked event was removed from the schedule
+    if (!day || !event) {
+      return { from: new Date(0), until: new Date(0) };
+    }
+
+    return {
+      from: scheduleTimeToDate(day.timestamp, event.startTime),
+      until: scheduleTimeToDate(day.timestamp, event.endTime),
+    };
+  }
+
+  return {
+    from: huntItem.availableFrom || undefined,
+    until: huntItem.availableUntil || undefined,
+  };
+}
+
+/**
+ * Check whether a moment falls inside a claim window
+ * @param window - The claim window
+ * @param now - The moment to check
+ */
+export function isWithinClaimWindow(
+  window: ClaimWindow,
+  now: Date = new Date()
+): boolean {
+  if (window.from && now < window.from) return false;
+  if (window.until && now > window.until) return false;
+  return true;
+}
+
+/**
+ * Describe a claim window for error messages, in the event time zone
+ * @param window - The claim window
+ * @returns Human readable description
+ */
+export function describeClaimWindow(window: ClaimWindow): string {
+  const format = (date: Date) =>
+    date.toLocaleString("en-US", {
+      timeZone: EVENT_TIME_ZONE,
+      weekday: "short",
+      hour: "numeric",
+      minute: "2-digit",
+    });
+
+  if (window.from && window.until) {
+    return `between ${format(window.from)} and ${format(window.until)}`;
+  }
+  if (window.from) return `from ${format(window.from)}`;
+  if (window.until) return `until ${format(window.until)}`;
+  return "at any time";
+}
+
+export interface ClaimWindowInput {
+  availableFrom?: string | null;
+  availableUntil?: string | null;
+  scheduleLink?: { day?: string; scheduleItem?: string } | null;
+}
+
+type ClaimWindowFields = {
+  availableFrom?: Date | null;
+  availableUntil?: Date | null;
+  scheduleLink?: { day: string; scheduleItem: string } | null;
+};
+
+/**
+ * Validate claim window fields sent by the admin hunt item forms.
+ * Only fields present in the input are returned, so omitted fields are left unchanged.
+ * @param input - Request body fields
+ * @param stored - Current window of the item being updated, which omitted
+ * fields keep when checking the window's order
+ * @returns The fields to store, or an error message
+ */
+export async function parseClaimWindowInput(
+  input: ClaimWindowInput,
+  stored: { availableFrom?: Date | null; availableUntil?: Date | null } = {}
+): Promise<{ fields: ClaimWindowFields } | { error: string }> {
+  const fields: ClaimWindowFields = {};
+
+  for (const key of ["availableFrom", "availableUntil"] as const) {
+    if (input[key] === undefined) continue;
+    if (!input[key]) {
+      fields[key] = null;
+      continue;
+    }
+
+    const date = new Date(input[key]);
+    if (isNaN(date.getTime())) {
+      return { error: `${key} must be a valid date` };
+    }
+    fields[key] = date;
+  }
+
+  const availableFrom =
+    fields.availableFrom !== undefined
+      ? fields.availableFrom
+      : stored.availableFrom;
+  const availableUntil =
+    fields.availableUntil !== undefined
+      ? fields.availableUntil
+      : stored.availableUntil;
+  if (availableFrom && availableUntil && availableFrom >= availableUntil) {
+    return { error: "availableFrom must be before availableUntil" };
+  }
+
+  if (input.scheduleLink !== undefined) {
+    const link = input.scheduleLink;
+
+    if (!link?.day || !link?.scheduleItem) {
+      fields.scheduleLink = null;
+    } else {
+      const day = Types.ObjectId.isValid(link.day)
+        ? await Day.findById(link.day)
+        : null;
+      if (!day || !day.schedule.id(link.scheduleItem)) {
+        return { error: "Linked schedule event not found" };
+      }
+      fields.scheduleLink = { day: link.day, scheduleItem: link.scheduleItem };
+    }
+  }
+
+  return { fields };
+}
@@ -0,0 +1,82 @@
+export type CSVValue = string | number | boolean | null | undefined;
+
+/**
+ * Parse CSV text (RFC 4180: quoted fields, escaped quotes, CRLF or LF)
+ * @param text - CSV document
+ * @returns Rows of cell values, with blank lines skipped
+ */
+export function parseCSV(text: string): string[][] {
+  const rows: string[][] = [];
+  let row: string[] = [];
+  let cell = "";
+  let inQuotes = false;
+
+  // Strip a byte order mark left by spreadsheet exports
+  const input = text.replace(/^\uFEFF/, "");
+
+  for (let i = 0; i < input.length; i++) {
+    const char = input[i];
+
+    if (inQuotes) {
+      if (char === '"' && input[i + 1] === '"') {
+        cell += '"';
+        i++;
+      } else if (char === '"') {
+        inQuotes = false;
+      } else {
+        cell += char;
+      }
+      continue;
+    }
+
+    if (char === '"') {
+      inQuotes = true;
+    } else if (char === ",") {
+      row.push(cell);
+      cell = "";
+    } else if (char === "\n" || char === "\r") {
+      if (char === "\r" && input[i + 1] === "\n") i++;
+      row.push(cell);
+      rows.push(row);
+      row = [];
+      cell = "";
+    } else {
+      cell += char;
+    }
+  }
+
+  row.push(cell);
+  rows.push(row);
+
+  return rows.filter((r) => r.some((value) => value.trim() !== ""));
+}
+
+/**
+ * Parse CSV text with a header row into one record per data row
+ * @param text - CSV document whose first row names the columns
+ * @returns Records keyed by header name
+ */
+export function parseCSVRecords(text: string): Record<string, string>[] {
+  const [header = [], ...rows] = parseCSV(text);
+  const columns = header.map((column) => column.trim());
+
+  return rows.map((row) =>
+    Object.fromEntries(
+      columns.map((column, index) => [column, row[index] ?? ""])
+    )
+  );
+}
+
+const escapeCell = (value: CSVValue): string => {
+  const text = value === null || value === undefined ? "" : String(value);
+  return /[",\r\n]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+};
+
+/**
+ * Serialize rows as CSV
+ * @param rows - Rows of cell values; the first row is usually the header
+ * @returns CSV document
+ */
+export function toCSV(rows: CSVValue[][]): string {
+  return rows.map((row) => row.map(escapeCell).join(",")).join("\r\n") + "\r\n";
+}
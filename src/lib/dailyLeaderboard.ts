@@ -0,0 +1,299 @@
+import { isValidObjectId, Types } from "mongoose";
+import { ClaimAttempt, Day, User } from "./models";
+import {
+  assignCompetitionRanks,
+  LeaderboardView,
+  RankedEntry,
+} from "./leaderboard";
+import { getActiveFreeze } from "./leaderboardSnapshots";
+import { scheduleTimeToDate } from "./claimWindow";
+
+export const DEFAULT_DAILY_WINNERS = 10;
+const MAX_DAILY_WINNERS = 100;
+
+// Minimal shape of a Day document needed to rank it
+interface LeaderboardDay {
+  _id: Types.ObjectId;
+  day: string;
+  date: string;
+  timestamp: number;
+}
+
+interface DayRange {
+  start: Date;
+  end: Date;
+  frozenAt: Date | null;
+}
+
+interface DailyScore {
+  userId: Types.ObjectId;
+  name: string; // Display name (alias if set)
+  realName: string;
+  email: string;
+  hidden: boolean;
+  team: Types.ObjectId | null;
+  score: number;
+  reachedAt: Date;
+}
+
+/**
+ * Find the conference day a leaderboard request refers to
+ * @param dayId - Day document ID from the query string
+ * @returns The day, or null if it doesn't exist
+ */
+export async function findLeaderboardDay(
+  dayId: string
+): Promise<LeaderboardDay | null> {
+  if (!isValidObjectId(dayId)) return null;
+  const day = await Day.findById(dayId).select("day date timestamp");
+  return day as LeaderboardDay | null;
+}
+
+/**
+ * Start and end of a conference day in the event time zone. While the
+ * leaderboard is frozen, days end at the freeze time.
+ * @param day - The conference day
+ */
+async function getDayRange(day: LeaderboardDay): Promise<DayRange> {
+  const start = scheduleTimeToDate(day.timestamp, "00:00");
+  const end = new Date(
+    scheduleTimeToDate(day.timestamp, "23:59").getTime() + 60 * 1000
+  );
+
+  const freeze = await getActiveFreeze();
+  const frozenAt: Date | null =
+    freeze && freeze.freezeAt <= new Date() ? freeze.freezeAt : null;
+
+  return {
+    start,
+    end: frozenAt && frozenAt < end ? frozenAt : end,
+    frozenAt,
+  };
+}
+
+/**
+ * Points each user earned from claims made during a day. Claims are placed on
+ * a day by their successful claim attempt, and are worth what the points
+ * ledger awarded for the item (including later adjustments and revocations),
+ * or the item's points for claims made before the ledger existed.
+ * @param range - When the day starts and ends
+ * @returns Every user who scored that day, highest score first
+ */
+async function getDailyScores({ start, end }: DayRange): Promise<DailyScore[]> {
+  const scores = await ClaimAttempt.aggregate([
+    {
+      $match: {
+        success: true,
+        item_id: { $ne: null },
+        timestamp: { $gte: start, $lt: end },
+      },
+    },
+    {
+      $group: {
+        _id: { user: "$user", item: "$item_id" },
+        claimedAt: { $min: "$timestamp" },
+      },
+    },
+    {
+      $lookup: {
+        from: "pointtransactions",
+        let: { user: "$_id.user", item: "$_id.item" },
+        pipeline: [
+          {
+            $match: {
+              $expr: {
+                $and: [
+                  { $eq: ["$user", "$$user"] },
+                  { $eq: ["$huntItem", "$$item"] },
+                ],
+              },
+              type: { $in: ["claim", "adjustment", "revocation"] },
+            },
+          },
+          { $group: { _id: null, amount: { $sum: "$amount" } } },
+        ],
+        as: "awarded",
+      },
+    },
+    {
+      $lookup: {
+        from: "huntitems",
+        localField: "_id.item",
+        foreignField: "_id",
+        as: "item",
+      },
+    },
+    {
+      $group: {
+        _id: "$_id.user",
+        score: {
+          $sum: {
+            $ifNull: [
+              { $first: "$awarded.amount" },
+              { $ifNull: [{ $first: "$item.points" }, 0] },
+            ],
+          },
+        },
+        reachedAt: { $max: "$claimedAt" },
+      },
+    },
+    { $match: { score: { $gt: 0 } } },
+    {
+      $lookup: {
+        from: "users",
+        localField: "_id",
+        foreignField: "_id",
+        as: "user",
+      },
+    },
+    { $unwind: "$user" },
+    { $sort: { score: -1, reachedAt: 1, _id: 1 } },
+  ]);
+
+  return scores.map((entry) => ({
+    userId: entry._id,
+    name: entry.user.leaderboardAlias || entry.user.name || "",
+    realName: entry.user.name || "",
+    email: entry.user.email,
+    hidden: !!entry.user.hideFromLeaderboard,
+    team: entry.user.team || null,
+    score: entry.score,
+    reachedAt: entry.reachedAt,
+  }));
+}
+
+// Users hidden from the leaderboard (or without a name) aren't ranked
+function rankIndividuals(scores: DailyScore[]) {
+  return assignCompetitionRanks(
+    scores.filter((entry) => !entry.hidden && entry.name),
+    1
+  );
+}
+
+/**
+ * Rank teams by the points their members earned during a day. Hidden members
+ * still count, as on the all-time leaderboard.
+ * @param scores - Each user's points for the day
+ */
+async function rankTeams(scores: DailyScore[]) {
+  const totals = new Map<
+    string,
+    { teamId: Types.ObjectId; score: number; reachedAt: Date }
+  >();
+
+  for (const entry of scores) {
+    if (!entry.team) continue;
+    const total = totals.get(entry.team.toString()) || {
+      teamId: entry.team,
+      score: 0,
+      reachedAt: entry.reachedAt,
+    };
+    total.score += entry.score;
+    if (entry.reachedAt > total.reachedAt) total.reachedAt = entry.reachedAt;
+    totals.set(entry.team.toString(), total);
+  }
+
+  const teamIds = [...totals.values()].map((total) => total.teamId);
+  const teams = await User.aggregate([
+    { $match: { team: { $in: teamIds } } },
+    { $group: { _id: "$team", members: { $sum: 1 } } },
+    {
+      $lookup: {
+        from: "teams",
+        localField: "_id",
+        foreignField: "_id",
+        as: "team",
+      },
+    },
+    { $unwind: "$team" },
+  ]);
+  const teamInfo = new Map<string, { name: string; members: number }>(
+    teams.map((team) => [
+      team._id.toString(),
+      { name: team.team.name, members: team.members },
+    ])
+  );
+
+  return assignCompetitionRanks(
+    [...totals.values()]
+      .filter((total) => teamInfo.has(total.teamId.toString()))
+      .sort(
+        (a, b) =>
+          b.score - a.score || a.reachedAt.getTime() - b.reachedAt.getTime()
+      )
+      .map((total) => ({
+        teamId: total.teamId,
+        score: total.score,
+        ...(teamInfo.get(total.teamId.toString()) as {
+          name: string;
+          members: number;
+        }),
+      })),
+    1
+  );
+}
+
+/**
+ * Rank a single conference day, in the same shape as the all-time leaderboard
+ * @param day - The conference day
+ * @param view - Individuals or teams
+ */
+export async function getDailyRankings(
+  day: LeaderboardDay,
+  view: LeaderboardView
+) {
+  const range = await getDayRange(day);
+  const scores = await getDailyScores(range);
+
+  const entries: RankedEntry[] =
+    view === "team"
+      ? (await rankTeams(scores)).map(
+          ({ teamId, rank, name, score, members }) => ({
+            id: teamId,
+            rank,
+            name,
+            score,
+            members,
+          })
+        )
+      : rankIndividuals(scores).map(({ userId, rank, name, score }) => ({
+          id: userId,
+          rank,
+          name,
+          score,
+        }));
+
+  return {
+    entries,
+    // Callers who aren't ranked see what they scored that day
+    scores: new Map(
+      scores.map((entry) => [entry.userId.toString(), entry.score])
+    ),
+    frozenAt: range.frozenAt,
+    day: { _id: day._id, day: day.day, date: day.date },
+  };
+}
+
+/**
+ * Read how many winners to export per day from the query string
+ * @param searchParams - Request query
+ */
+export function parseDailyWinnersLimit(searchParams: URLSearchParams) {
+  const limit = parseInt(
+    searchParams.get("limit") || `${DEFAULT_DAILY_WINNERS}`,
+    10
+  );
+  return Number.isInteger(limit) && limit > 0
+    ? Math.min(limit, MAX_DAILY_WINNERS)
+    : DEFAULT_DAILY_WINNERS;
+}
+
+/**
+ * The top individuals for a day, with their real identities for prize handout
+ * @param day - The conference day
+ * @param limit - How many ranked users to include (ties at the cutoff are kept)
+ */
+export async function getDailyWinners(day: LeaderboardDay, limit: number) {
+  const ranked = rankIndividuals(await getDailyScores(await getDayRange(day)));
+  return ranked.filter((entry) => entry.rank <= limit);
+}
@@ -0,0 +1,57 @@
+import { Types } from "mongoose";
+import { HuntItem } from "./models";
+import { generateReadableCode, normalizeReadableCode } from "./readableCodes";
+
+const SHORT_CODE_LENGTH = 6;
+
+interface PrintableHuntItem {
+  _id: Types.ObjectId;
+  shortCode?: string;
+}
+
+/**
+ * Generate a short code that no other hunt item is using.
+ * Short codes are printed under each QR for attendees who can't scan it.
+ * @returns Unused short code
+ */
+export async function generateUniqueShortCode(): Promise<string> {
+  let code = generateReadableCode(SHORT_CODE_LENGTH);
+  while (await HuntItem.exists({ shortCode: code })) {
+    code = generateReadableCode(SHORT_CODE_LENGTH);
+  }
+  return code;
+}
+
+/**
+ * Format a short code for printing
+ * @param code - Stored short code
+ * @returns Code split in two halves, e.g. "K7M-2QX"
+ */
+export function formatShortCode(code: string): string {
+  const half = Math.ceil(code.length / 2);
+  return `${code.slice(0, half)}-${code.slice(half)}`;
+}
+
+/**
+ * Normalize a short code typed into the claim form
+ * @param code - The code as entered (any case, with or without the dash)
+ */
+export function normalizeShortCode(code: string): string {
+  return normalizeReadableCode(code);
+}
+
+/**
+ * Give hunt items created before short codes existed a code of their own
+ * @param items - Hunt item documents, updated in place
+ */
+export async function assignMissingShortCodes(items: PrintableHuntItem[]) {
+  for (const item of items) {
+    if (item.shortCode) continue;
+
+    item.shortCode = await generateUniqueShortCode();
+    await HuntItem.updateOne(
+      { _id: item._id },
+      { $set: { shortCode: item.shortCode } }
+    );
+  }
+}
@@ -0,0 +1,297 @@
+import mongoose from "mongoose";
+import { HuntItem } from "./models";
+import { CSVValue, parseCSVRecords, toCSV } from "./csv";
+import { HuntItemFields, HuntItemInput, parseHuntItemInput } from "./huntItems";
+import { generateUniqueShortCode } from "./huntItemCodes";
+import { PointTier } from "./claimService";
+
+export type HuntItemTransferFormat = "csv" | "json";
+
+export const MAX_IMPORT_ROWS = 500;
+
+// Column order for CSV files; list cells use "|" between entries
+// (tags use commas, like the add form)
+export const HUNT_ITEM_CSV_COLUMNS = [
+  "name",
+  "description",
+  "identifier",
+  "kind",
+  "rotating",
+  "points",
+  "teamScope",
+  "tags",
+  "claimCap",
+  "pointTiers",
+  "availableFrom",
+  "availableUntil",
+  "scheduleDay",
+  "scheduleItem",
+  "prompt",
+  "hints",
+  "answers",
+] as const;
+
+export interface HuntItemImportRow {
+  row: number; // 1-based position in the file
+  name?: string;
+  identifier?: string;
+  kind?: string;
+  error?: string;
+}
+
+interface ExportableHuntItem {
+  name: string;
+  description?: string;
+  identifier?: string;
+  kind?: string;
+  rotating?: boolean;
+  points: number;
+  teamScope?: string;
+  tags?: string[];
+  claimCap?: number | null;
+  pointTiers?: PointTier[];
+  availableFrom?: Date | null;
+  availableUntil?: Date | null;
+  scheduleLink?: { day?: unknown; scheduleItem?: unknown } | null;
+  prompt?: string;
+  hints?: string[];
+}
+
+/**
+ * Convert a hunt item to the shape accepted by the import (and by POST /api/hunt-items).
+ * Puzzle answers are only stored as hashes, so they can't be exported.
+ * @param item - Hunt item document
+ */
+export function serializeHuntItemForExport(
+  item: ExportableHuntItem
+): HuntItemInput {
+  return {
+    name: item.name,
+    description: item.description || "",
+    identifier: item.identifier || "",
+    kind: item.kind || "qr",
+    rotating: !!item.rotating,
+    points: item.points,
+    teamScope: item.teamScope || "member",
+    tags: item.tags || [],
+    claimCap: item.claimCap ?? null,
+    pointTiers: (item.pointTiers || []).map(({ upTo, points }) => ({
+      upTo,
+      points,
+    })),
+    availableFrom: item.availableFrom?.toISOString() || null,
+    availableUntil: item.availableUntil?.toISOString() || null,
+    scheduleLink: item.scheduleLink?.day
+      ? {
+          day: String(item.scheduleLink.day),
+          scheduleItem: String(item.scheduleLink.scheduleItem),
+        }
+      : null,
+    ...(item.kind === "puzzle" && {
+      prompt: item.prompt || "",
+      hints: item.hints || [],
+    }),
+  };
+}
+
+/**
+ * Serialize hunt items as a CSV file with HUNT_ITEM_CSV_COLUMNS
+ * @param items - Hunt item documents
+ */
+export function huntItemsToCSV(items: ExportableHuntItem[]): string {
+  const rows: CSVValue[][] = items.map((item) => {
+    const input = serializeHuntItemForExport(item);
+
+    return [
+      input.name,
+      input.description,
+      input.identifier,
+      input.kind,
+      input.rotating ? "true" : "false",
+      input.points,
+      input.teamScope,
+      (item.tags || []).join(", "),
+      input.claimCap,
+      (input.pointTiers || [])
+        .map((tier) => `${tier.upTo}:${tier.points}`)
+        .join("|"),
+      input.availableFrom,
+      input.availableUntil,
+      input.scheduleLink?.day,
+      input.scheduleLink?.scheduleItem,
+      input.prompt,
+      (input.hints || []).join("|"),
+      "",
+    ];
+  });
+
+  return toCSV([[...HUNT_ITEM_CSV_COLUMNS], ...rows]);
+}
+
+const splitList = (value: string) =>
+  value
+    .split("|")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+/**
+ * Convert one CSV record to the import input shape
+ * @param record - Cells keyed by column name
+ */
+function csvRecordToInput(record: Record<string, string>): HuntItemInput {
+  const cell = (column: (typeof HUNT_ITEM_CSV_COLUMNS)[number]) =>
+    record[column]?.trim() || undefined;
+
+  const pointTiers = cell("pointTiers");
+  const scheduleDay = cell("scheduleDay");
+  const scheduleItem = cell("scheduleItem");
+
+  return {
+    name: cell("name"),
+    description: cell("description"),
+    identifier: cell("identifier"),
+    kind: cell("kind")?.toLowerCase(),
+    rotating: /^(true|yes|1)$/i.test(cell("rotating") || ""),
+    points: cell("points"),
+    teamScope: cell("teamScope")?.toLowerCase(),
+    tags: cell("tags"),
+    claimCap: cell("claimCap"),
+    pointTiers: pointTiers
+      ? splitList(pointTiers).map((tier) => {
+          const [upTo, points] = tier.split(":");
+          return { upTo: Number(upTo), points: Number(points) };
+        })
+      : undefined,
+    availableFrom: cell("availableFrom"),
+    availableUntil: cell("availableUntil"),
+    scheduleLink:
+      scheduleDay && scheduleItem ? { day: scheduleDay, scheduleItem } : null,
+    prompt: cell("prompt"),
+    hints: splitList(cell("hints") || ""),
+    answers: splitList(cell("answers") || ""),
+  };
+}
+
+/**
+ * Read hunt items from an uploaded import file
+ * @param format - "csv" or "json" (an array of POST /api/hunt-items bodies)
+ * @param content - File contents
+ * @returns One input per item, or an error message
+ */
+export function parseHuntItemFile(
+  format: HuntItemTransferFormat,
+  content: string
+): { items: HuntItemInput[] } | { error: string } {
+  let items: HuntItemInput[];
+
+  if (format === "json") {
+    try {
+      items = JSON.parse(content);
+    } catch {
+      return { error: "File is not valid JSON" };
+    }
+    if (
+      !Array.isArray(items) ||
+      items.some((item) => !item || typeof item !== "object")
+    ) {
+      return { error: "JSON imports must be an array of hunt items" };
+    }
+  } else {
+    items = parseCSVRecords(content).map(csvRecordToInput);
+  }
+
+  if (items.length === 0) {
+    return { error: "No hunt items found in file" };
+  }
+
+  if (items.length > MAX_IMPORT_ROWS) {
+    return { error: `Imports are limited to ${MAX_IMPORT_ROWS} items` };
+  }
+
+  return { items };
+}
+
+/**
+ * Validate every item in an import, including identifiers that are repeated
+ * in the file or already used by an existing hunt item
+ * @param items - Parsed import items
+ * @returns A report row per item, and the fields to store for valid items
+ */
+export async function validateHuntItemImport(items: HuntItemInput[]) {
+  const rows: HuntItemImportRow[] = [];
+  const validFields: HuntItemFields[] = [];
+  const seenIdentifiers = new Set<string>();
+
+  const identifiers = items
+    .map((item) => item.identifier)
+    .filter(
+      (identifier): identifier is string =>
+        typeof identifier === "string" && identifier !== ""
+    );
+  const existing = await HuntItem.find({ identifier: { $in: identifiers } })
+    .select("identifier")
+    .lean<{ identifier: string }[]>();
+  const existingIdentifiers = new Set(existing.map((item) => item.identifier));
+
+  for (const [index, item] of items.entries()) {
+    const row: HuntItemImportRow = {
+      row: index + 1,
+      name: item.name,
+      identifier: item.identifier,
+      kind: item.kind || "qr",
+    };
+    rows.push(row);
+
+    const parsed = await parseHuntItemInput(item);
+    if ("error" in parsed) {
+      row.error = parsed.error;
+      continue;
+    }
+
+    const { identifier } = parsed.fields;
+    if (identifier) {
+      if (existingIdentifiers.has(identifier)) {
+        row.error = "Hunt item with this identifier already exists";
+        continue;
+      }
+      if (seenIdentifiers.has(identifier)) {
+        row.error = "Identifier is repeated in this file";
+        continue;
+      }
+      seenIdentifiers.add(identifier);
+    }
+
+    validFields.push(parsed.fields);
+  }
+
+  return { rows, validFields };
+}
+
+/**
+ * Create all imported hunt items in one transaction, so a failure part way
+ * through leaves no partial import behind
+ * @param fieldsList - Validated fields from validateHuntItemImport
+ * @returns The created hunt items
+ */
+export async function insertImportedHuntItems(fieldsList: HuntItemFields[]) {
+  const documents: (HuntItemFields & { shortCode?: string })[] = [];
+  for (const fields of fieldsList) {
+    documents.push({
+      ...fields,
+      shortCode:
+        fields.kind === "qr" && !fields.rotating
+          ? await generateUniqueShortCode()
+          : undefined,
+    });
+  }
+
+  const session = await mongoose.startSession();
+
+  try {
+    return await session.withTransaction(() =>
+      HuntItem.insertMany(documents, { session })
+    );
+  } finally {
+    await session.endSession();
+  }
+}
@@ -0,0 +1,87 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  HuntItemInput,
+  parseHuntItemInput,
+  parseHuntItemUpdate,
+} from "./huntItems";
+
+// Items without schedule links never query the database
+vi.mock("./mongodb", () => ({ default: vi.fn() }));
+
+// JSON imports can contain any value, whatever HuntItemInput says
+const parse = (input: Record<string, unknown>) =>
+  parseHuntItemInput(input as HuntItemInput);
+
+describe("parseHuntItemInput", () => {
+  it("accepts a valid qr item", async () => {
+    const parsed = await parse({ name: "Booth", identifier: "booth-1" });
+
+    expect(parsed).toMatchObject({
+      fields: { name: "Booth", identifier: "booth-1", kind: "qr", points: 0 },
+    });
+  });
+
+  it("rejects a numeric identifier", async () => {
+    expect(await parse({ name: "Booth", identifier: 42 })).toEqual({
+      error: "Identifier must be text",
+    });
+  });
+
+  it("rejects non-text answers and hints on puzzles", async () => {
+    const puzzle = { name: "Riddle", kind: "puzzle", prompt: "What?" };
+
+    expect(await parse({ ...puzzle, answers: [42] })).toEqual({
+      error: "Answers must be a list of text",
+    });
+    expect(
+      await parse({ ...puzzle, answers: ["yes"], hints: "think" })
+    ).toEqual({ error: "Hints must be a list of text" });
+  });
+});
+
+describe("parseHuntItemUpdate", () => {
+  const stored = {
+    identifier: "riddle-1",
+    kind: "puzzle",
+    prompt: "What?",
+    hints: ["Think"],
+    answerHashes: ["hash"],
+    teamScope: "team",
+  };
+
+  it("keeps stored values for omitted fields", async () => {
+    const parsed = await parseHuntItemUpdate({ name: "Riddle" }, stored);
+
+    expect(parsed).toMatchObject({
+      fields: {
+        kind: "puzzle",
+        prompt: "What?",
+        hints: ["Think"],
+        answerHashes: ["hash"],
+        teamScope: "team",
+      },
+    });
+  });
+
+  it("applies the same type checks as new items", async () => {
+    const input = { name: "Riddle", hints: [1] } as Record<string, unknown>;
+
+    expect(await parseHuntItemUpdate(input as HuntItemInput, stored)).toEqual({
+      error: "Hints must be a list of text",
+    });
+    expect(
+      await parseHuntItemUpdate({ name: "Riddle", points: "lots" }, stored)
+    ).toEqual({ error: "Points must be a number" });
+  });
+
+  it("checks a new window start against the stored end", async () => {
+    const windowed = { ...stored, availableUntil: new Date("2026-05-01") };
+
+    expect(
+      await parseHuntItemUpdate(
+        { name: "Riddle", availableFrom: "2026-05-02" },
+        windowed
+      )
+    ).toEqual({ error: "availableFrom must be before availableUntil" });
+  });
+});
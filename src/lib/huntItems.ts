@@ -0,0 +1,442 @@
+import mongoose, { Types } from "mongoose";
+import { HuntItem, PointTransaction, TeamClaim, User } from "./models";
+import { hashAnswers } from "./puzzleAnswers";
+import { ClaimWindowInput, parseClaimWindowInput } from "./claimWindow";
+import { parseClaimLimitsInput, PointTier } from "./claimService";
+import { parseTags } from "./achievements";
+import { createPointTransaction, savePointTransactions } from "./pointsLedger";
+
+export interface HuntItemInput extends ClaimWindowInput {
+  name?: string;
+  description?: string;
+  identifier?: string;
+  points?: number | string;
+  kind?: string;
+  rotating?: boolean;
+  prompt?: string;
+  answers?: string[];
+  hints?: string[];
+  claimCap?: number | string | null;
+  pointTiers?: PointTier[] | null;
+  teamScope?: string;
+  tags?: unknown;
+}
+
+export interface HuntItemFields {
+  name: string;
+  description?: string;
+  identifier?: string;
+  kind: string;
+  rotating: boolean;
+  teamScope: string;
+  tags: string[];
+  points: number;
+  prompt?: string;
+  answerHashes?: string[];
+  hints?: string[];
+  // Claim window and claim limit fields
+  [key: string]: unknown;
+}
+
+// Bodies and JSON imports aren't type-checked, so text fields are checked
+// before use (null and missing values are treated the same)
+function findTypeError(input: HuntItemInput): string | null {
+  const textFields: Record<string, unknown> = {
+    Name: input.name,
+    Description: input.description,
+    Identifier: input.identifier,
+    Prompt: input.prompt,
+  };
+  for (const [label, value] of Object.entries(textFields)) {
+    if (value != null && typeof value !== "string") {
+      return `${label} must be text`;
+    }
+  }
+
+  const listFields: Record<string, unknown> = {
+    Answers: input.answers,
+    Hints: input.hints,
+  };
+  for (const [label, value] of Object.entries(listFields)) {
+    if (
+      value != null &&
+      !(
+        Array.isArray(value) &&
+        value.every((entry) => typeof entry === "string")
+      )
+    ) {
+      return `${label} must be a list of text`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Validate a new hunt item sent by the admin add form or a bulk import.
+ * Requires a database connection to check schedule links.
+ * @param input - Request body fields
+ * @param existing.answerHashes - Answers to keep when none are given (updates)
+ * @param existing.availableFrom - Stored window start, for updates
+ * @param existing.availableUntil - Stored window end, for updates
+ * @returns The fields to store and the number of accepted answers, or an error message
+ */
+export async function parseHuntItemInput(
+  input: HuntItemInput,
+  existing: {
+    answerHashes?: string[];
+    availableFrom?: Date | null;
+    availableUntil?: Date | null;
+  } = {}
+): Promise<
+  { fields: HuntItemFields; answersCount: number } | { error: string }
+> {
+  const {
+    name,
+    description,
+    identifier,
+    points,
+    kind = "qr",
+    rotating,
+    prompt,
+    answers,
+    hints,
+    availableFrom,
+    availableUntil,
+    scheduleLink,
+    claimCap,
+    pointTiers,
+    teamScope = "member",
+    tags,
+  } = input;
+
+  const typeError = findTypeError(input);
+  if (typeError) {
+    return { error: typeError };
+  }
+
+  if (!["qr", "puzzle"].includes(kind)) {
+    return { error: "Kind must be qr or puzzle" };
+  }
+
+  if (!["member", "team"].includes(teamScope)) {
+    return { error: "Team scope must be member or team" };
+  }
+
+  if (!name || (kind === "qr" && !identifier)) {
+    return { error: "Name and identifier are required" };
+  }
+
+  const parsedPoints = Number(points || 0);
+  if (!Number.isFinite(parsedPoints)) {
+    return { error: "Points must be a number" };
+  }
+
+  // Puzzles need a prompt and at least one accepted answer
+  const givenAnswerHashes =
+    kind === "puzzle" && Array.isArray(answers) ? hashAnswers(answers) : [];
+  const answerHashes =
+    kind === "puzzle" && givenAnswerHashes.length === 0
+      ? existing.answerHashes || []
+      : givenAnswerHashes;
+
+  if (kind === "puzzle" && (!prompt || answerHashes.length === 0)) {
+    return {
+      error: "Puzzles require a prompt and at least one accepted answer",
+    };
+  }
+
+  const claimLimits = parseClaimLimitsInput({ claimCap, pointTiers });
+  if ("error" in claimLimits) {
+    return { error: claimLimits.error };
+  }
+
+  const claimWindow = await parseClaimWindowInput(
+    { availableFrom, availableUntil, scheduleLink },
+    existing
+  );
+  if ("error" in claimWindow) {
+    return { error: claimWindow.error };
+  }
+
+  return {
+    fields: {
+      name,
+      description,
+      identifier: identifier || undefined,
+      kind,
+      rotating: kind === "qr" && !!rotating,
+      ...claimWindow.fields,
+      ...claimLimits.fields,
+      teamScope,
+      tags: parseTags(tags),
+      points: parsedPoints,
+      ...(kind === "puzzle" && {
+        prompt,
+        answerHashes,
+        hints: Array.isArray(hints)
+          ? hints.filter((hint: string) => hint?.trim())
+          : [],
+      }),
+    },
+    answersCount: answerHashes.length,
+  };
+}
+
+interface EditableHuntItem {
+  identifier?: string;
+  kind?: string;
+  rotating?: boolean;
+  teamScope?: string;
+  tags?: string[];
+  prompt?: string;
+  hints?: string[];
+  answerHashes?: string[];
+  availableFrom?: Date | null;
+  availableUntil?: Date | null;
+}
+
+/**
+ * Validate an update to a hunt item from the admin edit form, with the same
+ * rules as a new item. Omitted fields keep their stored values (description
+ * is cleared if left out), and the identifier and kind can't be changed.
+ * @param input - Request body fields
+ * @param huntItem - The hunt item being updated
+ * @returns The fields to store, or an error message
+ */
+export async function parseHuntItemUpdate(
+  input: HuntItemInput,
+  huntItem: EditableHuntItem
+) {
+  return parseHuntItemInput(
+    {
+      rotating: huntItem.rotating,
+      teamScope: huntItem.teamScope,
+      tags: huntItem.tags,
+      prompt: huntItem.prompt,
+      hints: huntItem.hints,
+      ...input,
+      identifier: huntItem.identifier,
+      kind: huntItem.kind,
+    },
+    {
+      answerHashes: huntItem.answerHashes,
+      availableFrom: huntItem.availableFrom,
+      availableUntil: huntItem.availableUntil,
+    }
+  );
+}
+
+export type DeletedItemPointsMode = "keep" | "revoke";
+
+interface ScoredHuntItem {
+  _id: Types.ObjectId;
+  name: string;
+  points: number;
+}
+
+/**
+ * Sum the points each user currently holds for a hunt item, from their
+ * claim and any later adjustments. Tiered items award different points per
+ * claimer, so this can't be derived from the item alone. Users who claimed
+ * before the ledger existed have no entry.
+ * @param huntItemId - Hunt item to total
+ * @param userIds - Claimers to include
+ * @param session - Transaction to read in, if any
+ * @returns Points held, keyed by user id
+ */
+async function getAwardedPoints(
+  huntItemId: Types.ObjectId,
+  userIds: Types.ObjectId[],
+  session?: mongoose.ClientSession
+) {
+  const totals = await PointTransaction.aggregate([
+    {
+      $match: {
+        huntItem: huntItemId,
+        type: { $in: ["claim", "adjustment"] },
+        user: { $in: userIds },
+      },
+    },
+    { $group: { _id: "$user", amount: { $sum: "$amount" } } },
+  ]).session(session || null);
+
+  return new Map<string, number>(
+    totals.map((total) => [total._id.toString(), total.amount])
+  );
+}
+
+/**
+ * Permanently delete a hunt item and remove it from every claimer's history.
+ * With "revoke", the points each claimer was awarded for it are taken back
+ * and recorded as revocations in their ledger; with "keep" balances are untouched.
+ * @param huntItem - Hunt item document to delete
+ * @param pointsMode - Whether claimers keep or lose the points they were awarded
+ * @param actorEmail - Admin deleting the item
+ * @returns Points revoked from each claimer
+ */
+export async function deleteHuntItemPermanently(
+  huntItem: ScoredHuntItem,
+  pointsMode: DeletedItemPointsMode,
+  actorEmail?: string
+) {
+  const session = await mongoose.startSession();
+
+  try {
+    return await session.withTransaction(async () => {
+      const claimers = await User.find({ history: huntItem._id })
+        .select("_id email")
+        .session(session);
+
+      // Claims made before the ledger existed fall back to the item's points
+      const awarded =
+        pointsMode === "revoke"
+          ? await getAwardedPoints(
+              huntItem._id,
+              claimers.map((claimer) => claimer._id),
+              session
+            )
+          : new Map<string, number>();
+
+      const revocations: { email: string; points: number }[] = [];
+      const transactions = [];
+
+      for (const claimer of claimers) {
+        const amount =
+          pointsMode === "revoke"
+            ? (awarded.get(claimer._id.toString()) ?? huntItem.points)
+            : 0;
+
+        const updated = await User.findByIdAndUpdate(
+          claimer._id,
+          {
+            $pull: { history: huntItem._id },
+            ...(amount && { $inc: { points: -amount } }),
+          },
+          { new: true, session }
+        );
+
+        if (updated && amount) {
+          revocations.push({ email: updated.email, points: amount });
+          transactions.push(
+            createPointTransaction(updated, {
+              type: "revocation",
+              amount: -amount,
+              reason: `Hunt item "${huntItem.name}" was deleted`,
+              actorEmail,
+              huntItem: huntItem._id,
+            })
+          );
+        }
+      }
+
+      await savePointTransactions(transactions, session);
+      await TeamClaim.deleteMany({ huntItem: huntItem._id }, { session });
+      await HuntItem.deleteOne({ _id: huntItem._id }, { session });
+
+      return { claimersAffected: claimers.length, revocations };
+    });
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * Find claimers who currently hold the item's base points. Claimers awarded a
+ * point tier bonus are left out, since a change to the base value doesn't
+ * affect them. Claims made before the ledger existed count as the base value.
+ * @param huntItem - Hunt item whose claimers to look up
+ * @param basePoints - The item's current base points
+ * @param session - Transaction to read in, if any
+ */
+async function findBaseValueClaimers(
+  huntItem: ScoredHuntItem,
+  basePoints: number,
+  session?: mongoose.ClientSession
+) {
+  const claimers = await User.find({ history: huntItem._id })
+    .select("_id")
+    .session(session || null);
+
+  const awarded = await getAwardedPoints(
+    huntItem._id,
+    claimers.map((claimer) => claimer._id),
+    session
+  );
+
+  return claimers.filter(
+    (claimer) =>
+      (awarded.get(claimer._id.toString()) ?? basePoints) === basePoints
+  );
+}
+
+/**
+ * Preview the effect of applying a points change to past claims
+ * @param huntItem - Hunt item being edited
+ * @param newPoints - The proposed base points
+ * @returns Number of claimers whose balance would change and by how much
+ */
+export async function previewPastClaimAdjustment(
+  huntItem: ScoredHuntItem,
+  newPoints: number
+) {
+  const pointsPerUser = newPoints - huntItem.points;
+  const claimers = pointsPerUser
+    ? await findBaseValueClaimers(huntItem, huntItem.points)
+    : [];
+
+  return {
+    usersAffected: claimers.length,
+    pointsPerUser,
+    totalPoints: claimers.length * pointsPerUser,
+  };
+}
+
+/**
+ * Adjust every claimer holding the old base points by the difference,
+ * recording an adjustment in each of their ledgers. Run this in the same
+ * transaction that saves the new points value.
+ * @param huntItem - Hunt item being edited
+ * @param oldPoints - Base points before the edit
+ * @param newPoints - Base points after the edit
+ * @param actorEmail - Admin making the change
+ * @param session - Transaction the edit is saved in
+ * @returns Number of claimers adjusted and the change applied to each
+ */
+export async function adjustPastClaims(
+  huntItem: ScoredHuntItem,
+  oldPoints: number,
+  newPoints: number,
+  actorEmail: string | undefined,
+  session: mongoose.ClientSession
+) {
+  const pointsPerUser = newPoints - oldPoints;
+  if (!pointsPerUser) return { usersAffected: 0, pointsPerUser };
+
+  const claimers = await findBaseValueClaimers(huntItem, oldPoints, session);
+  const transactions = [];
+
+  for (const claimer of claimers) {
+    const updated = await User.findByIdAndUpdate(
+      claimer._id,
+      { $inc: { points: pointsPerUser } },
+      { new: true, session }
+    );
+
+    if (updated) {
+      transactions.push(
+        createPointTransaction(updated, {
+          type: "adjustment",
+          amount: pointsPerUser,
+          reason: `"${huntItem.name}" changed from ${oldPoints} to ${newPoints} points`,
+          actorEmail,
+          huntItem: huntItem._id,
+        })
+      );
+    }
+  }
+
+  await savePointTransactions(transactions, session);
+
+  return { usersAffected: transactions.length, pointsPerUser };
+}
@@ -38,8 +38,11 @@ export interface DbUser {
   _id: string;
   email: string;
   name?: string;
+  leaderboardAlias?: string | null;
+  hideFromLeaderboard?: boolean;
   points: number;
   history: string[];
+  achievements?: UnlockedAchievement[];
   claim_attempts?: ClaimAttempt[];
 }
 
@@ -50,21 +53,141 @@ export interface ClaimAttempt {
   item_id?: string;
 }
 
+export type HuntItemKind = "qr" | "puzzle";
+export type HuntItemTeamScope = "member" | "team";
+
+export interface HuntItemScheduleLink {
+  day: string; // Day document ID
+  scheduleItem: string; // ScheduleItem ID within that day
+}
+
+// Claimers up to position `upTo` (1 = first finder) receive `points`
+export interface PointTier {
+  upTo: number;
+  points: number;
+}
+
 export interface HuntItem {
   _id: string;
   name: string;
   description: string;
-  identifier: string;
+  identifier?: string; // Puzzles are answered rather than scanned
+  shortCode?: string; // Fallback for typing instead of scanning
+  kind?: HuntItemKind;
+  rotating?: boolean; // Claimable only from a live, signed QR display
+  availableFrom?: string | null;
+  availableUntil?: string | null;
+  scheduleLink?: HuntItemScheduleLink | null; // Overrides availableFrom/Until
+  claimCap?: number | null;
+  pointTiers?: PointTier[];
+  claimCount?: number;
+  teamScope?: HuntItemTeamScope;
+  tags?: string[];
+  prompt?: string;
+  hints?: string[];
+  answers?: string[]; // Only set client-side when replacing accepted answers
   points: number;
+  applyToPastClaims?: boolean; // Only set client-side when changing points
+  archivedAt?: string | null; // Hidden from hunters until restored
   createdAt: string;
   updatedAt: string;
 }
 
+// Redacted hunt item returned to hunters by GET /api/hunt-items
+export interface HuntItemCatalogEntry {
+  _id: string;
+  name: string;
+  description: string;
+  points: number;
+  kind?: HuntItemKind;
+  tags?: string[];
+  remaining?: number; // Claims left when the item has a claim cap
+  claimed: boolean;
+}
+
 export interface HuntItemFormData {
   name: string;
   description: string;
   identifier: string;
   points: number;
+  kind: HuntItemKind;
+  rotating: boolean;
+  availableFrom: string | null;
+  availableUntil: string | null;
+  scheduleLink: HuntItemScheduleLink | null;
+  claimCap: number | null;
+  pointTiers: PointTier[];
+  teamScope: HuntItemTeamScope;
+  tags: string[];
+  prompt: string;
+  answers: string[];
+  hints: string[];
+}
+
+export interface Puzzle {
+  _id: string;
+  name: string;
+  description?: string;
+  prompt: string;
+  hints: string[];
+  points: number;
+  solved: boolean;
+}
+
+export type AchievementRule = "all" | "count";
+
+export interface Achievement {
+  _id: string;
+  name: string;
+  description?: string;
+  huntItems: string[];
+  tags: string[];
+  kind?: HuntItemKind | null;
+  rule: AchievementRule;
+  requiredCount?: number | null;
+  bonusPoints: number;
+  active: boolean;
+  createdAt: string;
+  updatedAt: string;
+}
+
+// Achievement as shown to the user who unlocked it
+export interface UnlockedAchievement {
+  _id: string;
+  name: string;
+  description?: string;
+  bonusPoints: number;
+  unlockedAt?: string;
+}
+
+export interface Prize {
+  _id: string;
+  name: string;
+  description?: string;
+  imageUrl?: string;
+  pointCost: number;
+  stock: number;
+  perUserLimit?: number | null;
+  active: boolean;
+  redeemedCount: number;
+  redeemedByUser?: number; // Only when fetched for a specific user
+  createdAt: string;
+  updatedAt: string;
+}
+
+export interface TeamMember {
+  _id: string;
+  name?: string;
+  points: number;
+}
+
+export interface Team {
+  _id: string;
+  name: string;
+  inviteCode: string;
+  score: number;
+  members: TeamMember[];
+  createdAt: string;
 }
 
 export interface Day {
@@ -0,0 +1,365 @@
+import { Types } from "mongoose";
+import { User } from "./models";
+
+export type LeaderboardView = "individual" | "team";
+
+export const DEFAULT_LEADERBOARD_PAGE_SIZE = 10;
+const MAX_LEADERBOARD_PAGE_SIZE = 50;
+
+export interface LeaderboardEntry {
+  rank: number;
+  name: string;
+  score: number;
+  members?: number; // Only present in the team view
+  isMe?: boolean;
+}
+
+export interface LeaderboardStanding {
+  rank: number | null; // Null until the caller has a name and points
+  name: string;
+  score: number;
+  pointsToNextRank: number | null; // Null when already first
+  hidden?: boolean; // The caller has hidden themselves from the leaderboard
+}
+
+// A ranked user or team, with its ID so callers can find their own row
+export interface RankedEntry {
+  id: Types.ObjectId;
+  rank: number;
+  name: string;
+  score: number;
+  members?: number; // Only present in the team view
+}
+
+// Every ranked entry in a view. It's the same for every caller, so it can be
+// cached; each caller's "me" and isMe are added by buildLeaderboardResponse.
+export interface RankedLeaderboard {
+  entries: RankedEntry[];
+  // Scores of every user when they aren't their current points (e.g. for a
+  // single day), so unranked callers see the right score
+  scores?: Map<string, number>;
+}
+
+// Minimal shape of a User document needed to find the caller's standing
+export interface LeaderboardViewer {
+  _id: Types.ObjectId;
+  name?: string;
+  leaderboardAlias?: string | null;
+  hideFromLeaderboard?: boolean;
+  points?: number;
+  team?: Types.ObjectId | null;
+}
+
+export interface LeaderboardPaging {
+  page: number;
+  pageSize: number;
+}
+
+export interface LeaderboardPrivacyFields {
+  leaderboardAlias?: string | null;
+  hideFromLeaderboard?: boolean;
+}
+
+export const MAX_LEADERBOARD_ALIAS_LENGTH = 30;
+
+// Users need a name (or alias) and some points to appear on the leaderboard,
+// and can opt out entirely
+const RANKED_USER_FILTER = {
+  hideFromLeaderboard: { $ne: true },
+  $or: [
+    { name: { $nin: [null, ""] } },
+    { leaderboardAlias: { $nin: [null, ""] } },
+  ],
+  points: { $gt: 0 },
+};
+
+// The name shown publicly: the user's alias if they've set one
+const DISPLAY_NAME = { $ifNull: ["$leaderboardAlias", "$name"] };
+
+// Time the current score was reached; users whose points haven't changed
+// since pointsUpdatedAt was added fall back to when they signed up
+const REACHED_AT = { $ifNull: ["$pointsUpdatedAt", "$createdAt"] };
+
+/**
+ * Read paging options from the query string
+ * @param searchParams - Request query (page is 1-based)
+ */
+export function parseLeaderboardPaging(
+  searchParams: URLSearchParams
+): LeaderboardPaging {
+  const page = parseInt(searchParams.get("page") || "1", 10);
+  const pageSize = parseInt(
+    searchParams.get("pageSize") || `${DEFAULT_LEADERBOARD_PAGE_SIZE}`,
+    10
+  );
+
+  return {
+    page: Number.isInteger(page) && page > 0 ? page : 1,
+    pageSize:
+      Number.isInteger(pageSize) && pageSize > 0
+        ? Math.min(pageSize, MAX_LEADERBOARD_PAGE_SIZE)
+        : DEFAULT_LEADERBOARD_PAGE_SIZE,
+  };
+}
+
+/**
+ * Assign standard competition ranks ("1224") to entries sorted by score
+ * @param entries - Entries in leaderboard order
+ * @param firstRank - Rank of the first entry (lower than its position when it
+ * ties with entries before it)
+ * @param firstPosition - 1-based position of the first entry
+ */
+export function assignCompetitionRanks<T extends { score: number }>(
+  entries: T[],
+  firstRank: number,
+  firstPosition = firstRank
+): (T & { rank: number })[] {
+  let rank = firstRank;
+
+  return entries.map((entry, index) => {
+    if (index > 0 && entry.score < entries[index - 1].score) {
+      rank = firstPosition + index;
+    }
+    return { ...entry, rank };
+  });
+}
+
+/**
+ * Find an entry's standing in a ranked list
+ * @param entries - Ranked entries in leaderboard order
+ * @param index - Position of the entry, or -1 if it isn't ranked
+ * @returns The standing, or null if the entry isn't ranked
+ */
+export function findStanding(
+  entries: { rank: number; name: string; score: number }[],
+  index: number
+): LeaderboardStanding | null {
+  if (index === -1) return null;
+
+  const entry = entries[index];
+  const nextScore = entries
+    .slice(0, index)
+    .reverse()
+    .find((other) => other.score > entry.score)?.score;
+
+  return {
+    rank: entry.rank,
+    name: entry.name,
+    score: entry.score,
+    pointsToNextRank: nextScore !== undefined ? nextScore - entry.score : null,
+  };
+}
+
+/**
+ * Every team with points, in leaderboard order. Team scores are the sum of
+ * their members' points, and ties go to the team that reached its score first.
+ * Members hidden from the leaderboard still count, since only team names are shown.
+ */
+async function getRankedTeams(): Promise<RankedEntry[]> {
+  const teams = await User.aggregate([
+    { $match: { team: { $ne: null } } },
+    {
+      $group: {
+        _id: "$team",
+        score: { $sum: "$points" },
+        members: { $sum: 1 },
+        reachedAt: { $max: REACHED_AT },
+      },
+    },
+    { $match: { score: { $gt: 0 } } },
+    { $sort: { score: -1, reachedAt: 1, _id: 1 } },
+    {
+      $lookup: {
+        from: "teams",
+        localField: "_id",
+        foreignField: "_id",
+        as: "team",
+      },
+    },
+    { $unwind: "$team" },
+  ]);
+
+  return assignCompetitionRanks(
+    teams.map((entry) => ({
+      id: entry._id as Types.ObjectId,
+      name: entry.team.name as string,
+      score: entry.score as number,
+      members: entry.members as number,
+    })),
+    1
+  );
+}
+
+/**
+ * Every ranked user, in leaderboard order
+ */
+async function getRankedUsers(): Promise<RankedEntry[]> {
+  const users = await User.aggregate([
+    { $match: RANKED_USER_FILTER },
+    { $addFields: { reachedAt: REACHED_AT } },
+    { $sort: { points: -1, reachedAt: 1, _id: 1 } },
+    { $project: { name: DISPLAY_NAME, points: 1 } },
+  ]);
+
+  return assignCompetitionRanks(
+    users.map((user) => ({
+      id: user._id as Types.ObjectId,
+      name: user.name as string,
+      score: user.points as number,
+    })),
+    1
+  );
+}
+
+/**
+ * Rank the live leaderboard
+ * @param view - Individuals or teams
+ */
+export async function getLiveRankings(
+  view: LeaderboardView
+): Promise<RankedLeaderboard> {
+  return {
+    entries: view === "team" ? await getRankedTeams() : await getRankedUsers(),
+  };
+}
+
+/**
+ * Look up the signed-in caller for their own standing
+ * @param email - Email of the signed-in caller, if any
+ */
+export async function findLeaderboardViewer(
+  email?: string | null
+): Promise<LeaderboardViewer | null> {
+  if (!email) return null;
+  const viewer = await User.findOne({ email }).select(
+    "name leaderboardAlias hideFromLeaderboard points team"
+  );
+  return viewer as LeaderboardViewer | null;
+}
+
+/**
+ * Find the caller's rank and how many points they need to reach the next rank
+ * @param rankings - The ranked leaderboard
+ * @param view - Individuals or teams
+ * @param viewer - The caller's user document
+ * @returns The caller's standing, or null if they have no team in the team view
+ */
+function getLeaderboardStanding(
+  { entries, scores }: RankedLeaderboard,
+  view: LeaderboardView,
+  viewer: LeaderboardViewer
+): LeaderboardStanding | null {
+  if (view === "team") {
+    const teamId = viewer.team;
+    if (!teamId) return null;
+
+    return findStanding(
+      entries,
+      entries.findIndex((entry) => entry.id.equals(teamId))
+    );
+  }
+
+  const name = viewer.leaderboardAlias || viewer.name || "";
+  const score = scores
+    ? scores.get(viewer._id.toString()) || 0
+    : viewer.points || 0;
+
+  if (viewer.hideFromLeaderboard) {
+    return { rank: null, name, score, pointsToNextRank: null, hidden: true };
+  }
+
+  // Users without a name or points aren't ranked yet
+  return (
+    findStanding(
+      entries,
+      entries.findIndex((entry) => entry.id.equals(viewer._id))
+    ) || { rank: null, name, score, pointsToNextRank: null }
+  );
+}
+
+/**
+ * Build the leaderboard response: one page of entries, paging totals and,
+ * for a signed-in caller, their own standing
+ * @param rankings - The ranked leaderboard, shared by every caller
+ * @param view - Individuals or teams
+ * @param paging - Page number and size
+ * @param viewer - The signed-in caller, if any
+ */
+export function buildLeaderboardResponse(
+  rankings: RankedLeaderboard,
+  view: LeaderboardView,
+  { page, pageSize }: LeaderboardPaging,
+  viewer: LeaderboardViewer | null
+) {
+  const { entries } = rankings;
+  const skip = (page - 1) * pageSize;
+  const viewerId = view === "team" ? viewer?.team : viewer?._id;
+
+  return {
+    leaderboard: entries
+      .slice(skip, skip + pageSize)
+      .map(({ id, ...entry }): LeaderboardEntry => ({
+        ...entry,
+        ...(viewerId?.equals(id) && { isMe: true }),
+      })),
+    page,
+    pageSize,
+    total: entries.length,
+    totalPages: Math.ceil(entries.length / pageSize),
+    me: viewer ? getLeaderboardStanding(rankings, view, viewer) : null,
+  };
+}
+
+/**
+ * Validate leaderboard privacy settings sent by a user.
+ * Only fields present in the input are returned, so omitted fields are left unchanged.
+ * @param input - Request body fields
+ * @param userId - The user making the change, so their own alias isn't a conflict
+ * @returns The fields to store, or an error message
+ */
+export async function parseLeaderboardPrivacyInput(
+  input: { leaderboardAlias?: unknown; hideFromLeaderboard?: unknown },
+  userId: Types.ObjectId
+): Promise<{ fields: LeaderboardPrivacyFields } | { error: string }> {
+  const fields: LeaderboardPrivacyFields = {};
+
+  if (input.leaderboardAlias !== undefined) {
+    if (
+      input.leaderboardAlias !== null &&
+      typeof input.leaderboardAlias !== "string"
+    ) {
+      return { error: "Alias must be text" };
+    }
+
+    const alias = input.leaderboardAlias?.trim() || null;
+
+    if (alias) {
+      if (alias.length > MAX_LEADERBOARD_ALIAS_LENGTH) {
+        return {
+          error: `Alias must be ${MAX_LEADERBOARD_ALIAS_LENGTH} characters or fewer`,
+        };
+      }
+
+      // Aliases are compared case-insensitively so nobody can pass as someone else
+      const taken = await User.exists({
+        _id: { $ne: userId },
+        $or: [{ leaderboardAlias: alias }, { name: alias }],
+      }).collation({ locale: "en", strength: 2 });
+
+      if (taken) {
+        return { error: "That alias is already in use" };
+      }
+    }
+
+    fields.leaderboardAlias = alias;
+  }
+
+  if (input.hideFromLeaderboard !== undefined) {
+    if (typeof input.hideFromLeaderboard !== "boolean") {
+      return { error: "hideFromLeaderboard must be true or false" };
+    }
+    fields.hideFromLeaderboard = input.hideFromLeaderboard;
+  }
+
+  return { fields };
+}
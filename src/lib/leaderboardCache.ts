@@ -0,0 +1,93 @@
+import connectMongoDB from "./mongodb";
+import { Cache, createCache } from "./cache";
+import {
+  buildLeaderboardResponse,
+  findLeaderboardViewer,
+  LeaderboardPaging,
+  LeaderboardView,
+} from "./leaderboard";
+import { getCurrentRankings } from "./leaderboardSnapshots";
+import { findLeaderboardDay, getDailyRankings } from "./dailyLeaderboard";
+import { onLeaderboardChanged } from "./leaderboardEvents";
+
+// Venue screens poll constantly, so even a few seconds saves most queries.
+// Changes on this server invalidate the cache straight away; changes on other
+// instances show up once the TTL runs out.
+const LEADERBOARD_CACHE_TTL_MS = 5000;
+
+// How long the last leaderboard is served if MongoDB is unavailable
+const LEADERBOARD_MAX_STALE_MS = 10 * 60 * 1000;
+
+type CachedRankings =
+  | Awaited<ReturnType<typeof getCurrentRankings>>
+  | Awaited<ReturnType<typeof getDailyRankings>>
+  | null; // The requested day doesn't exist
+
+declare global {
+  // eslint-disable-next-line no-var
+  var leaderboardCache: Cache<CachedRankings> | undefined;
+}
+
+const cache: Cache<CachedRankings> =
+  global.leaderboardCache ||
+  createCache<CachedRankings>({
+    ttlMs: LEADERBOARD_CACHE_TTL_MS,
+    maxStaleMs: LEADERBOARD_MAX_STALE_MS,
+  });
+
+if (!global.leaderboardCache) {
+  onLeaderboardChanged(() => cache.invalidate());
+  global.leaderboardCache = cache;
+}
+
+/**
+ * Get the leaderboard response. The rankings for each view and day are cached
+ * once for every caller; the requested page and the caller's own standing are
+ * worked out from them.
+ * @param options.dayId - Rank a single conference day instead of all time
+ * @param options.viewerEmail - Email of the signed-in caller, if any
+ * @returns The response (null if the day doesn't exist) and the cache status
+ * for the X-Cache header
+ */
+export async function getCachedLeaderboard({
+  view,
+  paging,
+  dayId,
+  viewerEmail,
+}: {
+  view: LeaderboardView;
+  paging: LeaderboardPaging;
+  dayId?: string | null;
+  viewerEmail?: string | null;
+}) {
+  const key = JSON.stringify([view, dayId || null]);
+
+  const { value: rankings, status } = await cache.get(key, async () => {
+    await connectMongoDB();
+
+    if (dayId) {
+      const day = await findLeaderboardDay(dayId);
+      return day ? getDailyRankings(day, view) : null;
+    }
+
+    return getCurrentRankings(view);
+  });
+
+  if (!rankings) return { value: null, status };
+
+  // Stale rankings mean the database is down, so skip the caller's standing
+  let viewer = null;
+  if (viewerEmail && status !== "STALE") {
+    await connectMongoDB();
+    viewer = await findLeaderboardViewer(viewerEmail);
+  }
+
+  return {
+    value: {
+      ...buildLeaderboardResponse(rankings, view, paging, viewer),
+      frozenAt: rankings.frozenAt,
+      ...("day" in rankings && { day: rankings.day }),
+    },
+    status,
+  };
+}
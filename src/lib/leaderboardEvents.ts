@@ -0,0 +1,36 @@
+import { EventEmitter } from "events";
+
+// Streams on other server instances don't receive these events, so
+// /api/leaderboard/stream also re-checks the leaderboard on an interval
+declare global {
+  // eslint-disable-next-line no-var
+  var leaderboardEvents: EventEmitter | undefined;
+}
+
+const emitter: EventEmitter = global.leaderboardEvents || new EventEmitter();
+
+if (!global.leaderboardEvents) {
+  // One listener per open leaderboard stream
+  emitter.setMaxListeners(0);
+  global.leaderboardEvents = emitter;
+}
+
+/**
+ * Tell open leaderboard streams that scores have changed.
+ * Call after the change has been committed.
+ */
+export function notifyLeaderboardChanged() {
+  emitter.emit("change");
+}
+
+/**
+ * Listen for score changes
+ * @param listener - Called after each change
+ * @returns Function that removes the listener
+ */
+export function onLeaderboardChanged(listener: () => void) {
+  emitter.on("change", listener);
+  return () => {
+    emitter.off("change", listener);
+  };
+}
@@ -0,0 +1,318 @@
+import { Types } from "mongoose";
+import {
+  Day,
+  LeaderboardFreeze,
+  LeaderboardSnapshot,
+  PointTransaction,
+  Team,
+  User,
+} from "./models";
+import {
+  assignCompetitionRanks,
+  getLiveRankings,
+  LeaderboardView,
+  RankedEntry,
+} from "./leaderboard";
+import { scheduleTimeToDate } from "./claimWindow";
+
+export type LeaderboardSnapshotKind = "freeze" | "scheduled" | "manual";
+
+interface SnapshotIndividual {
+  rank: number;
+  user: Types.ObjectId;
+  name: string;
+  score: number;
+}
+
+interface SnapshotTeam {
+  rank: number;
+  team: Types.ObjectId;
+  name: string;
+  score: number;
+  members: number;
+}
+
+// Scheduled snapshots are taken as of this time (event time zone) on each
+// conference day
+const END_OF_DAY = "23:59";
+
+// Due scheduled snapshots are looked for at most this often
+const SCHEDULE_CHECK_INTERVAL_MS = 60 * 1000;
+
+let nextScheduleCheck = 0;
+
+interface RankedCandidate {
+  id: Types.ObjectId;
+  score: number;
+  reachedAt: Date;
+}
+
+// Same order as the live leaderboard: highest score first, then whoever
+// reached it first
+function compareStandings(a: RankedCandidate, b: RankedCandidate) {
+  return (
+    b.score - a.score ||
+    a.reachedAt.getTime() - b.reachedAt.getTime() ||
+    a.id.toString().localeCompare(b.id.toString())
+  );
+}
+
+/**
+ * Work out the standings as of a point in time. Scores are rebuilt from the
+ * points ledger by undoing every change made after `at`, so a freeze is exact
+ * even when the snapshot is taken later. Team membership is as it is now.
+ * @param at - Time the standings should reflect
+ */
+async function computeStandingsAt(at: Date) {
+  const [users, laterChanges, lastChanges] = await Promise.all([
+    User.find({}).select(
+      "name leaderboardAlias hideFromLeaderboard points team createdAt"
+    ),
+    PointTransaction.aggregate([
+      { $match: { createdAt: { $gt: at } } },
+      { $group: { _id: "$user", amount: { $sum: "$amount" } } },
+    ]),
+    PointTransaction.aggregate([
+      { $match: { createdAt: { $lte: at } } },
+      { $group: { _id: "$user", reachedAt: { $max: "$createdAt" } } },
+    ]),
+  ]);
+
+  const laterAmounts = new Map<string, number>(
+    laterChanges.map((entry) => [entry._id.toString(), entry.amount])
+  );
+  const reachedAt = new Map<string, Date>(
+    lastChanges.map((entry) => [entry._id.toString(), entry.reachedAt])
+  );
+
+  const standings = users.map((user) => ({
+    id: user._id as Types.ObjectId,
+    name: (user.leaderboardAlias || user.name || "") as string,
+    hidden: !!user.hideFromLeaderboard,
+    team: (user.team || null) as Types.ObjectId | null,
+    score: (user.points || 0) - (laterAmounts.get(user._id.toString()) || 0),
+    reachedAt: reachedAt.get(user._id.toString()) || (user.createdAt as Date),
+  }));
+
+  const individuals: SnapshotIndividual[] = assignCompetitionRanks(
+    standings
+      .filter((user) => !user.hidden && user.name && user.score > 0)
+      .sort(compareStandings),
+    1
+  ).map(({ rank, id, name, score }) => ({ rank, user: id, name, score }));
+
+  // Hidden members still count towards their team, as on the live leaderboard
+  const teamTotals = new Map<string, RankedCandidate & { members: number }>();
+  for (const user of standings) {
+    if (!user.team) continue;
+    const total = teamTotals.get(user.team.toString()) || {
+      id: user.team,
+      score: 0,
+      members: 0,
+      reachedAt: user.reachedAt,
+    };
+    total.score += user.score;
+    total.members += 1;
+    if (user.reachedAt > total.reachedAt) total.reachedAt = user.reachedAt;
+    teamTotals.set(user.team.toString(), total);
+  }
+
+  const teamNames = new Map<string, string>(
+    (
+      await Team.find({
+        _id: { $in: [...teamTotals.values()].map((t) => t.id) },
+      }).select("name")
+    ).map((team) => [team._id.toString(), team.name])
+  );
+
+  const teams: SnapshotTeam[] = assignCompetitionRanks(
+    [...teamTotals.values()]
+      .filter((team) => team.score > 0 && teamNames.has(team.id.toString()))
+      .sort(compareStandings),
+    1
+  ).map(({ rank, id, score, members }) => ({
+    rank,
+    team: id,
+    name: teamNames.get(id.toString()) as string,
+    score,
+    members,
+  }));
+
+  return { individuals, teams };
+}
+
+/**
+ * Record the standings as of a point in time
+ * @param options.at - Time the standings should reflect
+ * @param options.key - Identifies freeze and scheduled snapshots so each is
+ * only taken once; the existing snapshot is returned if it was already taken
+ * @returns The saved snapshot
+ */
+export async function takeLeaderboardSnapshot({
+  at,
+  kind,
+  label,
+  takenBy,
+  key,
+}: {
+  at: Date;
+  kind: LeaderboardSnapshotKind;
+  label: string;
+  takenBy: string;
+  key?: string;
+}) {
+  const { individuals, teams } = await computeStandingsAt(at);
+
+  try {
+    return await LeaderboardSnapshot.create({
+      takenAt: at,
+      kind,
+      label,
+      takenBy,
+      key,
+      individuals,
+      teams,
+    });
+  } catch (error) {
+    // Another request took this snapshot first
+    if (key && (error as { code?: number }).code === 11000) {
+      return LeaderboardSnapshot.findOne({ key });
+    }
+    throw error;
+  }
+}
+
+/**
+ * Take the end-of-day snapshot for every conference day that has finished
+ * and doesn't have one yet. Checks at most once a minute per server.
+ */
+export async function takeDueScheduledSnapshots() {
+  const now = Date.now();
+  if (now < nextScheduleCheck) return;
+  nextScheduleCheck = now + SCHEDULE_CHECK_INTERVAL_MS;
+
+  const days = await Day.find({}).select("day timestamp");
+  const due = days
+    .map((day) => ({
+      key: `day:${day.timestamp}`,
+      label: `End of ${day.day}`,
+      at: scheduleTimeToDate(day.timestamp, END_OF_DAY),
+    }))
+    .filter((day) => day.at.getTime() <= now);
+
+  if (due.length === 0) return;
+
+  const taken = new Set<string>(
+    await LeaderboardSnapshot.distinct("key", {
+      key: { $in: due.map((day) => day.key) },
+    })
+  );
+
+  for (const day of due) {
+    if (taken.has(day.key)) continue;
+    await takeLeaderboardSnapshot({
+      at: day.at,
+      kind: "scheduled",
+      label: day.label,
+      takenBy: "system",
+      key: day.key,
+    });
+  }
+}
+
+/**
+ * The freeze currently in place, including one scheduled for a future time
+ */
+export async function getActiveFreeze() {
+  return LeaderboardFreeze.findOne({ liftedAt: null }).sort({ createdAt: -1 });
+}
+
+/**
+ * The snapshot the public leaderboard should show, taking it first if the
+ * freeze time has just passed
+ * @returns The frozen standings, or null if the leaderboard is live
+ */
+async function getFrozenSnapshot() {
+  const freeze = await getActiveFreeze();
+  if (!freeze || freeze.freezeAt > new Date()) return null;
+
+  if (!freeze.snapshot) {
+    const snapshot = await takeLeaderboardSnapshot({
+      at: freeze.freezeAt,
+      kind: "freeze",
+      label: "Final standings",
+      takenBy: freeze.frozenBy || "system",
+      key: `freeze:${freeze._id}`,
+    });
+    await LeaderboardFreeze.updateOne(
+      { _id: freeze._id, snapshot: null },
+      { $set: { snapshot: snapshot._id } }
+    );
+    return snapshot;
+  }
+
+  return LeaderboardSnapshot.findById(freeze.snapshot);
+}
+
+/**
+ * Show snapshot individuals under their current leaderboard settings: users
+ * who have since hidden themselves are dropped (and the rest re-ranked), and
+ * aliases set since are used. Users hidden when the snapshot was taken aren't
+ * in it, so they stay off until the freeze is lifted.
+ * @param individuals - Snapshot individuals in rank order
+ */
+async function applyCurrentDisplaySettings(
+  individuals: SnapshotIndividual[]
+): Promise<RankedEntry[]> {
+  const users = await User.find({
+    _id: { $in: individuals.map((entry) => entry.user) },
+  }).select("name leaderboardAlias hideFromLeaderboard");
+  const currentNames = new Map<string, string>(
+    users
+      .filter((user) => !user.hideFromLeaderboard)
+      .map((user) => [
+        user._id.toString(),
+        (user.leaderboardAlias || user.name || "") as string,
+      ])
+  );
+
+  return assignCompetitionRanks(
+    individuals.flatMap(({ user, score }) => {
+      const name = currentNames.get(user.toString());
+      return name ? [{ id: user, name, score }] : [];
+    }),
+    1
+  );
+}
+
+/**
+ * Rank the public leaderboard: the frozen standings while a freeze is in
+ * place, otherwise the live leaderboard. Frozen individuals are shown under
+ * their current leaderboard settings; the snapshot itself is left as taken.
+ * @param view - Individuals or teams
+ */
+export async function getCurrentRankings(view: LeaderboardView) {
+  await takeDueScheduledSnapshots();
+
+  const snapshot = await getFrozenSnapshot();
+  if (!snapshot) {
+    return { ...(await getLiveRankings(view)), frozenAt: null };
+  }
+
+  const entries: RankedEntry[] =
+    view === "team"
+      ? (snapshot.teams as SnapshotTeam[]).map(
+          ({ rank, team, name, score, members }) => ({
+            id: team,
+            rank,
+            name,
+            score,
+            members,
+          })
+        )
+      : await applyCurrentDisplaySettings(
+          snapshot.individuals as SnapshotIndividual[]
+        );
+
+  return { entries, frozenAt: snapshot.takenAt as Date };
+}
@@ -4,7 +4,14 @@ const userSchema = new Schema(
   {
     email: { type: String, required: true, unique: true },
     name: String,
+    // Public handle shown on the leaderboard instead of the real name
+    leaderboardAlias: { type: String, default: null },
+    // Keeps the user off public leaderboards; they still earn and redeem points
+    hideFromLeaderboard: { type: Boolean, default: false },
     points: { type: Number, default: 0 },
+    // When the balance last changed - breaks leaderboard ties in favour of
+    // whoever reached the score first (set by lib/pointsLedger.ts)
+    pointsUpdatedAt: { type: Date, default: null },
     history: {
       type: [
         {
@@ -14,7 +21,26 @@ const userSchema = new Schema(
       ],
       default: [],
     },
+    team: {
+      type: Schema.Types.ObjectId,
+      ref: "Team",
+      default: null,
+      index: true,
+    },
+    achievements: {
+      type: [
+        {
+          achievement: { type: Schema.Types.ObjectId, ref: "Achievement" },
+          unlockedAt: { type: Date, default: Date.now },
+          _id: false,
+        },
+      ],
+      default: [],
+    },
+    // Legacy embedded claim attempts - now stored in the ClaimAttempt collection.
+    // Kept so /api/admin/migrations/claim-attempts can move old data over.
     claim_attempts: {
+      select: false,
       type: [
         {
           identifier: String,
@@ -27,7 +53,7 @@ const userSchema = new Schema(
           },
         },
       ],
-      default: [],
+      default: undefined,
     },
   },
   {
@@ -35,12 +61,166 @@ const userSchema = new Schema(
   }
 );
 
+userSchema.index({ points: -1, pointsUpdatedAt: 1 });
+
 const huntItemSchema = new Schema(
   {
     name: String,
     description: String,
     identifier: String,
+    // Human-readable fallback printed under the QR for manual entry
+    shortCode: { type: String, unique: true, sparse: true },
+    kind: {
+      type: String,
+      enum: ["qr", "puzzle"],
+      default: "qr",
+    },
+    // Rotating items are only claimable with a signed token from a live display
+    rotating: { type: Boolean, default: false },
+    // Optional claim window; a schedule link takes precedence over fixed times
+    availableFrom: { type: Date, default: null },
+    availableUntil: { type: Date, default: null },
+    scheduleLink: {
+      type: {
+        day: { type: Schema.Types.ObjectId, ref: "Day" },
+        scheduleItem: { type: Schema.Types.ObjectId },
+      },
+      default: null,
+      _id: false,
+    },
+    // Puzzle items are claimed by answering the prompt instead of scanning
+    prompt: String,
+    answerHashes: {
+      type: [String],
+      default: [],
+      select: false,
+    },
+    hints: {
+      type: [String],
+      default: [],
+    },
+    // Free-form labels (e.g. "gold-sponsor", "talk") used by achievements
+    tags: {
+      type: [String],
+      default: [],
+      index: true,
+    },
     points: { type: Number, default: 0 },
+    // Optional limit on total claims, and bonus points keyed on claim order
+    // (e.g. [{ upTo: 20, points: 50 }] - claimers after the last tier get `points`)
+    claimCap: { type: Number, default: null },
+    pointTiers: {
+      type: [{ upTo: Number, points: Number, _id: false }],
+      default: [],
+    },
+    claimCount: { type: Number, default: 0 },
+    // "team" items can be claimed once per team instead of once per member
+    teamScope: {
+      type: String,
+      enum: ["member", "team"],
+      default: "member",
+    },
+    // Archived items are hidden from hunters and can't be claimed, but stay
+    // in claimers' history until the item is permanently deleted
+    archivedAt: { type: Date, default: null },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Never serialize accepted answer hashes, even when explicitly selected
+huntItemSchema.set("toJSON", {
+  transform: (_doc, ret: Record<string, unknown>) => {
+    delete ret.answerHashes;
+    return ret;
+  },
+});
+
+const teamSchema = new Schema(
+  {
+    name: { type: String, required: true, unique: true, trim: true },
+    inviteCode: { type: String, required: true, unique: true },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// A team-scoped hunt item claimed by a team. Kept when the claimer leaves, so
+// the item still counts once for the team however its members change.
+const teamClaimSchema = new Schema(
+  {
+    team: { type: Schema.Types.ObjectId, ref: "Team", required: true },
+    huntItem: { type: Schema.Types.ObjectId, ref: "HuntItem", required: true },
+    user: { type: Schema.Types.ObjectId, ref: "User", required: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+teamClaimSchema.index({ team: 1, huntItem: 1 }, { unique: true });
+teamClaimSchema.index({ user: 1 });
+
+// An achievement unlocks once a user has claimed enough of the matching hunt
+// items. Items match when listed in huntItems, tagged with any of tags, or of
+// the given kind. rule "all" requires every matching item, "count" requires
+// requiredCount of them.
+const achievementSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    description: String,
+    huntItems: {
+      type: [{ type: Schema.Types.ObjectId, ref: "HuntItem" }],
+      default: [],
+    },
+    tags: {
+      type: [String],
+      default: [],
+    },
+    kind: {
+      type: String,
+      enum: ["qr", "puzzle", null],
+      default: null,
+    },
+    rule: {
+      type: String,
+      enum: ["all", "count"],
+      default: "all",
+    },
+    requiredCount: { type: Number, default: null },
+    bonusPoints: { type: Number, default: 0 },
+    active: { type: Boolean, default: true },
+    createdBy: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+// Merch that can be bought with points at the volunteer table. stock counts
+// down with each redemption; perUserLimit caps how many one user can redeem.
+const prizeSchema = new Schema(
+  {
+    name: { type: String, required: true },
+    description: String,
+    imageUrl: String,
+    pointCost: { type: Number, required: true, min: 1 },
+    stock: { type: Number, required: true, min: 0, default: 0 },
+    perUserLimit: { type: Number, default: null }, // null for no limit
+    active: { type: Boolean, default: true },
     createdBy: {
       type: Schema.Types.ObjectId,
       ref: "User",
@@ -51,6 +231,75 @@ const huntItemSchema = new Schema(
   }
 );
 
+const claimAttemptSchema = new Schema({
+  user: {
+    type: Schema.Types.ObjectId,
+    ref: "User",
+    required: true,
+  },
+  userEmail: String, // Denormalized for the admin claim attempts monitor
+  identifier: String,
+  success: { type: Boolean, default: false },
+  timestamp: { type: Date, default: Date.now },
+  item_id: {
+    type: Schema.Types.ObjectId,
+    ref: "HuntItem",
+    required: false,
+  },
+  // Where the attempt came from, for the admin anomaly report
+  ipAddress: String,
+  userAgent: String,
+  // Set on failed attempts when CLAIM_ATTEMPT_FAILED_TTL_DAYS is configured
+  expiresAt: { type: Date, default: null },
+});
+
+claimAttemptSchema.index({ user: 1, timestamp: -1 });
+claimAttemptSchema.index({ user: 1, success: 1, timestamp: -1 });
+claimAttemptSchema.index({ timestamp: -1 });
+claimAttemptSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// Every change to a user's points balance is recorded here; User.points is a
+// cached sum of these amounts (see lib/pointsLedger.ts)
+const pointTransactionSchema = new Schema(
+  {
+    user: {
+      type: Schema.Types.ObjectId,
+      ref: "User",
+      required: true,
+    },
+    type: {
+      type: String,
+      required: true,
+      enum: ["claim", "redemption", "adjustment", "revocation", "bonus"],
+    },
+    amount: { type: Number, required: true }, // Negative for deductions
+    balanceAfter: Number,
+    reason: String,
+    actorEmail: String, // Who caused the change (the user themselves for claims)
+    huntItem: {
+      type: Schema.Types.ObjectId,
+      ref: "HuntItem",
+      default: null,
+    },
+    achievement: {
+      type: Schema.Types.ObjectId,
+      ref: "Achievement",
+      default: null,
+    },
+    prize: {
+      type: Schema.Types.ObjectId,
+      ref: "Prize",
+      default: null,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+pointTransactionSchema.index({ user: 1, createdAt: -1 });
+pointTransactionSchema.index({ prize: 1, user: 1 });
+
 const adminAuditLogSchema = new Schema(
   {
     adminEmail: {
@@ -71,7 +320,17 @@ const adminAuditLogSchema = new Schema(
     resourceType: {
       type: String,
       required: true,
-      enum: ["user", "huntItem", "claimAttempts", "scheduleItem"],
+      enum: [
+        "user",
+        "huntItem",
+        "claimAttempts",
+        "scheduleItem",
+        "team",
+        "achievement",
+        "prize",
+        "leaderboard",
+        "anomaly",
+      ],
       index: true,
     },
     resourceId: {
@@ -110,6 +369,128 @@ adminAuditLogSchema.index({ adminEmail: 1, createdAt: -1 });
 adminAuditLogSchema.index({ targetUserEmail: 1, createdAt: -1 });
 adminAuditLogSchema.index({ action: 1, createdAt: -1 });
 
+// Standings captured at a point in time (see lib/leaderboardSnapshots.ts).
+// Snapshots are never edited once taken.
+const leaderboardSnapshotSchema = new Schema(
+  {
+    takenAt: { type: Date, required: true, immutable: true }, // Standings are as of this time
+    kind: {
+      type: String,
+      required: true,
+      enum: ["freeze", "scheduled", "manual"],
+      immutable: true,
+    },
+    label: { type: String, immutable: true },
+    takenBy: { type: String, immutable: true }, // Admin email, or "system" for scheduled snapshots
+    // Prevents the same freeze or scheduled snapshot being taken twice
+    key: { type: String, immutable: true },
+    individuals: {
+      type: [
+        {
+          rank: Number,
+          user: { type: Schema.Types.ObjectId, ref: "User" },
+          name: String, // Display name (alias) at the time
+          score: Number,
+          _id: false,
+        },
+      ],
+      default: [],
+      immutable: true,
+    },
+    teams: {
+      type: [
+        {
+          rank: Number,
+          team: { type: Schema.Types.ObjectId, ref: "Team" },
+          name: String,
+          score: Number,
+          members: Number,
+          _id: false,
+        },
+      ],
+      default: [],
+      immutable: true,
+    },
+  },
+  {
+    timestamps: true,
+  }
+);
+
+leaderboardSnapshotSchema.index({ takenAt: -1 });
+leaderboardSnapshotSchema.index({ key: 1 }, { unique: true, sparse: true });
+
+for (const operation of [
+  "updateOne",
+  "updateMany",
+  "findOneAndUpdate",
+  "replaceOne",
+] as const) {
+  leaderboardSnapshotSchema.pre(operation, function () {
+    throw new Error("Leaderboard snapshots can't be changed");
+  });
+}
+
+// While a freeze is in place (liftedAt is null), the public leaderboard shows
+// the standings as of freezeAt instead of live points
+const leaderboardFreezeSchema = new Schema(
+  {
+    freezeAt: { type: Date, required: true },
+    frozenBy: String,
+    // Taken once freezeAt has passed
+    snapshot: {
+      type: Schema.Types.ObjectId,
+      ref: "LeaderboardSnapshot",
+      default: null,
+    },
+    liftedAt: { type: Date, default: null },
+    liftedBy: String,
+  },
+  {
+    timestamps: true,
+  }
+);
+
+leaderboardFreezeSchema.index({ liftedAt: 1, createdAt: -1 });
+
+// One request counted by a rate limit policy (used by the Mongo rate limit
+// store). Hits are removed by the TTL index once they leave their window.
+const rateLimitHitSchema = new Schema({
+  key: { type: String, required: true }, // Policy name and who is limited
+  at: { type: Date, required: true },
+  expiresAt: { type: Date, required: true },
+});
+
+rateLimitHitSchema.index({ key: 1, at: -1 });
+rateLimitHitSchema.index({ expiresAt: 1 }, { expireAfterSeconds: 0 });
+
+// An admin's review of a flag from the anomaly report (see lib/anomalies.ts).
+// Flags are recomputed on every request, so reviews are matched by flagKey.
+const anomalyReviewSchema = new Schema(
+  {
+    flagKey: { type: String, required: true, unique: true },
+    type: {
+      type: String,
+      required: true,
+      enum: [
+        "rapid-claims",
+        "shared-sequence",
+        "shared-ip",
+        "shared-user-agent",
+        "outside-window",
+      ],
+    },
+    // Accounts the flag covered when reviewed - the flag reopens if more join
+    users: [{ type: Schema.Types.ObjectId, ref: "User" }],
+    note: { type: String, default: "" },
+    reviewedBy: String,
+    reviewedAt: { type: Date, required: true },
+  },
+  {
+    timestamps: true,
+  }
+);
+
 // Day & ScheduleItem models
 
 const ScheduleItemSchema = new Schema({
@@ -138,8 +519,48 @@ const Day = mongoose.models.Day || mongoose.model("Day", DaySchema);
 const User = mongoose.models.User || mongoose.model("User", userSchema);
 const HuntItem =
   mongoose.models.HuntItem || mongoose.model("HuntItem", huntItemSchema);
+const Team = mongoose.models.Team || mongoose.model("Team", teamSchema);
+const TeamClaim =
+  mongoose.models.TeamClaim || mongoose.model("TeamClaim", teamClaimSchema);
+const Achievement =
+  mongoose.models.Achievement ||
+  mongoose.model("Achievement", achievementSchema);
+const Prize = mongoose.models.Prize || mongoose.model("Prize", prizeSchema);
+const ClaimAttempt =
+  mongoose.models.ClaimAttempt ||
+  mongoose.model("ClaimAttempt", claimAttemptSchema);
+const PointTransaction =
+  mongoose.models.PointTransaction ||
+  mongoose.model("PointTransaction", pointTransactionSchema);
 const AdminAuditLog =
   mongoose.models.AdminAuditLog ||
   mongoose.model("AdminAuditLog", adminAuditLogSchema);
+const LeaderboardSnapshot =
+  mongoose.models.LeaderboardSnapshot ||
+  mongoose.model("LeaderboardSnapshot", leaderboardSnapshotSchema);
+const LeaderboardFreeze =
+  mongoose.models.LeaderboardFreeze ||
+  mongoose.model("LeaderboardFreeze", leaderboardFreezeSchema);
+const RateLimitHit =
+  mongoose.models.RateLimitHit ||
+  mongoose.model("RateLimitHit", rateLimitHitSchema);
+const AnomalyReview =
+  mongoose.models.AnomalyReview ||
+  mongoose.model("AnomalyReview", anomalyReviewSchema);
 
-export { User, HuntItem, AdminAuditLog, Day };
+export {
+  User,
+  HuntItem,
+  Team,
+  TeamClaim,
+  Achievement,
+  Prize,
+  ClaimAttempt,
+  PointTransaction,
+  AdminAuditLog,
+  LeaderboardSnapshot,
+  LeaderboardFreeze,
+  RateLimitHit,
+  AnomalyReview,
+  Day,
+};
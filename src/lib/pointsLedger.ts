@@ -0,0 +1,112 @@
+import { ClientSession, Types } from "mongoose";
+import { PointTransaction, User } from "./models";
+
+export type PointTransactionType =
+  "claim" | "redemption" | "adjustment" | "revocation" | "bonus";
+
+export interface PointTransactionInput {
+  type: PointTransactionType;
+  amount: number; // Negative for deductions
+  reason: string;
+  actorEmail?: string;
+  huntItem?: Types.ObjectId | null;
+  achievement?: Types.ObjectId | null;
+  prize?: Types.ObjectId | null;
+}
+
+// Minimal shape of a User document whose balance can change
+interface LedgerUser {
+  _id: Types.ObjectId;
+  points: number;
+}
+
+type PointTransactionDocument = InstanceType<typeof PointTransaction>;
+
+/**
+ * Apply a points change to a user's cached balance and build its ledger entry.
+ * Save the user first, then pass the returned entries to savePointTransactions.
+ * @param user - User document to update in place
+ * @param input - The change being made
+ * @returns Unsaved ledger entry
+ */
+export function applyPointTransaction(
+  user: LedgerUser,
+  input: PointTransactionInput
+): PointTransactionDocument {
+  user.points = (user.points || 0) + input.amount;
+
+  return createPointTransaction(user, input);
+}
+
+/**
+ * Build the ledger entry for a change already applied to the user's balance
+ * (e.g. by an atomic $inc)
+ * @param user - User document holding the new balance
+ * @param input - The change that was made
+ * @returns Unsaved ledger entry
+ */
+export function createPointTransaction(
+  user: LedgerUser,
+  input: PointTransactionInput
+): PointTransactionDocument {
+  return new PointTransaction({
+    ...input,
+    user: user._id,
+    balanceAfter: user.points,
+  });
+}
+
+/**
+ * Persist ledger entries built by applyPointTransaction, and stamp the users'
+ * pointsUpdatedAt for leaderboard tie-breaks.
+ * Entries that don't change the balance are skipped.
+ * @param transactions - Unsaved ledger entries
+ * @param session - Transaction the entries belong to, if any
+ */
+export async function savePointTransactions(
+  transactions: PointTransactionDocument[],
+  session?: ClientSession
+) {
+  const entries = transactions.filter((transaction) => transaction.amount);
+  if (entries.length > 0) {
+    await PointTransaction.insertMany(entries, { session });
+    await User.updateMany(
+      { _id: { $in: entries.map((entry) => entry.user) } },
+      { $set: { pointsUpdatedAt: new Date() } },
+      { session }
+    );
+  }
+}
+
+/**
+ * Compare every user's cached points with the sum of their ledger entries
+ * @param session - Transaction to read in, so both sides are read at once
+ * @returns Users whose cached balance differs from the ledger
+ */
+export async function findBalanceDrift(session?: ClientSession) {
+  const users = await User.find({})
+    .select("email name points")
+    .session(session || null);
+  const ledgerTotals = await PointTransaction.aggregate([
+    { $group: { _id: "$user", balance: { $sum: "$amount" } } },
+  ]).session(session || null);
+
+  const ledgerBalances = new Map<string, number>(
+    ledgerTotals.map((total) => [total._id.toString(), total.balance])
+  );
+
+  return users
+    .map((user) => {
+      const points = user.points || 0;
+      const ledgerBalance = ledgerBalances.get(user._id.toString()) || 0;
+      return {
+        userId: user._id,
+        email: user.email,
+        name: user.name,
+        points,
+        ledgerBalance,
+        difference: points - ledgerBalance,
+      };
+    })
+    .filter((entry) => entry.difference !== 0);
+}
@@ -0,0 +1,157 @@
+import QRCode from "qrcode";
+import { formatShortCode } from "./huntItemCodes";
+
+export type PrintPageSize = "letter" | "a4";
+
+// Printable area of each page size in millimetres (10mm margins)
+const PAGE_AREAS: Record<PrintPageSize, { width: number; height: number }> = {
+  letter: { width: 195.9, height: 259.4 },
+  a4: { width: 190, height: 277 },
+};
+
+// Grid used for each supported number of tiles per page
+export const TILE_LAYOUTS: Record<number, { columns: number; rows: number }> = {
+  1: { columns: 1, rows: 1 },
+  2: { columns: 1, rows: 2 },
+  4: { columns: 2, rows: 2 },
+  6: { columns: 2, rows: 3 },
+  9: { columns: 3, rows: 3 },
+  12: { columns: 3, rows: 4 },
+  20: { columns: 4, rows: 5 },
+};
+
+export interface PrintSheetItem {
+  name: string;
+  identifier: string;
+  shortCode?: string;
+  points: number;
+}
+
+export interface PrintSheetOptions {
+  pageSize: PrintPageSize;
+  tilesPerPage: number;
+}
+
+/**
+ * Validate print sheet options from the query string
+ * @param pageSize - Requested page size
+ * @param tilesPerPage - Requested number of tiles per page
+ * @returns The options, or an error message
+ */
+export function parsePrintSheetOptions(
+  pageSize: string | null,
+  tilesPerPage: string | null
+): { options: PrintSheetOptions } | { error: string } {
+  const size = (pageSize || "letter").toLowerCase();
+  if (size !== "letter" && size !== "a4") {
+    return { error: "Page size must be letter or a4" };
+  }
+
+  const tiles = parseInt(tilesPerPage || "6", 10);
+  if (!TILE_LAYOUTS[tiles]) {
+    return {
+      error: `Tiles per page must be one of ${Object.keys(TILE_LAYOUTS).join(", ")}`,
+    };
+  }
+
+  return { options: { pageSize: size, tilesPerPage: tiles } };
+}
+
+const escapeHtml = (value: string) =>
+  value
+    .replace(/&/g, "&amp;")
+    .replace(/</g, "&lt;")
+    .replace(/>/g, "&gt;")
+    .replace(/"/g, "&quot;");
+
+/**
+ * Render a print-optimized HTML document with one QR tile per hunt item
+ * @param items - Hunt items to print, in order
+ * @param options - Page size and tiles per page
+ * @returns Complete HTML document
+ */
+export async function renderPrintSheet(
+  items: PrintSheetItem[],
+  { pageSize, tilesPerPage }: PrintSheetOptions
+): Promise<string> {
+  const page = PAGE_AREAS[pageSize];
+  const { columns, rows } = TILE_LAYOUTS[tilesPerPage];
+
+  // The QR takes most of the tile, leaving room for the text underneath
+  const tileHeight = page.height / rows;
+  const qrSize = Math.min(page.width / columns, tileHeight) * 0.7;
+
+  const tiles = await Promise.all(
+    items.map(async (item) => {
+      const qr = await QRCode.toString(item.identifier, {
+        type: "svg",
+        margin: 2,
+        errorCorrectionLevel: "M",
+      });
+
+      return `<div class="tile">
+  <div class="qr">${qr}</div>
+  <div class="name">${escapeHtml(item.name)}</div>
+  <div class="points">${item.points} points</div>
+  ${
+    item.shortCode
+      ? `<div class="code">Can't scan? Enter <strong>${formatShortCode(item.shortCode)}</strong></div>`
+      : ""
+  }
+</div>`;
+    })
+  );
+
+  const pages = [];
+  for (let i = 0; i < tiles.length; i += tilesPerPage) {
+    pages.push(
+      `<section class="page">${tiles.slice(i, i + tilesPerPage).join("")}</section>`
+    );
+  }
+
+  return `<!DOCTYPE html>
+<html lang="en">
+<head>
+<meta charset="utf-8">
+<title>CUSEC Scavenger Hunt QR Codes</title>
+<style>
+  @page { size: ${pageSize}; margin: 10mm; }
+  * { box-sizing: border-box; }
+  body { margin: 0; font-family: system-ui, sans-serif; color: #000; }
+  .toolbar { padding: 12px; text-align: center; }
+  .page {
+    width: ${page.width}mm;
+    height: ${page.height}mm;
+    display: grid;
+    grid-template-columns: repeat(${columns}, 1fr);
+    grid-template-rows: repeat(${rows}, 1fr);
+    break-after: page;
+    margin: 0 auto;
+  }
+  .page:last-child { break-after: auto; }
+  .tile {
+    display: flex;
+    flex-direction: column;
+    align-items: center;
+    justify-content: center;
+    border: 1px dashed #999;
+    padding: 4mm;
+    text-align: center;
+    overflow: hidden;
+  }
+  .qr svg { width: ${qrSize.toFixed(1)}mm; height: ${qrSize.toFixed(1)}mm; }
+  .name { font-weight: 700; font-size: ${columns > 2 ? 11 : 16}pt; margin-top: 2mm; }
+  .points { font-size: ${columns > 2 ? 9 : 12}pt; }
+  .code { font-size: ${columns > 2 ? 8 : 11}pt; margin-top: 1mm; color: #333; }
+  .code strong { font-family: ui-monospace, monospace; letter-spacing: 0.1em; }
+  @media print { .toolbar { display: none; } }
+</style>
+</head>
+<body>
+<div class="toolbar">
+  <button onclick="window.print()">Print ${items.length} QR code${items.length === 1 ? "" : "s"}</button>
+</div>
+${pages.join("\n")}
+</body>
+</html>`;
+}
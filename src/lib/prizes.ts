@@ -0,0 +1,199 @@
+import mongoose, { Types } from "mongoose";
+import { PointTransaction, Prize, User } from "./models";
+import { createPointTransaction, savePointTransactions } from "./pointsLedger";
+
+export interface PrizeFields {
+  name?: string;
+  description?: string;
+  imageUrl?: string;
+  pointCost?: number;
+  stock?: number;
+  perUserLimit?: number | null;
+  active?: boolean;
+}
+
+// Thrown inside the redemption transaction to abort it with a response
+class PrizeRedemptionError extends Error {
+  status: number;
+
+  constructor(message: string, status: number) {
+    super(message);
+    this.status = status;
+  }
+}
+
+/**
+ * Validate prize fields sent by the admin prizes form.
+ * Only fields present in the input are returned, so omitted fields are left unchanged.
+ * @param input - Request body fields
+ * @returns The fields to store, or an error message
+ */
+export function parsePrizeInput(input: {
+  name?: unknown;
+  description?: unknown;
+  imageUrl?: unknown;
+  pointCost?: unknown;
+  stock?: unknown;
+  perUserLimit?: unknown;
+  active?: unknown;
+}): { fields: PrizeFields } | { error: string } {
+  const fields: PrizeFields = {};
+
+  if (input.name !== undefined) {
+    if (typeof input.name !== "string" || !input.name.trim()) {
+      return { error: "Name is required" };
+    }
+    fields.name = input.name.trim();
+  }
+
+  if (input.description !== undefined) {
+    fields.description =
+      typeof input.description === "string" ? input.description : "";
+  }
+
+  if (input.imageUrl !== undefined) {
+    fields.imageUrl =
+      typeof input.imageUrl === "string" ? input.imageUrl.trim() : "";
+  }
+
+  if (input.pointCost !== undefined) {
+    const pointCost = Number(input.pointCost);
+    if (!Number.isInteger(pointCost) || pointCost < 1) {
+      return { error: "Point cost must be a positive whole number" };
+    }
+    fields.pointCost = pointCost;
+  }
+
+  if (input.stock !== undefined) {
+    const stock = Number(input.stock);
+    if (!Number.isInteger(stock) || stock < 0) {
+      return { error: "Stock must be zero or more" };
+    }
+    fields.stock = stock;
+  }
+
+  if (input.perUserLimit !== undefined) {
+    if (input.perUserLimit === null || input.perUserLimit === "") {
+      fields.perUserLimit = null;
+    } else {
+      const perUserLimit = Number(input.perUserLimit);
+      if (!Number.isInteger(perUserLimit) || perUserLimit < 1) {
+        return { error: "Per-user limit must be a positive whole number" };
+      }
+      fields.perUserLimit = perUserLimit;
+    }
+  }
+
+  if (input.active !== undefined) {
+    fields.active = !!input.active;
+  }
+
+  return { fields };
+}
+
+/**
+ * Count how many of each prize have been redeemed
+ * @param userId - Only count redemptions by this user
+ * @returns Redemption counts keyed by prize ID
+ */
+export async function countPrizeRedemptions(userId?: Types.ObjectId | string) {
+  const totals: { _id: Types.ObjectId; count: number }[] =
+    await PointTransaction.aggregate([
+      {
+        $match: {
+          type: "redemption",
+          prize: { $ne: null },
+          ...(userId && { user: new Types.ObjectId(userId) }),
+        },
+      },
+      { $group: { _id: "$prize", count: { $sum: 1 } } },
+    ]);
+
+  return new Map(totals.map((total) => [total._id.toString(), total.count]));
+}
+
+/**
+ * Redeem one of a prize for a user. The stock decrement, points deduction and
+ * ledger entry are written in a single transaction, so two volunteers can't
+ * hand out the last item twice.
+ * @param userId - User redeeming the prize
+ * @param prizeId - Prize being redeemed
+ * @param actorEmail - Volunteer or admin performing the redemption
+ * @returns The updated user and prize, or an error and status code
+ */
+export async function redeemPrize(
+  userId: string,
+  prizeId: string,
+  actorEmail?: string
+) {
+  const session = await mongoose.startSession();
+
+  try {
+    return await session.withTransaction(async () => {
+      const prize = await Prize.findOneAndUpdate(
+        { _id: prizeId, active: true, stock: { $gt: 0 } },
+        { $inc: { stock: -1 } },
+        { new: true, session }
+      );
+
+      if (!prize) {
+        const existing = await Prize.findById(prizeId).session(session);
+        if (!existing) {
+          throw new PrizeRedemptionError("Prize not found", 404);
+        }
+        if (!existing.active) {
+          throw new PrizeRedemptionError("This prize is not available", 400);
+        }
+        throw new PrizeRedemptionError("This prize is out of stock", 409);
+      }
+
+      // Concurrent redemptions for the same user both write the user below,
+      // so the transaction retries and this count sees the earlier one
+      if (prize.perUserLimit) {
+        const redeemedByUser = await PointTransaction.countDocuments({
+          user: userId,
+          prize: prize._id,
+          type: "redemption",
+        }).session(session);
+
+        if (redeemedByUser >= prize.perUserLimit) {
+          throw new PrizeRedemptionError(
+            `User has already redeemed the limit of ${prize.perUserLimit} for this prize`,
+            400
+          );
+        }
+      }
+
+      const user = await User.findOneAndUpdate(
+        { _id: userId, points: { $gte: prize.pointCost } },
+        { $inc: { points: -prize.pointCost } },
+        { new: true, session }
+      );
+
+      if (!user) {
+        if (!(await User.exists({ _id: userId }).session(session))) {
+          throw new PrizeRedemptionError("User not found", 404);
+        }
+        throw new PrizeRedemptionError("User does not have enough points", 400);
+      }
+
+      const transaction = createPointTransaction(user, {
+        type: "redemption",
+        amount: -prize.pointCost,
+        reason: `Redeemed ${prize.name}`,
+        actorEmail,
+        prize: prize._id,
+      });
+      await savePointTransactions([transaction], session);
+
+      return { user, prize };
+    });
+  } catch (error) {
+    if (error instanceof PrizeRedemptionError) {
+      return { error: error.message, status: error.status };
+    }
+    throw error;
+  } finally {
+    await session.endSession();
+  }
+}
@@ -0,0 +1,56 @@
+import { createHash } from "crypto";
+
+/**
+ * Normalizes a puzzle answer so casing, accents, punctuation and extra
+ * whitespace don't matter when comparing against the accepted answers
+ * @param answer - The raw answer as typed by a hunter or admin
+ * @returns The normalized answer
+ */
+export function normalizeAnswer(answer: string): string {
+  return answer
+    .normalize("NFKD")
+    .replace(/[\u0300-\u036f]/g, "")
+    .toLowerCase()
+    .replace(/[^a-z0-9\s]/g, "")
+    .replace(/\s+/g, " ")
+    .trim();
+}
+
+/**
+ * Hashes a puzzle answer after normalizing it
+ * @param answer - The raw answer
+ * @returns Hex encoded SHA-256 hash of the normalized answer
+ */
+export function hashAnswer(answer: string): string {
+  return createHash("sha256").update(normalizeAnswer(answer)).digest("hex");
+}
+
+/**
+ * Hashes a list of accepted answers, dropping blanks and duplicates
+ * @param answers - Raw accepted answers
+ * @returns Unique answer hashes
+ */
+export function hashAnswers(answers: string[]): string[] {
+  const hashes = answers
+    .filter((answer) => normalizeAnswer(answer).length > 0)
+    .map(hashAnswer);
+
+  return Array.from(new Set(hashes));
+}
+
+/**
+ * Checks a submitted answer against the stored answer hashes
+ * @param answer - The answer submitted by a hunter
+ * @param answerHashes - Hashes of the accepted answers
+ * @returns Whether the answer is accepted
+ */
+export function isCorrectAnswer(
+  answer: string,
+  answerHashes: string[]
+): boolean {
+  if (!normalizeAnswer(answer)) {
+    return false;
+  }
+
+  return answerHashes.includes(hashAnswer(answer));
+}
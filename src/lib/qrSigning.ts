@@ -0,0 +1,152 @@
+import { createHmac, timingSafeEqual } from "crypto";
+
+const ROTATING_TOKEN_PREFIX = "r1";
+const BADGE_TOKEN_PREFIX = "b1";
+
+// How long a rotating QR token stays on screen before it is replaced
+export const QR_ROTATION_SECONDS =
+  parseInt(process.env.HUNT_QR_ROTATION_SECONDS || "", 10) || 30;
+
+export type RotatingTokenResult =
+  | { valid: true; itemId: string }
+  | { valid: false; reason: "malformed" | "invalid_signature" | "expired" };
+
+export type BadgeTokenResult =
+  | { valid: true; userId: string }
+  | { valid: false; reason: "malformed" | "invalid_signature" };
+
+/**
+ * Get the secret used to sign QR payloads
+ * @throws {Error} If HUNT_QR_SECRET is not configured
+ */
+export function getQRSigningSecret(): string {
+  const secret = process.env.HUNT_QR_SECRET;
+  if (!secret) {
+    throw new Error("HUNT_QR_SECRET environment variable is not set");
+  }
+  return secret;
+}
+
+/**
+ * Sign a payload with HMAC-SHA256
+ * @param payload - The string to sign
+ * @returns URL-safe base64 signature
+ */
+export function signPayload(payload: string): string {
+  return createHmac("sha256", getQRSigningSecret())
+    .update(payload)
+    .digest("base64url");
+}
+
+/**
+ * Compare a signature against the expected signature for a payload in constant time
+ * @param payload - The signed string
+ * @param signature - The signature to check
+ * @returns True if the signature is valid
+ */
+export function verifyPayloadSignature(
+  payload: string,
+  signature: string
+): boolean {
+  const expected = Buffer.from(signPayload(payload));
+  const actual = Buffer.from(signature);
+  return expected.length === actual.length && timingSafeEqual(expected, actual);
+}
+
+/**
+ * Get the rotation bucket a moment in time falls into
+ * @param now - The moment to bucket
+ * @returns Bucket number
+ */
+export function getRotationBucket(now: Date = new Date()): number {
+  return Math.floor(now.getTime() / (QR_ROTATION_SECONDS * 1000));
+}
+
+/**
+ * Check whether a scanned value looks like a rotating token rather than a static identifier
+ * @param value - The scanned value
+ */
+export function isRotatingToken(value: string): boolean {
+  return value.startsWith(`${ROTATING_TOKEN_PREFIX}.`);
+}
+
+/**
+ * Create the token shown on a rotating QR display for the current bucket
+ * @param itemId - The hunt item ID
+ * @param now - The moment to create the token for
+ * @returns The token and when the display should refresh it
+ */
+export function createRotatingToken(itemId: string, now: Date = new Date()) {
+  const bucket = getRotationBucket(now);
+  const payload = `${ROTATING_TOKEN_PREFIX}.${itemId}.${bucket}`;
+
+  return {
+    token: `${payload}.${signPayload(payload)}`,
+    expiresAt: new Date((bucket + 1) * QR_ROTATION_SECONDS * 1000),
+  };
+}
+
+/**
+ * Verify a rotating token's signature and freshness.
+ * Tokens from the previous bucket are still accepted so a scan made just
+ * before the display refreshes does not fail.
+ * @param token - The scanned token
+ * @param now - The moment the token was scanned
+ * @returns The hunt item ID when valid, or the reason it was rejected
+ */
+export function verifyRotatingToken(
+  token: string,
+  now: Date = new Date()
+): RotatingTokenResult {
+  const parts = token.split(".");
+  if (parts.length !== 4 || parts[0] !== ROTATING_TOKEN_PREFIX) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const [, itemId, bucketPart, signature] = parts;
+  const bucket = parseInt(bucketPart, 10);
+  if (!itemId || isNaN(bucket)) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  if (!verifyPayloadSignature(parts.slice(0, 3).join("."), signature)) {
+    return { valid: false, reason: "invalid_signature" };
+  }
+
+  const currentBucket = getRotationBucket(now);
+  if (bucket !== currentBucket && bucket !== currentBucket - 1) {
+    return { valid: false, reason: "expired" };
+  }
+
+  return { valid: true, itemId };
+}
+
+/**
+ * Create the token encoded in a user's personal badge QR.
+ * Badge tokens don't expire - the signature only proves the server issued it.
+ * @param userId - The user's ID
+ * @returns The signed token
+ */
+export function createBadgeToken(userId: string): string {
+  const payload = `${BADGE_TOKEN_PREFIX}.${userId}`;
+  return `${payload}.${signPayload(payload)}`;
+}
+
+/**
+ * Verify a scanned badge token's signature
+ * @param token - The scanned token
+ * @returns The user ID when valid, or the reason it was rejected
+ */
+export function verifyBadgeToken(token: string): BadgeTokenResult {
+  const parts = token.split(".");
+  if (parts.length !== 3 || parts[0] !== BADGE_TOKEN_PREFIX || !parts[1]) {
+    return { valid: false, reason: "malformed" };
+  }
+
+  const [, userId, signature] = parts;
+  if (!verifyPayloadSignature(parts.slice(0, 2).join("."), signature)) {
+    return { valid: false, reason: "invalid_signature" };
+  }
+
+  return { valid: true, userId };
+}
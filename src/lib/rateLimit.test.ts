@@ -0,0 +1,114 @@
+import { describe, expect, it, vi } from "vitest";
+import {
+  checkRequestRateLimit,
+  getClientIp,
+  MemoryRateLimitStore,
+  RateLimitPolicy,
+  recordFailedRequest,
+} from "./rateLimit";
+
+// The memory store never connects, but the module imports the connection
+vi.mock("./mongodb", () => ({ default: vi.fn() }));
+
+const policies: RateLimitPolicy[] = [
+  { name: "claim", by: "user", limit: 5, windowMs: 60000 },
+  {
+    name: "claim-failures",
+    by: "ip",
+    limit: 2,
+    windowMs: 60000,
+    failuresOnly: true,
+  },
+];
+
+function claimRequest(ip: string) {
+  return new Request("http://localhost/api/claim", {
+    method: "POST",
+    headers: { "x-forwarded-for": ip },
+  });
+}
+
+describe("checkRequestRateLimit", () => {
+  it("blocks a caller once a policy's limit is reached", async () => {
+    const store = new MemoryRateLimitStore();
+
+    for (let i = 0; i < 5; i++) {
+      const result = await checkRequestRateLimit(
+        claimRequest("10.0.0.1"),
+        policies,
+        "player@example.com",
+        store
+      );
+      expect(result.allowed).toBe(true);
+    }
+
+    const blocked = await checkRequestRateLimit(
+      claimRequest("10.0.0.1"),
+      policies,
+      "Player@example.com",
+      store
+    );
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.policy?.name).toBe("claim");
+  });
+
+  it("only counts failures against failure policies", async () => {
+    const store = new MemoryRateLimitStore();
+
+    // Requests alone don't use up the failure allowance...
+    for (let i = 0; i < 3; i++) {
+      await checkRequestRateLimit(
+        claimRequest("10.0.0.2"),
+        policies,
+        `player${i}@example.com`,
+        store
+      );
+    }
+    const beforeFailures = await checkRequestRateLimit(
+      claimRequest("10.0.0.2"),
+      policies,
+      "next@example.com",
+      store
+    );
+    expect(beforeFailures.allowed).toBe(true);
+
+    // ...but failures from any account on the IP do
+    await recordFailedRequest(
+      policies,
+      { ip: "10.0.0.2", userKey: "a@example.com" },
+      store
+    );
+    await recordFailedRequest(
+      policies,
+      { ip: "10.0.0.2", userKey: "b@example.com" },
+      store
+    );
+
+    const blocked = await checkRequestRateLimit(
+      claimRequest("10.0.0.2"),
+      policies,
+      "c@example.com",
+      store
+    );
+    expect(blocked.allowed).toBe(false);
+    expect(blocked.policy?.name).toBe("claim-failures");
+
+    const otherIp = await checkRequestRateLimit(
+      claimRequest("10.0.0.3"),
+      policies,
+      "c@example.com",
+      store
+    );
+    expect(otherIp.allowed).toBe(true);
+  });
+});
+
+describe("getClientIp", () => {
+  it("uses the address our proxy saw, not ones the client sent", () => {
+    const request = new Request("http://localhost/api/claim", {
+      headers: { "x-forwarded-for": "1.2.3.4, 10.0.0.9" },
+    });
+
+    expect(getClientIp(request)).toBe("10.0.0.9");
+  });
+});
@@ -0,0 +1,337 @@
+import { NextResponse } from "next/server";
+import { RateLimitHit } from "./models";
+import connectMongoDB from "./mongodb";
+
+// Who a policy counts requests for. "route" shares one window between every
+// caller of the routes using the policy.
+export type RateLimitKey = "user" | "ip" | "route";
+
+export interface RateLimitPolicy {
+  name: string; // Routes using the same name share their windows
+  by: RateLimitKey;
+  limit: number; // Requests allowed per window
+  windowMs: number;
+  // Only count requests recorded with recordFailedRequest (wrong guesses)
+  failuresOnly?: boolean;
+}
+
+export interface RateLimitResult {
+  allowed: boolean;
+  limit: number;
+  remaining: number;
+  resetAt: Date; // When the oldest counted request leaves the window
+  policy: RateLimitPolicy | null; // The most restrictive policy, if any applied
+}
+
+// Hits counted in a key's window, and when the oldest of them was made
+export interface RateLimitWindow {
+  allowed: boolean;
+  count: number;
+  oldest: number; // Milliseconds since the epoch
+}
+
+// Where request timestamps are kept. Requests over the limit aren't counted,
+// so callers that back off regain access once the window slides past.
+export interface RateLimitStore {
+  // Check the window without counting a request
+  count(
+    key: string,
+    now: number,
+    windowMs: number,
+    limit: number
+  ): Promise<RateLimitWindow>;
+  // Count a request if it's within the limit
+  hit(
+    key: string,
+    now: number,
+    windowMs: number,
+    limit: number
+  ): Promise<RateLimitWindow>;
+}
+
+const MINUTE = 60 * 1000;
+
+// Conference Wi-Fi puts many attendees behind one IP, so the IP limits are
+// generous. Wrong guesses are limited per IP as well as per account (see
+// claimService), so one person can't get more guesses by cycling through
+// accounts; the budget is 50 accounts' worth, so honest mistakes from a whole
+// venue stay well under it.
+export const RATE_LIMIT_POLICIES = {
+  claim: [
+    { name: "claim", by: "user", limit: 30, windowMs: MINUTE },
+    { name: "claim", by: "ip", limit: 300, windowMs: MINUTE },
+    {
+      name: "claim-failures",
+      by: "ip",
+      limit: 500,
+      windowMs: 15 * MINUTE,
+      failuresOnly: true,
+    },
+  ],
+  redeem: [{ name: "redeem", by: "user", limit: 60, windowMs: MINUTE }],
+  adminSearch: [
+    { name: "admin-search", by: "user", limit: 120, windowMs: MINUTE },
+  ],
+} satisfies Record<string, RateLimitPolicy[]>;
+
+/**
+ * Rate limit store backed by a Map. Limits only apply per server instance -
+ * set RATE_LIMIT_STORE=mongo when running more than one.
+ */
+export class MemoryRateLimitStore implements RateLimitStore {
+  private hits = new Map<string, number[]>();
+  private maxKeys: number;
+
+  constructor(maxKeys = 10000) {
+    this.maxKeys = maxKeys;
+  }
+
+  async count(key: string, now: number, windowMs: number, limit: number) {
+    const hits = (this.hits.get(key) || []).filter(
+      (time) => time > now - windowMs
+    );
+    return {
+      allowed: hits.length < limit,
+      count: hits.length,
+      oldest: hits[0] ?? now,
+    };
+  }
+
+  async hit(key: string, now: number, windowMs: number, limit: number) {
+    const hits = (this.hits.get(key) || []).filter(
+      (time) => time > now - windowMs
+    );
+    const allowed = hits.length < limit;
+    if (allowed) hits.push(now);
+
+    this.hits.delete(key);
+    if (this.hits.size >= this.maxKeys) {
+      const oldest = this.hits.keys().next().value;
+      if (oldest !== undefined) this.hits.delete(oldest);
+    }
+    this.hits.set(key, hits);
+
+    return { allowed, count: hits.length, oldest: hits[0] ?? now };
+  }
+}
+
+/**
+ * Rate limit store shared by every server instance through the RateLimitHit
+ * collection. Concurrent requests can overshoot a limit by a few hits.
+ */
+export class MongoRateLimitStore implements RateLimitStore {
+  async count(key: string, now: number, windowMs: number, limit: number) {
+    await connectMongoDB();
+
+    const hits = await RateLimitHit.find({
+      key,
+      at: { $gt: new Date(now - windowMs) },
+    })
+      .sort({ at: -1 })
+      .limit(limit)
+      .select("at");
+
+    // Only the most recent hits up to the limit matter for the window
+    const oldest = hits.length > 0 ? hits[hits.length - 1].at.getTime() : now;
+    return { allowed: hits.length < limit, count: hits.length, oldest };
+  }
+
+  async hit(key: string, now: number, windowMs: number, limit: number) {
+    const window = await this.count(key, now, windowMs, limit);
+    if (!window.allowed) return window;
+
+    await RateLimitHit.create({
+      key,
+      at: new Date(now),
+      expiresAt: new Date(now + windowMs),
+    });
+    return { ...window, count: window.count + 1 };
+  }
+}
+
+declare global {
+  // eslint-disable-next-line no-var
+  var rateLimitStore: RateLimitStore | undefined;
+}
+
+function getDefaultStore() {
+  if (!global.rateLimitStore) {
+    global.rateLimitStore =
+      process.env.RATE_LIMIT_STORE === "mongo"
+        ? new MongoRateLimitStore()
+        : new MemoryRateLimitStore();
+  }
+  return global.rateLimitStore;
+}
+
+/**
+ * The caller's IP address as seen by our own proxy. Each proxy appends the
+ * address it received the request from to X-Forwarded-For, so entries before
+ * the TRUSTED_PROXY_HOPS-th from the end were written by the client and can't
+ * be trusted.
+ * @param request - Incoming request
+ */
+export function getClientIp(request: Request) {
+  const hops = Number(process.env.TRUSTED_PROXY_HOPS || 1);
+  const forwarded = (request.headers.get("x-forwarded-for") || "")
+    .split(",")
+    .map((entry) => entry.trim())
+    .filter(Boolean);
+
+  if (hops > 0 && forwarded.length >= hops) {
+    return forwarded[forwarded.length - hops];
+  }
+  return request.headers.get("x-real-ip") || null;
+}
+
+// Who each kind of policy applies to; null when it can't be told
+function getIdentities(
+  ip: string | null | undefined,
+  userKey: string | null | undefined
+): Record<RateLimitKey, string | null> {
+  return {
+    user: userKey ? userKey.toLowerCase() : null,
+    ip: ip || null,
+    route: "all",
+  };
+}
+
+/**
+ * Count a request against each policy that applies to it. User policies only
+ * apply to signed-in callers and IP policies only when the IP is known.
+ * Failure policies are checked but not counted.
+ * @param request - Incoming request
+ * @param policies - Limits for the route
+ * @param userKey - Identifies the signed-in caller (e.g. their email)
+ * @param store - Where hits are kept (RATE_LIMIT_STORE picks the default)
+ * @returns Whether the request is allowed, against the most restrictive policy
+ */
+export async function checkRequestRateLimit(
+  request: Request,
+  policies: RateLimitPolicy[],
+  userKey?: string | null,
+  store: RateLimitStore = getDefaultStore()
+): Promise<RateLimitResult> {
+  const now = Date.now();
+  const identities = getIdentities(getClientIp(request), userKey);
+
+  let result: RateLimitResult = {
+    allowed: true,
+    limit: 0,
+    remaining: 0,
+    resetAt: new Date(now),
+    policy: null,
+  };
+
+  for (const policy of policies) {
+    const identity = identities[policy.by];
+    if (!identity) continue;
+
+    const key = `${policy.name}:${policy.by}:${identity}`;
+    const window = policy.failuresOnly
+      ? await store.count(key, now, policy.windowMs, policy.limit)
+      : await store.hit(key, now, policy.windowMs, policy.limit);
+    const policyResult: RateLimitResult = {
+      allowed: window.allowed,
+      limit: policy.limit,
+      remaining: Math.max(0, policy.limit - window.count),
+      resetAt: new Date(window.oldest + policy.windowMs),
+      policy,
+    };
+
+    // Blocked beats allowed; otherwise keep whichever has fewest requests left
+    const isMoreRestrictive = result.allowed
+      ? !policyResult.allowed ||
+        !result.policy ||
+        policyResult.remaining < result.remaining
+      : !policyResult.allowed && policyResult.resetAt > result.resetAt;
+    if (isMoreRestrictive) result = policyResult;
+  }
+
+  return result;
+}
+
+/**
+ * Count a failed request (e.g. a wrong guess) against the failure policies
+ * @param policies - Limits for the route
+ * @param caller.ip - IP address the request came from
+ * @param caller.userKey - Identifies the signed-in caller
+ * @param store - Where hits are kept (RATE_LIMIT_STORE picks the default)
+ */
+export async function recordFailedRequest(
+  policies: RateLimitPolicy[],
+  { ip, userKey }: { ip?: string | null; userKey?: string | null },
+  store: RateLimitStore = getDefaultStore()
+) {
+  const now = Date.now();
+  const identities = getIdentities(ip, userKey);
+
+  for (const policy of policies) {
+    const identity = identities[policy.by];
+    if (!policy.failuresOnly || !identity) continue;
+
+    await store.hit(
+      `${policy.name}:${policy.by}:${identity}`,
+      now,
+      policy.windowMs,
+      policy.limit
+    );
+  }
+}
+
+/**
+ * Standard RateLimit-* headers (plus Retry-After when blocked) for a result
+ * @param result - Outcome of checkRequestRateLimit
+ */
+export function rateLimitHeaders(result: RateLimitResult) {
+  if (!result.policy) return {};
+
+  const secondsUntilReset = Math.max(
+    0,
+    Math.ceil((result.resetAt.getTime() - Date.now()) / 1000)
+  );
+  const headers: Record<string, string> = {
+    "RateLimit-Limit": `${result.limit}`,
+    "RateLimit-Remaining": `${result.remaining}`,
+    "RateLimit-Reset": `${secondsUntilReset}`,
+  };
+  if (!result.allowed) headers["Retry-After"] = `${secondsUntilReset}`;
+
+  return headers;
+}
+
+/**
+ * Run a route handler behind rate limit policies, adding the RateLimit-*
+ * headers to its response
+ * @param request - Incoming request
+ * @param policies - Limits for the route
+ * @param userKey - Identifies the signed-in caller (e.g. their email)
+ * @param handler - Builds the response once the request is allowed
+ */
+export async function withRateLimit(
+  request: Request,
+  policies: RateLimitPolicy[],
+  userKey: string | null | undefined,
+  handler: () => Promise<Response>
+): Promise<Response> {
+  const result = await checkRequestRateLimit(request, policies, userKey);
+  if (!result.allowed) return tooManyRequestsResponse(result);
+
+  const response = await handler();
+  for (const [name, value] of Object.entries(rateLimitHeaders(result))) {
+    response.headers.set(name, value);
+  }
+  return response;
+}
+
+// Response returned when a caller is blocked by a rate limit policy
+export function tooManyRequestsResponse(result: RateLimitResult) {
+  return NextResponse.json(
+    {
+      error: "Too many requests. Please wait a moment and try again.",
+      rateLimitExceeded: true,
+      resetTime: result.resetAt,
+    },
+    { status: 429, headers: rateLimitHeaders(result) }
+  );
+}
@@ -0,0 +1,26 @@
+import { randomInt } from "crypto";
+
+// Ambiguous characters (0/O, 1/I/L) are left out so codes are easy to read aloud
+const READABLE_CODE_ALPHABET = "ABCDEFGHJKMNPQRSTUVWXYZ23456789";
+
+/**
+ * Generate a random code from characters that are hard to confuse
+ * @param length - Number of characters
+ * @returns Code such as "K7M2QX"
+ */
+export function generateReadableCode(length: number): string {
+  let code = "";
+  for (let i = 0; i < length; i++) {
+    code += READABLE_CODE_ALPHABET[randomInt(READABLE_CODE_ALPHABET.length)];
+  }
+  return code;
+}
+
+/**
+ * Normalize a code typed by a user
+ * @param code - The code as entered
+ * @returns Uppercase code without whitespace or dashes
+ */
+export function normalizeReadableCode(code: string): string {
+  return code.replace(/[\s-]+/g, "").toUpperCase();
+}
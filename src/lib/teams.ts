@@ -0,0 +1,190 @@
+import mongoose, { ClientSession, Types } from "mongoose";
+import { HuntItem, Team, TeamClaim, User } from "./models";
+import { notifyLeaderboardChanged } from "./leaderboardEvents";
+import { generateReadableCode } from "./readableCodes";
+
+const INVITE_CODE_LENGTH = 6;
+
+/**
+ * Generate a random team invite code
+ * @returns Invite code such as "K7M2QX"
+ */
+export function generateInviteCode(): string {
+  return generateReadableCode(INVITE_CODE_LENGTH);
+}
+
+/**
+ * Generate an invite code that no other team is using
+ * @returns Unused invite code
+ */
+export async function generateUniqueInviteCode(): Promise<string> {
+  let code = generateInviteCode();
+  while (await Team.exists({ inviteCode: code })) {
+    code = generateInviteCode();
+  }
+  return code;
+}
+
+/**
+ * Normalize an invite code typed by a user
+ * @param code - The code as entered
+ * @returns Uppercase code without whitespace
+ */
+export function normalizeInviteCode(code: string): string {
+  return code.replace(/\s+/g, "").toUpperCase();
+}
+
+/**
+ * Load a team with its members and aggregated score
+ * @param teamId - The team ID
+ * @returns Team summary, or null if the team does not exist
+ */
+export async function getTeamSummary(teamId: Types.ObjectId | string) {
+  const team = await Team.findById(teamId);
+  if (!team) return null;
+
+  const members = await User.find({ team: team._id })
+    .select("name email points")
+    .sort({ points: -1 });
+
+  return {
+    _id: team._id,
+    name: team.name,
+    inviteCode: team.inviteCode,
+    score: members.reduce((total, member) => total + (member.points || 0), 0),
+    members: members.map((member) => ({
+      _id: member._id,
+      name: member.name,
+      points: member.points,
+    })),
+    createdAt: team.createdAt,
+  };
+}
+
+/**
+ * Move a user onto a team (or off their team, with null) inside a transaction,
+ * carrying over their team-scoped claims. Joining is refused when the team
+ * already claimed one of those items through someone else, since the item
+ * would then count twice. The team they leave is deleted once it's empty.
+ * @param userId - The user to move
+ * @param teamId - The team to join, or null to leave
+ * @param session - Transaction to run in
+ * @returns Names of the items both claimed (nothing was changed if any)
+ */
+export async function moveToTeam(
+  userId: Types.ObjectId,
+  teamId: Types.ObjectId | null,
+  session: ClientSession
+): Promise<string[]> {
+  const user = await User.findById(userId)
+    .select("history team")
+    .session(session);
+  if (!user) return [];
+
+  const previousTeam = user.team as Types.ObjectId | null;
+  if (previousTeam?.toString() === teamId?.toString()) return [];
+
+  if (teamId) {
+    const teamItems = await HuntItem.find({
+      _id: { $in: user.history },
+      teamScope: "team",
+    })
+      .select("name")
+      .session(session);
+    const itemIds = teamItems.map((item) => item._id);
+
+    // Claims recorded for the team, plus current members' older claims
+    const claimedByTeam = await TeamClaim.find({
+      team: teamId,
+      huntItem: { $in: itemIds },
+      user: { $ne: userId },
+    })
+      .select("huntItem")
+      .session(session);
+    const members = await User.find({
+      team: teamId,
+      history: { $in: itemIds },
+    })
+      .select("history")
+      .session(session);
+
+    const conflicts = new Set<string>([
+      ...claimedByTeam.map((claim) => claim.huntItem.toString()),
+      ...members.flatMap((member) =>
+        member.history.map((id: Types.ObjectId) => id.toString())
+      ),
+    ]);
+    const conflicting = teamItems.filter((item) =>
+      conflicts.has(item._id.toString())
+    );
+    if (conflicting.length > 0) {
+      return conflicting.map((item) => item.name as string);
+    }
+
+    for (const itemId of itemIds) {
+      await TeamClaim.updateOne(
+        { team: teamId, huntItem: itemId },
+        { $setOnInsert: { user: userId } },
+        { upsert: true, session }
+      );
+    }
+  }
+
+  await User.updateOne({ _id: userId }, { team: teamId }, { session });
+  if (previousTeam) await deleteTeamIfEmpty(previousTeam, session);
+
+  return [];
+}
+
+/**
+ * Add a user to a team (see moveToTeam)
+ * @param userId - The joining user
+ * @param teamId - The team to join
+ * @returns Names of the items both claimed (the user was not added if any)
+ */
+export async function joinTeam(
+  userId: Types.ObjectId,
+  teamId: Types.ObjectId
+): Promise<string[]> {
+  const session = await mongoose.startSession();
+
+  try {
+    const conflicts = await session.withTransaction(() =>
+      moveToTeam(userId, teamId, session)
+    );
+    if (conflicts.length === 0) notifyLeaderboardChanged();
+    return conflicts;
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * Take a user off their team, deleting the team if they were its last member
+ * @param userId - The leaving user
+ */
+export async function leaveTeam(userId: Types.ObjectId) {
+  const session = await mongoose.startSession();
+
+  try {
+    await session.withTransaction(() => moveToTeam(userId, null, session));
+    notifyLeaderboardChanged();
+  } finally {
+    await session.endSession();
+  }
+}
+
+/**
+ * Delete a team once its last member has left, along with its claims
+ * @param teamId - The team ID
+ * @param session - Transaction to run in, if any
+ */
+export async function deleteTeamIfEmpty(
+  teamId: Types.ObjectId | string,
+  session?: ClientSession
+) {
+  if (!(await User.exists({ team: teamId }).session(session || null))) {
+    await Team.deleteOne({ _id: teamId }, { session });
+    await TeamClaim.deleteMany({ team: teamId }, { session });
+  }
+}
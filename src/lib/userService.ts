@@ -25,7 +25,6 @@ export async function findOrCreateUser(userData: UserData) {
         name: userData.name,
         points: 0,
         history: [],
-        claim_attempts: [],
       });
       await user.save();
       console.log(`Created new user: ${userData.email}`);
@@ -37,12 +36,6 @@ export async function findOrCreateUser(userData: UserData) {
         user.name = userData.name;
         await user.save();
       }
-
-      // Initialize claim_attempts if it doesn't exist (for existing users)
-      if (!user.claim_attempts) {
-        user.claim_attempts = [];
-        await user.save();
-      }
     }
 
     return user;